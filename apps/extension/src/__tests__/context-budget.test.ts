@@ -0,0 +1,90 @@
+// apps/extension/src/__tests__/context-budget.test.ts
+// ** import core packages
+import { describe, test, expect } from 'bun:test'
+
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+
+// ** import utils
+import { allocateBudgets, fitToTokenBudget, buildLabelledSources } from '@/utils/context-budget'
+
+// Page content as the extractor writes it, long enough to be cut into several chunks
+const section = (step: number): string => [
+  `## Step ${step}`,
+  '',
+  '- `attempts`: how many times to retry',
+  '- `backoff`: how long to wait between tries',
+  '',
+  '| Option | Default |',
+  '| --- | --- |',
+  `| \`attempts\` | \`${step}\` |`,
+  '',
+  '```ts',
+  `createClient({ retry: { attempts: ${step} } })`,
+  '```'
+].join('\n')
+
+const MARKDOWN = [
+  '# Configuring retries',
+  'Retries are off by default.',
+  ...Array.from({ length: 30 }, (_, index) => section(index + 1))
+].join('\n\n')
+
+describe('fitToTokenBudget', () => {
+  test('returns text within the budget as it is', () => {
+    expect(fitToTokenBudget('## Short\n\n- one\n- two', 100)).toEqual({ text: '## Short\n\n- one\n- two', truncated: false })
+  })
+
+  test('returns nothing when there is no budget', () => {
+    expect(fitToTokenBudget(MARKDOWN, 0)).toEqual({ text: '', truncated: true })
+  })
+
+  test('keeps the line structure of truncated Markdown', () => {
+    const { text, truncated } = fitToTokenBudget(MARKDOWN, 800)
+
+    expect(truncated).toBe(true)
+    expect(text.length).toBeLessThanOrEqual(3200)
+    // Cut into 1000 character chunks, so the text spans several of them
+    expect(text.length).toBeGreaterThan(2000)
+    expect(MARKDOWN.startsWith(text)).toBe(true)
+    expect(text).toContain('# Configuring retries\n\nRetries are off by default.\n\n## Step 1\n\n')
+    expect(text).toContain('| Option | Default |\n| --- | --- |\n| `attempts` | `2` |')
+    expect(text).toContain('```ts\ncreateClient({ retry: { attempts: 5 } })\n```\n\n## Step 6')
+  })
+
+  test('ends at a whole chunk', () => {
+    const { text } = fitToTokenBudget(MARKDOWN, 400)
+
+    expect(MARKDOWN.startsWith(text)).toBe(true)
+    expect(text).not.toMatch(/\s$/)
+  })
+})
+
+describe('allocateBudgets', () => {
+  test('gives what small sources leave over to the longer ones', () => {
+    expect(allocateBudgets([100, 5000, 5000], 3000)).toEqual([100, 1450, 1450])
+  })
+})
+
+describe('buildLabelledSources', () => {
+  test('labels the tabs and trims the long one, keeping its lines', () => {
+    const sources = [
+      { title: 'Retries', url: 'https://fetchkit.example.com/docs/retries', content: MARKDOWN },
+      { title: 'Install', url: 'https://fetchkit.example.com/docs/install', content: '## Install\n\n```sh\nnpm i fetchkit\n```' }
+    ] as PageContent[]
+
+    const [retries, install] = buildLabelledSources(sources, 600)
+
+    expect(install).toEqual({
+      label: 'Tab 2',
+      title: 'Install',
+      url: 'https://fetchkit.example.com/docs/install',
+      content: '## Install\n\n```sh\nnpm i fetchkit\n```',
+      truncated: false
+    })
+    expect(retries.label).toBe('Tab 1')
+    expect(retries.truncated).toBe(true)
+    expect(MARKDOWN.startsWith(retries.content)).toBe(true)
+    expect(retries.content).toContain('## Step 3\n\n- `attempts`')
+  })
+})
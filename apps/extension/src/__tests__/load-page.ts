@@ -0,0 +1,24 @@
+// apps/extension/src/__tests__/load-page.ts
+// ** import core packages
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+interface HappyDOMWindow {
+  happyDOM: { setURL: (url: string) => void }
+}
+
+/**
+ * Open a saved page from __tests__/fixtures as the current document, at
+ * the URL it was saved from, so relative links resolve as they did live
+ */
+export const loadPage = (fixture: string, url: string): Document => {
+  const html = readFileSync(join(import.meta.dir, 'fixtures', fixture), 'utf8')
+
+  // happy-dom's own API on the window the setup registered
+  const { happyDOM } = window as unknown as HappyDOMWindow
+  happyDOM.setURL(url)
+  document.open()
+  document.write(html)
+  document.close()
+  return document
+}
@@ -0,0 +1,196 @@
+// apps/extension/src/__tests__/readability.test.ts
+// ** import core packages
+import { describe, test, expect, beforeAll } from 'bun:test'
+
+// ** import types
+import type { ReadableContent } from '@/utils/readability'
+
+// ** import utils
+import { extractReadableContent, renderMarkdown } from '@/utils/readability'
+import { loadPage } from '@/__tests__/load-page'
+
+const render = (html: string): string => {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  return renderMarkdown(container)
+}
+
+describe('extractReadableContent', () => {
+  describe('news article', () => {
+    let markdown: string
+    let headings: ReadableContent['headings']
+    let element: Element
+
+    beforeAll(() => {
+      loadPage('article.html', 'https://urbanreview.example.com/2024/07/cooling-streets')
+      const readable = extractReadableContent(document)
+      markdown = readable.markdown
+      headings = readable.headings
+      element = readable.element
+    })
+
+    test('finds the article body', () => {
+      expect(element.className).toBe('post-content')
+      expect(markdown.startsWith('Asphalt can reach temperatures above 60°C')).toBe(true)
+      expect(markdown.endsWith('usually under the `heat-index` dataset name.')).toBe(true)
+    })
+
+    test('keeps the heading structure', () => {
+      expect(markdown).toContain('\n\n## Reflective surfaces\n\n')
+      expect(markdown).toContain('\n\n### Choosing species\n\n')
+      expect(headings).toEqual([
+        { level: 2, text: 'Reflective surfaces' },
+        { level: 2, text: 'Street trees' },
+        { level: 3, text: 'Choosing species' },
+        { level: 2, text: 'Comparing the options' },
+        { level: 2, text: 'What comes next' }
+      ])
+    })
+
+    test('writes links with absolute URLs', () => {
+      expect(markdown).toContain('[urban heat island](https://en.wikipedia.org/wiki/Urban_heat_island)')
+      expect(markdown).toContain('[open urban forest map](https://urbanreview.example.com/data/urban-forest)')
+    })
+
+    test('writes tables, lists, quotes and inline formatting', () => {
+      expect(markdown).toContain([
+        '| Measure | Surface cooling | Cost per km² | Time to effect |',
+        '| --- | --- | --- | --- |',
+        '| Reflective coating | 5–7°C | $2.1M | Immediate |'
+      ].join('\n'))
+      expect(markdown).toContain('1. Coat the hottest streets first')
+      expect(markdown).toContain('3. Add shade and water in public squares during heatwaves.')
+      expect(markdown).toContain('> Cool pavement is cheap, quick to apply')
+      expect(markdown).toContain('**170,000 trees**')
+    })
+
+    test('keeps images as alt text and captions', () => {
+      expect(markdown).toContain('![A street in Los Angeles coated with light grey reflective paint](https://urbanreview.example.com/images/cool-pavement.jpg)')
+      expect(markdown).toContain('_Reflective coating on a residential street in Los Angeles._')
+    })
+
+    test('leaves out the page furniture', () => {
+      for (const furniture of [
+        'We use cookies',
+        'Transport',
+        'Share on X',
+        'Get the weekly briefing',
+        'green roofs',
+        'Related stories',
+        'All rights reserved'
+      ]) {
+        expect(markdown).not.toContain(furniture)
+      }
+    })
+  })
+
+  describe('forum thread', () => {
+    let markdown: string
+
+    beforeAll(() => {
+      loadPage('forum-thread.html', 'https://forum.example.com/t/sourdough-starter-smells-like-nail-polish-remover/4821')
+      markdown = extractReadableContent(document).markdown
+    })
+
+    test('keeps every post, in order, with its author', () => {
+      const question = markdown.indexOf('I started a rye starter two weeks ago')
+      const answer = markdown.indexOf("It isn't dead, it's hungry.")
+      const followUp = markdown.indexOf('I switched to the 1:5:5 feeding')
+
+      expect(question).toBeGreaterThan(-1)
+      expect(answer).toBeGreaterThan(question)
+      expect(followUp).toBeGreaterThan(answer)
+      expect(markdown).toContain('[levain_lover](https://forum.example.com/u/levain_lover) Mar 3')
+    })
+
+    test('keeps the lists in posts', () => {
+      expect(markdown).toContain('- 10 g starter\n- 50 g flour\n- 50 g water')
+    })
+
+    test('leaves out the header, suggested topics and footer', () => {
+      expect(markdown).not.toContain('Search topics')
+      expect(markdown).not.toContain('Suggested topics')
+      expect(markdown).not.toContain('Grey liquid on top of my starter')
+      expect(markdown).not.toContain('Powered by Discourse')
+    })
+  })
+
+  describe('documentation page', () => {
+    let markdown: string
+    let headings: ReadableContent['headings']
+
+    beforeAll(() => {
+      loadPage('docs-page.html', 'https://fetchkit.example.com/docs/guides/retries')
+      const readable = extractReadableContent(document)
+      markdown = readable.markdown
+      headings = readable.headings
+    })
+
+    test('starts at the page title', () => {
+      expect(markdown.startsWith('# Configuring retries\n\n')).toBe(true)
+      expect(headings.map(heading => heading.text)).toEqual([
+        'Configuring retries',
+        'Enabling retries',
+        'Options',
+        'Backoff'
+      ])
+    })
+
+    test('keeps code blocks with their language', () => {
+      expect(markdown).toContain("```ts\nimport { createClient } from 'fetchkit'\n")
+      expect(markdown).toContain("  retry: { attempts: 3, statusCodes: [429, 503] }\n})\n```")
+    })
+
+    test('escapes pipes inside table cells', () => {
+      expect(markdown).toContain('| `attempts` | `number` | `2` | How many times to retry before giving up. |')
+      expect(markdown).toContain("| `backoff` | `'linear' \\| 'exponential'` | `'exponential'` |")
+    })
+
+    test('leaves out the navigation, table of contents and pager', () => {
+      for (const furniture of ['Interceptors', 'Edit this page', '« Installation', 'Timeouts »', 'Copyright']) {
+        expect(markdown).not.toContain(furniture)
+      }
+      // The table of contents repeats the headings as in-page links
+      expect(markdown).not.toContain('(#options)')
+    })
+  })
+
+  test('falls back to the whole body when nothing looks like an article', () => {
+    loadPage('docs-page.html', 'https://fetchkit.example.com/docs/guides/retries')
+    document.body.innerHTML = '<div class="app"><p>Loading…</p><a href="/login">Sign in</a></div>'
+
+    const { element, markdown } = extractReadableContent(document)
+    expect(element).toBe(document.body)
+    expect(markdown).toContain('Loading…')
+  })
+})
+
+describe('renderMarkdown', () => {
+  test('nests lists under their items', () => {
+    expect(render('<ul><li>Fruit<ul><li>Apples</li><li>Pears</li></ul></li><li>Bread</li></ul>'))
+      .toBe('- Fruit\n  - Apples\n  - Pears\n- Bread')
+  })
+
+  test('reads the code language from MDN brush classes', () => {
+    expect(render('<pre class="brush: js notranslate">const a = 1;\n</pre>')).toBe('```js\nconst a = 1;\n```')
+  })
+
+  test('uses a different fence when the code contains one', () => {
+    expect(render('<pre>```\ncode\n```</pre>')).toBe('~~~\n```\ncode\n```\n~~~')
+  })
+
+  test('leaves in-page and script links as plain text', () => {
+    expect(render('<p>See <a href="#usage">usage</a> or <a href="javascript:void(0)">more</a>.</p>'))
+      .toBe('See usage or more.')
+  })
+
+  test('keeps emphasis markers outside the spaces around them', () => {
+    expect(render('<p>A<strong> bold </strong>word and an<em> italic</em> one</p>'))
+      .toBe('A **bold** word and an _italic_ one')
+  })
+
+  test('flattens layout tables', () => {
+    expect(render('<table role="presentation"><tr><td><p>First column</p></td><td><p>Second column</p></td></tr></table>'))
+      .toBe('First column\n\nSecond column')
+  })
+})
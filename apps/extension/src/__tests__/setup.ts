@@ -0,0 +1,6 @@
+// apps/extension/src/__tests__/setup.ts
+// ** import core packages
+import { GlobalRegistrator } from '@happy-dom/global-registrator'
+
+// A browser-like window, document and DOM classes for every test
+GlobalRegistrator.register({ url: 'https://example.com/' })
@@ -0,0 +1,419 @@
+// apps/extension/src/__tests__/site-adapters.test.ts
+// ** import core packages
+import { describe, test, expect, beforeAll, afterAll, spyOn } from 'bun:test'
+
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+
+// ** import utils
+import { SITE_ADAPTERS, extractWithSiteAdapter } from '@/utils/site-adapters'
+import { extractPageContent } from '@/utils/contentExtractor'
+import { loadPage } from '@/__tests__/load-page'
+
+// Answer the adapters' requests from these bodies, by the start of the URL
+const stubFetch = (responses: Record<string, string>) => {
+  const requested: string[] = []
+  const respond = async (input: string | URL | Request): Promise<Response> => {
+    const url = input instanceof Request ? input.url : input.toString()
+    requested.push(url)
+    const prefix = Object.keys(responses).find(start => url.startsWith(start))
+    return prefix
+      ? new Response(responses[prefix])
+      : new Response('', { status: 404 })
+  }
+  // Bun's fetch type also carries fetch.preconnect, which the adapters don't use
+  const spy = spyOn(globalThis, 'fetch').mockImplementation(respond as typeof fetch)
+  return { requested, restore: () => spy.mockRestore() }
+}
+
+// Read a saved page the way the content script does
+const extractSite = async (fixture: string, url: string): Promise<PageContent> => {
+  loadPage(fixture, url)
+  const page = await extractWithSiteAdapter(document, url)
+  if (!page) throw new Error(`No site adapter read ${fixture}`)
+  return page
+}
+
+describe('SITE_ADAPTERS', () => {
+  const pickAdapter = (url: string): string | undefined =>
+    SITE_ADAPTERS.find(adapter => adapter.matches(new URL(url)))?.name
+
+  test.each([
+    ['https://www.youtube.com/watch?v=k7RM-ot2NWY', 'youtube'],
+    ['https://m.youtube.com/shorts/k7RM-ot2NWY', 'youtube'],
+    ['https://github.com/fetchkit/fetchkit/issues/482', 'github'],
+    ['https://github.com/fetchkit/fetchkit', 'github'],
+    ['https://stackoverflow.com/questions/9229645/how-do-i-remove-duplicates-from-an-array', 'stack-exchange'],
+    ['https://unix.stackexchange.com/questions/4126/what-is-the-exact-difference-between-a-terminal-a-shell', 'stack-exchange'],
+    ['https://www.reddit.com/r/Breadit/comments/1b2c3d/whats_the_best_way_to_learn_sourdough_baking/', 'reddit'],
+    ['https://old.reddit.com/r/Breadit/comments/1b2c3d/whats_the_best_way_to_learn_sourdough_baking/', 'reddit'],
+    ['https://news.ycombinator.com/item?id=39000001', 'hacker-news'],
+    ['https://en.wikipedia.org/wiki/Pneumatic_tube', 'wikipedia'],
+    ['https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/flat', 'mdn'],
+    ['https://webconf.example.com/talks/keynote', 'video-track']
+  ])('reads %s with the %s adapter', (url, name) => {
+    expect(pickAdapter(url)).toBe(name)
+  })
+
+  test.each([
+    'https://stackoverflow.com/users/88/ana',
+    'https://www.reddit.com/r/Breadit/',
+    'https://news.ycombinator.com/news',
+    'https://en.wikipedia.org/w/index.php?title=Pneumatic_tube&action=history',
+    'https://developer.mozilla.org/en-US/'
+  ])('leaves %s to the video track adapter', url => {
+    expect(pickAdapter(url)).toBe('video-track')
+  })
+
+  test('checks the video track adapter last', () => {
+    expect(SITE_ADAPTERS[SITE_ADAPTERS.length - 1].name).toBe('video-track')
+  })
+})
+
+describe('extractWithSiteAdapter', () => {
+  describe('youtube', () => {
+    const url = 'https://www.youtube.com/watch?v=k7RM-ot2NWY'
+    let page: PageContent
+    let requested: string[]
+    let restore: () => void
+    let videos: Element[]
+
+    beforeAll(async () => {
+      const captions = JSON.stringify({
+        events: [
+          { tStartMs: 0, segs: [{ utf8: 'Every bridge has one job:' }] },
+          { tStartMs: 2400, segs: [{ utf8: 'get weight ' }, { utf8: 'to the ground.' }] },
+          // Window events without text
+          { tStartMs: 5000 },
+          { tStartMs: 21000, segs: [{ utf8: 'A beam bends under load.' }] }
+        ]
+      })
+      // The adapter fetches the watch page again, for the video's player response
+      loadPage('youtube-watch.html', url)
+      ;({ requested, restore } = stubFetch({
+        [url]: document.documentElement.outerHTML,
+        'https://www.youtube.com/api/timedtext': captions
+      }))
+      page = (await extractWithSiteAdapter(document, url))!
+      videos = Array.from(document.querySelectorAll('video'))
+    })
+
+    afterAll(() => restore())
+
+    test('reads the video details from the watch page', () => {
+      expect(page.siteAdapter).toBe('youtube')
+      expect(page.title).toBe('How Bridges Carry Load')
+      expect(page.author).toBe('Structures Explained')
+      expect(page.duration).toBe(754)
+      expect(page.sourceType).toBe('video')
+      expect(page.canonicalUrl).toBe(url)
+      expect(page.imageUrl).toBe('https://i.ytimg.com/vi/k7RM-ot2NWY/hqdefault.jpg')
+    })
+
+    test('prefers captions written by people over automatic ones', () => {
+      const captionRequest = requested.find(request => request.includes('/api/timedtext'))!
+      const params = new URL(captionRequest).searchParams
+      expect(params.get('kind')).toBeNull()
+      expect(params.get('lang')).toBe('en')
+      expect(params.get('fmt')).toBe('json3')
+    })
+
+    test('writes the description, then the transcript in timestamped lines', () => {
+      expect(page.content).toBe([
+        '## Description',
+        '',
+        'Beams, arches and suspension bridges each move weight to the ground in their own way.',
+        'Chapters: 0:00 Intro 0:18 Beams',
+        '',
+        '## Transcript',
+        '',
+        '[0:00] Every bridge has one job: get weight to the ground.',
+        '[0:21] A beam bends under load.'
+      ].join('\n'))
+    })
+
+    test('leaves out the comments and recommendations', () => {
+      expect(page.content).not.toContain('sugar cubes')
+      expect(page.content).not.toContain('Why Tall Buildings Sway')
+    })
+
+    test('marks the main player, not the preview players', () => {
+      const [player, preview] = videos
+      expect(player.hasAttribute('data-talktomytabs-transcript')).toBe(true)
+      expect(preview.hasAttribute('data-talktomytabs-transcript')).toBe(false)
+    })
+  })
+
+  describe('github', () => {
+    let page: PageContent
+
+    beforeAll(async () => {
+      page = await extractSite('github-issue.html', 'https://github.com/fetchkit/fetchkit/issues/482')
+    })
+
+    test('writes the issue with its state and who opened it', () => {
+      expect(page.siteAdapter).toBe('github')
+      expect(page.title).toBe('Retries ignore the Retry-After header')
+      expect(page.author).toBe('mara-k')
+      expect(page.content.startsWith('# Retries ignore the Retry-After header\n\nIssue (Open) opened by @mara-k\n\n')).toBe(true)
+      expect(page.content).toContain('1. Point the client at a server that always answers 429')
+      expect(page.content).toContain('const client = createClient({ retry: { attempts: 3 } })')
+    })
+
+    test('keeps the comments in order under their authors', () => {
+      const comments = page.content.indexOf('## Comments')
+      const confirmed = page.content.indexOf('### @devon\n\nConfirmed on 3.2.0.')
+      const fix = page.content.indexOf('### @mara-k\n\nOpened a fix in #490.')
+
+      expect(comments).toBeGreaterThan(-1)
+      expect(confirmed).toBeGreaterThan(comments)
+      expect(fix).toBeGreaterThan(confirmed)
+    })
+
+    test('leaves out the header, sidebar and footer', () => {
+      for (const furniture of ['Pull requests', 'Assignees', 'good first issue', 'Terms Privacy']) {
+        expect(page.content).not.toContain(furniture)
+      }
+    })
+  })
+
+  describe('stack-exchange', () => {
+    let page: PageContent
+
+    beforeAll(async () => {
+      page = await extractSite('stack-overflow-question.html', 'https://stackoverflow.com/questions/9229645/how-do-i-remove-duplicates-from-an-array')
+    })
+
+    test('writes the question with its score, asker and tags', () => {
+      expect(page.siteAdapter).toBe('stack-exchange')
+      expect(page.title).toBe('How do I remove duplicates from an array?')
+      expect(page.author).toBe('Ana')
+      expect(page.content.startsWith([
+        '# How do I remove duplicates from an array?',
+        '## Question (score 42, by Ana)',
+        'Tags: javascript, arrays',
+        'I have an array of numbers with repeats in it:'
+      ].join('\n\n'))).toBe(true)
+    })
+
+    test('puts the accepted answer first, then the others by score', () => {
+      const accepted = page.content.indexOf('## Accepted answer (score 30, by Ben)')
+      const best = page.content.indexOf('## Answer (score 55, by Cai)')
+      const downvoted = page.content.indexOf('## Answer (score -2, by Dee)')
+
+      expect(accepted).toBeGreaterThan(-1)
+      expect(best).toBeGreaterThan(accepted)
+      expect(downvoted).toBeGreaterThan(best)
+      expect(page.content).toContain('const unique = [...new Set(numbers)]')
+    })
+
+    test('leaves out comments and the sidebar', () => {
+      expect(page.content).not.toContain('Possible duplicate')
+      expect(page.content).not.toContain('Get all unique values')
+    })
+  })
+
+  describe('reddit', () => {
+    let page: PageContent
+
+    beforeAll(async () => {
+      page = await extractSite('reddit-thread.html', 'https://www.reddit.com/r/Breadit/comments/1b2c3d/whats_the_best_way_to_learn_sourdough_baking/')
+    })
+
+    test('writes the post with its author, community and score', () => {
+      expect(page.siteAdapter).toBe('reddit')
+      expect(page.title).toBe("What's the best way to learn sourdough baking?")
+      expect(page.author).toBe('crumbshot')
+      expect(page.content.startsWith([
+        "# What's the best way to learn sourdough baking?",
+        'Posted by u/crumbshot in r/Breadit (248 points)',
+        "I've made a few yeasted loaves and want to try sourdough."
+      ].join('\n\n'))).toBe(true)
+      expect(page.content).not.toContain('Link:')
+    })
+
+    test('nests the replies under the comment they answer', () => {
+      expect(page.content).toContain([
+        '## Comments',
+        '',
+        '- **levain_lover** (97 points): Start with a simple 1:1:1 starter and bake the same recipe every week.',
+        '  - **crumbshot** (12 points): How long before the starter is ready?',
+        "    - **levain_lover** (20 points): About a week. It's ready when it doubles within 6 hours.",
+        '- **ovenspring** (41 points): _Flour Water Salt Yeast_ is the book everyone recommends.'
+      ].join('\n'))
+    })
+
+    test('leaves out the navigation and sidebar', () => {
+      expect(page.content).not.toContain('Popular')
+      expect(page.content).not.toContain('About Community')
+    })
+  })
+
+  describe('hacker-news', () => {
+    let page: PageContent
+
+    beforeAll(async () => {
+      page = await extractSite('hacker-news-item.html', 'https://news.ycombinator.com/item?id=39000001')
+    })
+
+    test('writes the story with its link, poster and points', () => {
+      expect(page.siteAdapter).toBe('hacker-news')
+      expect(page.title).toBe('SQLite as an application file format')
+      expect(page.author).toBe('drh_fan')
+      expect(page.content.startsWith([
+        '# SQLite as an application file format',
+        'Posted by drh_fan (312 points)',
+        'Link: https://sqlite.example.org/appfileformat.html',
+        '## Comments'
+      ].join('\n\n'))).toBe(true)
+    })
+
+    test('nests the replies by their indent', () => {
+      expect(page.content).toContain([
+        "- **tpk**: We switched our desktop app's save files to SQLite and got atomic saves for free.",
+        '  - **mle**: Did you keep the old format for export?',
+        '    Users kept asking us for it.',
+        '- **qwerty9**: The undo history trick in the article is the best part.'
+      ].join('\n'))
+    })
+
+    test('leaves out the navigation and reply links', () => {
+      for (const furniture of ['past', 'Guidelines', 'reply', 'hours ago']) {
+        expect(page.content).not.toContain(furniture)
+      }
+    })
+  })
+
+  describe('wikipedia', () => {
+    let page: PageContent
+
+    beforeAll(async () => {
+      page = await extractSite('wikipedia-article.html', 'https://en.wikipedia.org/wiki/Pneumatic_tube')
+    })
+
+    test('writes the article under its title', () => {
+      expect(page.siteAdapter).toBe('wikipedia')
+      expect(page.title).toBe('Pneumatic tube')
+      expect(page.content.startsWith('# Pneumatic tube\n\n**Pneumatic tubes** are systems')).toBe(true)
+      expect(page.content).toContain('\n\n## History\n\n')
+      expect(page.content).toContain('\n\n### Hospitals\n\n')
+      expect(page.content).toContain('| London | 1853 | 1962 |')
+      expect(page.headings?.map(heading => heading.text)).toEqual(['History', 'Hospitals', 'See also', 'References'])
+    })
+
+    test('leaves out footnote markers, edit links and the infobox', () => {
+      expect(page.content).toContain('partial [vacuum](https://en.wikipedia.org/wiki/Vacuum). They are used')
+      for (const furniture of ['[1]', 'edit', 'William Murdoch', 'Vacuum tube', 'cylindrical containers through tubes']) {
+        expect(page.content).not.toContain(furniture)
+      }
+    })
+
+    test('ends where the reference sections start', () => {
+      expect(page.content.endsWith('| Paris | 1866 | 1984 |')).toBe(true)
+      for (const furniture of ['See also', 'Tubes and Cities', 'Postal systems', 'Creative Commons']) {
+        expect(page.content).not.toContain(furniture)
+      }
+    })
+  })
+
+  describe('mdn', () => {
+    let page: PageContent
+
+    beforeAll(async () => {
+      page = await extractSite('mdn-reference.html', 'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/flat')
+    })
+
+    test('writes the reference page with its code examples', () => {
+      expect(page.siteAdapter).toBe('mdn')
+      expect(page.title).toBe('Array.prototype.flat()')
+      expect(page.content.startsWith('# Array.prototype.flat()\n\n')).toBe(true)
+      expect(page.content).toContain('```js\nflat()\nflat(depth)\n```')
+      expect(page.content).toContain('```js\nconst arr = [1, 2, [3, 4, [5, 6]]];\narr.flat(Infinity);\n// [1, 2, 3, 4, 5, 6]\n```')
+    })
+
+    test('leaves out the compatibility table, copy buttons and metadata', () => {
+      for (const furniture of ['Baseline', 'Copy to Clipboard', 'Firefox', 'last modified', 'Array.prototype.at()']) {
+        expect(page.content).not.toContain(furniture)
+      }
+    })
+  })
+
+  describe('video-track', () => {
+    const url = 'https://webconf.example.com/talks/keynote'
+    let page: PageContent
+    let requested: string[]
+    let restore: () => void
+    let videos: Element[]
+
+    beforeAll(async () => {
+      ;({ requested, restore } = stubFetch({
+        'https://webconf.example.com/media/keynote.en.vtt': [
+          'WEBVTT',
+          '',
+          '1',
+          '00:00:01.000 --> 00:00:04.000',
+          'Good morning, everyone.',
+          '',
+          '2',
+          '00:00:04.000 --> 00:00:08.500',
+          '<v Priya>Most of the world browses on &quot;slow&quot; networks.',
+          '',
+          '3',
+          '00:00:25.000 --> 00:00:29.000',
+          "Let's start by measuring."
+        ].join('\n')
+      }))
+      page = await extractSite('video-track.html', url)
+      videos = Array.from(document.querySelectorAll('video'))
+    })
+
+    afterAll(() => restore())
+
+    test('reads the default captions track', () => {
+      expect(page.siteAdapter).toBe('video-track')
+      expect(page.sourceType).toBe('video')
+      expect(requested).toEqual(['https://webconf.example.com/media/keynote.en.vtt'])
+    })
+
+    test('writes the transcript, then the page text', () => {
+      expect(page.content.startsWith([
+        '## Video transcript',
+        '',
+        '[0:01] Good morning, everyone. Most of the world browses on "slow" networks.',
+        "[0:25] Let's start by measuring.",
+        '',
+        '## Page text',
+        ''
+      ].join('\n'))).toBe(true)
+      expect(page.content).toContain('Priya Raman opened the conference')
+      expect(page.title).toBe('Keynote: Building for slow networks | WebConf 2024')
+    })
+
+    test('marks the video the transcript came from', () => {
+      const [promo, talk] = videos
+      expect(talk.hasAttribute('data-talktomytabs-transcript')).toBe(true)
+      expect(promo.hasAttribute('data-talktomytabs-transcript')).toBe(false)
+    })
+  })
+
+  describe('unknown pages', () => {
+    test('are left to the generic extractor', async () => {
+      const url = 'https://urbanreview.example.com/2024/07/cooling-streets'
+      loadPage('article.html', url)
+
+      expect(await extractWithSiteAdapter(document, url)).toBeNull()
+
+      const page = extractPageContent()
+      expect(page.siteAdapter).toBeUndefined()
+      expect(page.url).toBe(url)
+      expect(page.content.startsWith('Asphalt can reach temperatures above 60°C')).toBe(true)
+    })
+
+    test('include pages on a known site that its adapter does not read', async () => {
+      const url = 'https://github.com/settings/profile'
+      loadPage('article.html', url)
+
+      expect(await extractWithSiteAdapter(document, url)).toBeNull()
+    })
+  })
+})
@@ -14,7 +14,12 @@ export const extractKeyInsights = async (content: string): Promise<string[]> =>
       }
     }) as LanguageModelSession
 
-    const result = await sendPrompt(session, content)
+    let result: string
+    try {
+      result = await sendPrompt(session, content)
+    } finally {
+      await sessionManager.releaseSession(session)
+    }
 
     try {
       return JSON.parse(result)
@@ -25,5 +30,4 @@ export const extractKeyInsights = async (content: string): Promise<string[]> =>
     console.error('Key insights extraction error:', error)
     return []
   }
-  // Session manager handles cleanup automatically
 }
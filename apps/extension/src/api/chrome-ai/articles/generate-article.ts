@@ -46,11 +46,13 @@ Please create a well-structured, engaging mini article in Markdown format.`
       }
     }) as LanguageModelSession
 
-    const result = await sendPrompt(session, userPrompt)
-    return result
+    try {
+      return await sendPrompt(session, userPrompt)
+    } finally {
+      await sessionManager.releaseSession(session)
+    }
   } catch (error) {
     console.error('Article generation error:', error)
     throw error
   }
-  // Session manager handles cleanup automatically
 }
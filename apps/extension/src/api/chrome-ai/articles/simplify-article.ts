@@ -1,130 +1,148 @@
-import { summarize } from '../summarizer/summarize'
+import { streamPrompt } from '../prompt/stream-prompt'
+import { rewriteStreaming } from '../rewriter/rewrite-streaming'
 import { splitIntoChunks, estimateTokens } from '@/utils/text-chunker'
-import { sessionManager } from '@/utils/session-manager'
+import { sessionManager, type AISessionType } from '@/utils/session-manager'
+import { restoreImagePlaceholders } from '@/utils/image-placeholders'
+import type { RewriterOptions } from '../types'
 
 export type SimplificationLevel = 'Low' | 'Mid' | 'High'
 
+export type OptimizationMode = 'simplify-complex' | 'visual-organization' | 'reading-flow'
+
 const MAX_INPUT_TOKENS = 4000
 const CHARS_PER_TOKEN = 4
 
-const getLengthForLevel = (level: SimplificationLevel): 'short' | 'medium' | 'long' => {
-  switch (level) {
-    case 'High':
-      return 'short'
-    case 'Mid':
-      return 'medium'
-    case 'Low':
-      return 'long'
-  }
+// The model each mode needs, so callers can wait for it to download
+export const OPTIMIZATION_MODE_MODELS: Record<OptimizationMode, AISessionType> = {
+  'simplify-complex': 'languageModel',
+  'visual-organization': 'languageModel',
+  'reading-flow': 'rewriter'
+}
+
+const PLACEHOLDER_RULE = 'Keep every image placeholder such as [[IMG_1]] exactly as written, in the same place relative to the text around it. Never add, remove or renumber placeholders.'
+
+const LEVEL_INSTRUCTIONS: Record<SimplificationLevel, string> = {
+  Low: 'Make light changes only: keep most of the original wording and structure, just clear up confusing sentences.',
+  Mid: 'Use clearer sentence structures and more common vocabulary, but keep every point the text makes.',
+  High: 'Use simple words and short sentences throughout, as if writing for a young reader. Keep every point the text makes.'
+}
+
+const MODE_PROMPTS: Record<Exclude<OptimizationMode, 'reading-flow'>, string> = {
+  'simplify-complex': `You rewrite article text so difficult ideas are easy to follow. Explain technical terms and complex concepts in plain words where they appear, adding a short example when it helps. Do not summarize or skip content. Reply with the rewritten text only, using markdown (# headings, - bullet points, > quotes). ${PLACEHOLDER_RULE}`,
+  'visual-organization': `You restructure article text so it is easy to scan. Break long paragraphs into short ones, add clear # headings for topics, and turn lists of items or steps into - bullet points. Keep the original wording and every point the text makes. Reply with the restructured text only, in markdown. ${PLACEHOLDER_RULE}`
 }
 
+const getRewriterOptions = (level: SimplificationLevel): RewriterOptions => ({
+  tone: 'as-is',
+  format: 'markdown',
+  length: level === 'High' ? 'shorter' : 'as-is'
+})
+
 /**
- * Simplify article content using Chrome AI Summarizer API
- * 
- * IMPORTANT: This function now uses a session manager to prevent system crashes
- * caused by creating too many AI sessions too quickly.
- * 
- * Based on Chrome AI best practices:
- * - https://developer.chrome.com/docs/ai/session-management
- * - https://developer.chrome.com/docs/ai/scale-summarization
+ * Stream one piece of text through the pipeline for a mode:
+ * - reading-flow: the Rewriter API smooths the text as it is
+ * - visual-organization: the language model restructures it for scanning
+ * - simplify-complex: the language model explains hard concepts in place
  */
-export const simplifyArticle = async (
-  content: string,
+const streamModePipeline = async (
+  text: string,
   level: SimplificationLevel,
-  context?: string,
+  mode: OptimizationMode,
+  context: string | undefined,
+  onChunk: (chunk: string) => void,
   signal?: AbortSignal
-): Promise<string> => {
-  // Check if operation was cancelled
-  if (signal?.aborted) {
-    throw new Error('Operation cancelled')
+): Promise<void> => {
+  if (mode === 'reading-flow') {
+    const rewriter = await sessionManager.getSession({
+      type: 'rewriter',
+      options: { ...getRewriterOptions(level), sharedContext: context }
+    })
+
+    const instructions = `Make the text flow naturally with consistent sentence patterns and smooth transitions. ${LEVEL_INSTRUCTIONS[level]} ${PLACEHOLDER_RULE}`
+    try {
+      await rewriteStreaming(rewriter, text, onChunk, instructions, signal)
+    } finally {
+      await sessionManager.releaseSession(rewriter)
+    }
+    return
   }
 
-  try {
-    const length = getLengthForLevel(level)
-    const estimatedTokens = estimateTokens(content)
-
-    const summarizerOptions = {
-      type: 'key-points' as const,
-      format: 'markdown' as const,
-      length,
-      sharedContext: context
+  const session = await sessionManager.getSession({
+    type: 'languageModel',
+    options: {
+      systemPrompt: `${MODE_PROMPTS[mode]}\n\n${LEVEL_INSTRUCTIONS[level]}`,
+      temperature: 0.3,
+      topK: 3
     }
+  })
 
-    // Get or create a reusable session (prevents crashes from too many sessions)
-    const summarizer = await sessionManager.getSession({
-      type: 'summarizer',
-      options: summarizerOptions
-    }) as SummarizerSession
-
-    // Check cancellation again
-    if (signal?.aborted) {
-      throw new Error('Operation cancelled')
+  try {
+    // A fresh copy per piece, so earlier sections don't fill up the context
+    const pieceSession = await sessionManager.cloneSession(session)
+    try {
+      const prompt = context ? `${context}\n\nText:\n${text}` : `Text:\n${text}`
+      await streamPrompt(pieceSession, prompt, onChunk, signal)
+    } finally {
+      await sessionManager.releaseSession(pieceSession)
     }
+  } finally {
+    await sessionManager.releaseSession(session)
+  }
+}
 
-    // Handle large content with chunking
-    if (estimatedTokens > MAX_INPUT_TOKENS) {
-      console.log(`⚠️ Large content detected (${estimatedTokens} tokens), using chunking strategy`)
-      const maxChunkSize = MAX_INPUT_TOKENS * CHARS_PER_TOKEN
-      const chunks = splitIntoChunks(content, { maxChunkSize, overlap: 200 })
-
-      console.log(`📄 Split into ${chunks.length} chunks`)
-
-      // Process chunks with delays to prevent GPU overload
-      const summaries: string[] = []
-      for (let i = 0; i < chunks.length; i++) {
-        if (signal?.aborted) {
-          throw new Error('Operation cancelled')
-        }
-
-        console.log(`Processing chunk ${i + 1}/${chunks.length}`)
-        const summary = await summarize(summarizer, chunks[i], context)
-        summaries.push(summary)
-
-        // Add small delay between chunks to prevent system overload
-        if (i < chunks.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500))
-        }
+/**
+ * Simplify an article section by section, streaming each section's output as
+ * it's written so the page can be replaced progressively.
+ *
+ * `onChunk` receives new text for a section. `onSectionDone` fires once a
+ * section is complete, with its final text - image placeholders the model
+ * dropped are put back. Stops between (and inside) sections when cancelled.
+ */
+export const simplifyArticleStreaming = async (
+  sections: string[],
+  level: SimplificationLevel,
+  mode: OptimizationMode,
+  context: string | undefined,
+  onChunk: (section: number, chunk: string) => void,
+  onSectionDone: (section: number, text: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (signal?.aborted) {
+    throw new Error('Operation cancelled')
+  }
+
+  try {
+    for (let i = 0; i < sections.length; i++) {
+      if (signal?.aborted) {
+        throw new Error('Operation cancelled')
       }
 
-      const combinedSummary = summaries.join('\n\n')
+      // Sections are sized by the page, but one huge block can still overflow
+      const pieces = estimateTokens(sections[i]) > MAX_INPUT_TOKENS
+        ? splitIntoChunks(sections[i], { maxChunkSize: MAX_INPUT_TOKENS * CHARS_PER_TOKEN, overlap: 0 })
+        : [sections[i]]
 
-      // If combined summary is still too large, summarize again
-      if (estimateTokens(combinedSummary) > MAX_INPUT_TOKENS) {
-        console.log('🔄 Combined summary too large, creating final summary')
-        
-        if (signal?.aborted) {
-          throw new Error('Operation cancelled')
-        }
+      let output = ''
+      const collect = (chunk: string) => {
+        output += chunk
+        onChunk(i, chunk)
+      }
 
-        const finalResult = await summarize(summarizer, combinedSummary, context)
-        return finalResult
+      for (let j = 0; j < pieces.length; j++) {
+        if (j > 0) collect('\n\n')
+        await streamModePipeline(pieces[j], level, mode, context, collect, signal)
       }
 
-      return combinedSummary
+      if (signal?.aborted) {
+        throw new Error('Operation cancelled')
+      }
+      onSectionDone(i, restoreImagePlaceholders(sections[i], output))
     }
-
-    // Normal case: content fits in one request
-    const result = await summarize(summarizer, content, context)
-    return result
-
   } catch (error) {
-    console.error('❌ Article simplification error:', error)
-    
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      if (error.message.includes('cancelled')) {
-        throw new Error('Simplification was cancelled')
-      }
-      if (error.message.includes('timeout')) {
-        throw new Error('Simplification timed out. Please try with a shorter article.')
-      }
-      if (error.message.includes('not available')) {
-        throw new Error('Chrome AI is not available. Please check your setup.')
-      }
+    console.error('❌ Streaming simplification error:', error)
+    if (error instanceof Error && error.message.includes('cancelled')) {
+      throw new Error('Simplification was cancelled')
     }
-    
     throw error
   }
-  // NOTE: We do NOT destroy the session here - the session manager handles that
-  // This allows session reuse which prevents system crashes
 }
@@ -0,0 +1,29 @@
+import type { AIAvailability } from '../types'
+import type { AISessionType } from '@/utils/session-manager'
+import { checkPromptApiAvailability } from './check-prompt-api'
+import { checkSummarizerApiAvailability } from './check-summarizer-api'
+import { checkWriterApiAvailability } from './check-writer-api'
+import { checkRewriterApiAvailability } from './check-rewriter-api'
+
+export type AIApiAvailability = Record<AISessionType, AIAvailability>
+
+const AVAILABILITY_CHECKS: Record<AISessionType, () => Promise<AIAvailability>> = {
+  languageModel: checkPromptApiAvailability,
+  summarizer: checkSummarizerApiAvailability,
+  writer: checkWriterApiAvailability,
+  rewriter: checkRewriterApiAvailability
+}
+
+export const checkApiAvailability = (type: AISessionType): Promise<AIAvailability> =>
+  AVAILABILITY_CHECKS[type]()
+
+export const checkAllApisAvailability = async (): Promise<AIApiAvailability> => {
+  const [languageModel, summarizer, writer, rewriter] = await Promise.all([
+    checkPromptApiAvailability(),
+    checkSummarizerApiAvailability(),
+    checkWriterApiAvailability(),
+    checkRewriterApiAvailability()
+  ])
+
+  return { languageModel, summarizer, writer, rewriter }
+}
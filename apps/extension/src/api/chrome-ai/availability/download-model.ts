@@ -0,0 +1,35 @@
+import type { AISessionType } from '@/utils/session-manager'
+import type { DownloadMonitor } from '../types'
+import { sessionManager } from '@/utils/session-manager'
+
+/**
+ * Start (or join) the model download behind an API and report progress as a
+ * fraction from 0 to 1. Chrome only downloads after a user gesture, so call
+ * this from a click handler.
+ */
+export const downloadModel = async (
+  type: AISessionType,
+  onProgress: (progress: number) => void
+): Promise<void> => {
+  try {
+    // Its own session, so releasing it can't destroy one another caller is using
+    const session = await sessionManager.createUnpooledSession({
+      type,
+      allowDownload: true,
+      options: {
+        monitor: (monitor: DownloadMonitor) => {
+          monitor.addEventListener('downloadprogress', (e) => {
+            onProgress(e.total ? e.loaded / e.total : e.loaded)
+          })
+        }
+      }
+    })
+    onProgress(1)
+
+    // The session was only needed to trigger the download
+    await sessionManager.releaseSession(session)
+  } catch (error) {
+    console.error(`Failed to download ${type} model:`, error)
+    throw error
+  }
+}
@@ -2,3 +2,5 @@ export * from './check-prompt-api'
 export * from './check-summarizer-api'
 export * from './check-writer-api'
 export * from './check-rewriter-api'
+export * from './check-all-apis'
+export * from './download-model'
@@ -0,0 +1,245 @@
+import type { ChatMessage, PromptOptions } from '../types'
+import { summarize } from '../summarizer/summarize'
+import { sessionManager } from '@/utils/session-manager'
+import { estimateTokens } from '@/utils/text-chunker'
+
+// Prior turns get this much of the context window, older turns are summarised
+const MAX_HISTORY_TOKENS = 1500
+// Room left for the next question and the answer before we compact
+const RESERVED_TOKENS = 1000
+
+type Turn = { role: 'user' | 'assistant'; content: string }
+
+interface ConversationState {
+  config: { type: 'languageModel'; options: PromptOptions }
+  systemPrompt?: string
+  // Turns the session already holds, used to detect edits, clears and new chats
+  turns: string[]
+  // Set when a recorded turn couldn't be added to the session, so it gets
+  // rebuilt before the next question; the rebuilt state starts without it
+  stale?: boolean
+  // Summary of the turns dropped from the session, reused on the next rebuild
+  summary?: { turnCount: number; text: string }
+}
+
+const conversations = new Map<string, ConversationState>()
+
+const signature = (turn: Turn): string => `${turn.role}:${turn.content}`
+
+const sameTurns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((turn, i) => turn === b[i])
+
+export const toTurns = (messages: ChatMessage[]): Turn[] =>
+  messages
+    .filter((m): m is ChatMessage & { role: 'user' | 'assistant'; content: string } =>
+      m.role !== 'system' && typeof m.content === 'string')
+    .map(m => ({ role: m.role, content: m.content }))
+
+const summarizeTurns = async (turns: Turn[]): Promise<string> => {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n')
+
+  try {
+    const summarizer = await sessionManager.getSession({
+      type: 'summarizer',
+      options: {
+        type: 'tl;dr',
+        format: 'plain-text',
+        length: 'short'
+      }
+    }) as SummarizerSession
+
+    try {
+      return await summarize(summarizer, transcript, 'An earlier part of a chat between a user and an assistant')
+    } finally {
+      await sessionManager.releaseSession(summarizer)
+    }
+  } catch (error) {
+    // Dropping old turns is better than failing the whole answer
+    console.warn('⚠️ Could not summarise earlier turns, dropping them instead:', error)
+    return ''
+  }
+}
+
+/**
+ * Keep the most recent turns that fit the history budget and summarise the rest
+ */
+const compactHistory = async (
+  turns: Turn[],
+  maxTokens: number,
+  previous?: ConversationState['summary']
+): Promise<{ kept: Turn[]; summary?: ConversationState['summary'] }> => {
+  let used = 0
+  let firstKept = turns.length
+  for (let i = turns.length - 1; i >= 0; i--) {
+    used += estimateTokens(turns[i].content)
+    if (used > maxTokens) break
+    firstKept = i
+  }
+
+  // Always keep whole question/answer pairs together
+  if (firstKept < turns.length && turns[firstKept].role === 'assistant') {
+    firstKept++
+  }
+
+  if (firstKept === 0) {
+    return { kept: turns }
+  }
+
+  const dropped = turns.slice(0, firstKept)
+  if (previous && previous.turnCount === dropped.length) {
+    return { kept: turns.slice(firstKept), summary: previous }
+  }
+
+  console.log(`🗜️ Compacting chat history: summarising ${dropped.length} earlier turns`)
+  const text = await summarizeTurns(dropped)
+  return {
+    kept: turns.slice(firstKept),
+    summary: text ? { turnCount: dropped.length, text } : undefined
+  }
+}
+
+/**
+ * Get a session that already holds every prior turn of the conversation.
+ *
+ * The session is reused as long as the history we are given matches what it
+ * has seen, otherwise it is rebuilt from `initialPrompts` (with old turns
+ * compacted) through the session manager. Hand it back with
+ * sessionManager.releaseSession once the answer is done, so it can be
+ * evicted between questions.
+ */
+export const getConversationSession = async (
+  conversationId: string,
+  systemPrompt: string | undefined,
+  history: Turn[],
+  options: { temperature: number; topK: number; force?: boolean }
+): Promise<LanguageModelSession> => {
+  const state = conversations.get(conversationId)
+  const turns = history.map(signature)
+  let outOfQuota = !!options.force
+
+  if (
+    state &&
+    !state.stale &&
+    !outOfQuota &&
+    sameTurns(state.turns, turns) &&
+    state.systemPrompt === systemPrompt &&
+    sessionManager.hasSession(state.config)
+  ) {
+    const session = await sessionManager.getSession(state.config) as LanguageModelSession
+    if (!isNearQuota(session)) {
+      return session
+    }
+    console.log('⚠️ Conversation is close to the context quota, rebuilding')
+    outOfQuota = true
+  }
+
+  // When the quota ran out, give prior turns less room than before
+  const previousSummary = state?.systemPrompt === systemPrompt ? state?.summary : undefined
+  const { kept, summary } = await compactHistory(
+    history,
+    outOfQuota ? MAX_HISTORY_TOKENS / 2 : MAX_HISTORY_TOKENS,
+    previousSummary
+  )
+
+  const system = summary
+    ? `${systemPrompt ?? ''}\n\nSummary of the earlier conversation:\n${summary.text}`.trim()
+    : systemPrompt
+
+  // The system prompt goes in as the first initial prompt, Chrome rejects both
+  const config = {
+    type: 'languageModel' as const,
+    options: {
+      temperature: options.temperature,
+      topK: options.topK,
+      initialPrompts: [
+        ...(system ? [{ role: 'system' as const, content: system }] : []),
+        ...kept
+      ]
+    }
+  }
+
+  // The old session holds stale turns, free its slot before taking a new one
+  if (state && sessionManager.hasSession(state.config)) {
+    await sessionManager.destroySession(state.config)
+  }
+
+  const session = await sessionManager.getSession(config) as LanguageModelSession
+  conversations.set(conversationId, { config, systemPrompt, turns, summary })
+  return session
+}
+
+/**
+ * Prompt for the next answer. Context for this question only, like retrieved
+ * passages, goes to a clone of the conversation session, so the session
+ * itself only ever holds the bare turns and is reused for the next question.
+ */
+export const promptConversation = async <T>(
+  session: LanguageModelSession,
+  context: string | undefined,
+  run: (session: LanguageModelSession) => Promise<T>
+): Promise<T> => {
+  if (!context) return run(session)
+
+  const questionSession = await sessionManager.cloneSession(session)
+  try {
+    return await run(questionSession)
+  } finally {
+    await sessionManager.releaseSession(questionSession)
+  }
+}
+
+/**
+ * Record a completed exchange so the next call can reuse the session as-is.
+ * Only the bare question is recorded. An answer written with context came
+ * from a clone, so the turn is added to the session here; when Chrome can't
+ * do that, the session is rebuilt from the recorded turns instead.
+ */
+export const recordConversationTurn = async (
+  conversationId: string,
+  session: LanguageModelSession,
+  question: string,
+  answer: string,
+  hadContext = false
+): Promise<void> => {
+  const state = conversations.get(conversationId)
+  if (!state) return
+
+  if (hadContext) {
+    try {
+      if (!session.append) throw new Error('LanguageModel append() is not supported')
+      await session.append([
+        { role: 'user', content: question },
+        { role: 'assistant', content: answer }
+      ])
+    } catch (error) {
+      console.warn('⚠️ Could not add the turn to the conversation session, rebuilding it next time:', error)
+      state.stale = true
+    }
+  }
+
+  state.turns = [
+    ...state.turns,
+    signature({ role: 'user', content: question }),
+    signature({ role: 'assistant', content: answer })
+  ]
+}
+
+/**
+ * Forget a conversation, e.g. after the user cleared the chat or stopped an answer
+ */
+export const resetConversation = (conversationId: string): void => {
+  conversations.delete(conversationId)
+}
+
+const isNearQuota = (session: LanguageModelSession): boolean => {
+  if (session.inputQuota === undefined || session.inputUsage === undefined) {
+    return false
+  }
+  return session.inputQuota - session.inputUsage < RESERVED_TOKENS
+}
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error.name === 'QuotaExceededError' || /quota|too large/i.test(error.message))
@@ -1,39 +1,84 @@
 import type { ChatMessage } from '../types'
 import { streamPrompt } from '../prompt/stream-prompt'
 import { sessionManager } from '@/utils/session-manager'
+import { DEFAULT_CONVERSATION_ID, withContext } from './create-chat-completion'
+import {
+  getConversationSession,
+  promptConversation,
+  recordConversationTurn,
+  resetConversation,
+  isQuotaExceededError,
+  toTurns
+} from './conversation-memory'
 
 export const createChatCompletionStreaming = async (
   messages: ChatMessage[],
   onChunk: (chunk: string) => void,
   options?: {
     temperature?: number
+    signal?: AbortSignal
+    conversationId?: string
+    // Extra material for this question only, e.g. retrieved page passages
+    context?: string
   }
 ): Promise<LanguageModelSession> => {
+  const conversationId = options?.conversationId ?? DEFAULT_CONVERSATION_ID
+
   try {
     const systemMessage = messages.find(m => m.role === 'system')
-    const conversationMessages = messages.filter(m => m.role !== 'system')
-
-    // Use session manager to prevent crashes from session proliferation
-    const session = await sessionManager.getSession({
-      type: 'languageModel',
-      options: {
-        systemPrompt: systemMessage?.content as string,
-        temperature: options?.temperature ?? 0.7,
-        topK: 3
-      }
-    }) as LanguageModelSession
+    const conversationMessages = toTurns(messages)
 
     const lastUserMessage = conversationMessages[conversationMessages.length - 1]
-    if (!lastUserMessage || typeof lastUserMessage.content !== 'string') {
+    if (!lastUserMessage || lastUserMessage.role !== 'user') {
       throw new Error('No valid user message found')
     }
 
-    await streamPrompt(session, lastUserMessage.content, onChunk)
+    const history = conversationMessages.slice(0, -1)
+    const sessionOptions = {
+      temperature: options?.temperature ?? 0.7,
+      topK: 3
+    }
+
+    // Session holds the system prompt and every prior turn
+    let session = await getConversationSession(conversationId, systemMessage?.content as string, history, sessionOptions)
+
+    try {
+      // Passages for this question go to a clone, the session only gets the bare turn
+      const prompt = withContext(lastUserMessage.content, options?.context)
+
+      let answer = ''
+      const collect = (chunk: string) => {
+        answer += chunk
+        onChunk(chunk)
+      }
 
-    return session
+      try {
+        await promptConversation(session, options?.context, target => streamPrompt(target, prompt, collect, options?.signal))
+      } catch (error) {
+        // Only retry if nothing was shown yet, otherwise the user would see the answer twice
+        if (!isQuotaExceededError(error) || answer) throw error
+
+        console.warn('⚠️ Context quota exceeded, compacting history and retrying')
+        session = await getConversationSession(conversationId, systemMessage?.content as string, history, { ...sessionOptions, force: true })
+        await promptConversation(session, options?.context, target => streamPrompt(target, prompt, collect, options?.signal))
+      }
+
+      if (options?.signal?.aborted) {
+        // A stopped answer is kept in the chat, so the session no longer matches it
+        resetConversation(conversationId)
+      } else {
+        await recordConversationTurn(conversationId, session, lastUserMessage.content, answer, !!options?.context)
+      }
+
+      return session
+    } finally {
+      // The session stays pooled for the next question, but can be evicted meanwhile
+      await sessionManager.releaseSession(session)
+    }
   } catch (error) {
     console.error('Chat completion streaming error:', error)
+    // The session may be half-way through a turn, rebuild it next time
+    resetConversation(conversationId)
     throw error
   }
-  // Session manager handles cleanup automatically
 }
@@ -1,12 +1,24 @@
 import type { ChatMessage } from '../types'
 import { sendPrompt } from '../prompt/send-prompt'
 import { sessionManager } from '@/utils/session-manager'
+import {
+  getConversationSession,
+  promptConversation,
+  recordConversationTurn,
+  resetConversation,
+  isQuotaExceededError,
+  toTurns
+} from './conversation-memory'
 
 export interface ChatCompletionRequest {
   messages: ChatMessage[]
   temperature?: number
   max_tokens?: number
   stream?: boolean
+  // Keeps one model session per conversation so prior turns are remembered
+  conversationId?: string
+  // Extra material for this question only, e.g. retrieved page passages
+  context?: string
 }
 
 export interface ChatCompletionResponse {
@@ -21,30 +33,55 @@ export interface ChatCompletionResponse {
   }>
 }
 
+export const DEFAULT_CONVERSATION_ID = 'default'
+
+export const withContext = (question: string, context?: string): string =>
+  context ? `${context}\n\nQuestion: ${question}` : question
+
 export const createChatCompletion = async (
   messages: ChatMessage[],
   options?: Partial<ChatCompletionRequest>
 ): Promise<ChatCompletionResponse> => {
+  const conversationId = options?.conversationId ?? DEFAULT_CONVERSATION_ID
+
   try {
     const systemMessage = messages.find(m => m.role === 'system')
-    const conversationMessages = messages.filter(m => m.role !== 'system')
-
-    // Use session manager to prevent crashes from session proliferation
-    const session = await sessionManager.getSession({
-      type: 'languageModel',
-      options: {
-        systemPrompt: systemMessage?.content as string,
-        temperature: options?.temperature ?? 0.7,
-        topK: 3
-      }
-    }) as LanguageModelSession
+    const conversationMessages = toTurns(messages)
 
     const lastUserMessage = conversationMessages[conversationMessages.length - 1]
-    if (!lastUserMessage || typeof lastUserMessage.content !== 'string') {
+    if (!lastUserMessage || lastUserMessage.role !== 'user') {
       throw new Error('No valid user message found')
     }
 
-    const result = await sendPrompt(session, lastUserMessage.content)
+    const history = conversationMessages.slice(0, -1)
+    const sessionOptions = {
+      temperature: options?.temperature ?? 0.7,
+      topK: 3
+    }
+
+    // Session holds the system prompt and every prior turn
+    let session = await getConversationSession(conversationId, systemMessage?.content as string, history, sessionOptions)
+
+    let result: string
+    try {
+      // Passages for this question go to a clone, the session only gets the bare turn
+      const prompt = withContext(lastUserMessage.content, options?.context)
+
+      try {
+        result = await promptConversation(session, options?.context, target => sendPrompt(target, prompt))
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error
+
+        console.warn('⚠️ Context quota exceeded, compacting history and retrying')
+        session = await getConversationSession(conversationId, systemMessage?.content as string, history, { ...sessionOptions, force: true })
+        result = await promptConversation(session, options?.context, target => sendPrompt(target, prompt))
+      }
+
+      await recordConversationTurn(conversationId, session, lastUserMessage.content, result, !!options?.context)
+    } finally {
+      // The session stays pooled for the next question, but can be evicted meanwhile
+      await sessionManager.releaseSession(session)
+    }
 
     return {
       id: `chat-${Date.now()}`,
@@ -64,7 +101,8 @@ export const createChatCompletion = async (
     }
   } catch (error) {
     console.error('Chat completion error:', error)
+    // The session may be half-way through a turn, rebuild it next time
+    resetConversation(conversationId)
     throw error
   }
-  // Session manager handles cleanup automatically
 }
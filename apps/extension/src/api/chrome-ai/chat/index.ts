@@ -1,2 +1,3 @@
 export * from './create-chat-completion'
 export * from './create-chat-completion-streaming'
+export { resetConversation } from './conversation-memory'
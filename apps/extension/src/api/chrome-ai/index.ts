@@ -6,3 +6,5 @@ export * from './writer'
 export * from './rewriter'
 export * from './chat'
 export * from './articles'
+export * from './selection'
+export * from './writing'
@@ -1,19 +1,20 @@
 import type { PromptOptions, MonitorOptions } from '../types'
+import { sessionManager } from '@/utils/session-manager'
 
 export const createPromptSession = async (
   options?: PromptOptions & MonitorOptions
 ): Promise<LanguageModelSession> => {
-  if (!('LanguageModel' in self)) {
-    throw new Error('Prompt API not available')
-  }
-
   try {
-    const session = await LanguageModel.create({
-      systemPrompt: options?.systemPrompt,
-      temperature: options?.temperature ?? 0.7,
-      topK: options?.topK ?? 3,
-      monitor: options?.monitor,
-      outputLanguage: 'en' // Required by Chrome AI API
+    // Pooled, so repeated calls with the same options share one session
+    const session = await sessionManager.getSession({
+      type: 'languageModel',
+      options: {
+        systemPrompt: options?.systemPrompt,
+        temperature: options?.temperature ?? 0.7,
+        topK: options?.topK ?? 3,
+        monitor: options?.monitor,
+        outputLanguage: 'en' // Required by Chrome AI API
+      }
     })
 
     return session
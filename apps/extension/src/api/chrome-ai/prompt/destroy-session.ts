@@ -1,6 +1,9 @@
-export const destroySession = (session: LanguageModelSession): void => {
+import { sessionManager } from '@/utils/session-manager'
+
+export const destroySession = async (session: LanguageModelSession): Promise<void> => {
   try {
-    session.destroy()
+    // Pooled sessions can be shared, so it's handed back for the pool to destroy once idle
+    await sessionManager.releaseSession(session)
   } catch (error) {
     console.error('Failed to destroy session:', error)
   }
@@ -1,10 +1,11 @@
 export const streamPrompt = async (
   session: LanguageModelSession,
   prompt: string,
-  onChunk: (chunk: string) => void
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal
 ): Promise<void> => {
   try {
-    const stream = session.promptStreaming(prompt)
+    const stream = session.promptStreaming(prompt, { signal })
     const reader = stream.getReader()
 
     while (true) {
@@ -13,6 +14,8 @@ export const streamPrompt = async (
       onChunk(value)
     }
   } catch (error) {
+    // Stopping a stream is expected, the caller keeps whatever arrived so far
+    if (signal?.aborted) return
     console.error('Failed to stream prompt:', error)
     throw error
   }
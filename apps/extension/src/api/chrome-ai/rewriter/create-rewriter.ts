@@ -1,19 +1,20 @@
 import type { RewriterOptions, MonitorOptions } from '../types'
+import { sessionManager } from '@/utils/session-manager'
 
 export const createRewriter = async (
   options?: RewriterOptions & MonitorOptions
 ): Promise<RewriterSession> => {
-  if (!('Rewriter' in self)) {
-    throw new Error('Rewriter API not available')
-  }
-
   try {
-    const rewriter = await Rewriter.create({
-      tone: options?.tone ?? 'as-is',
-      format: options?.format ?? 'as-is',
-      length: options?.length ?? 'as-is',
-      sharedContext: options?.sharedContext,
-      monitor: options?.monitor
+    // Pooled, so repeated calls with the same options share one session
+    const rewriter = await sessionManager.getSession({
+      type: 'rewriter',
+      options: {
+        tone: options?.tone ?? 'as-is',
+        format: options?.format ?? 'as-is',
+        length: options?.length ?? 'as-is',
+        sharedContext: options?.sharedContext,
+        monitor: options?.monitor
+      }
     })
 
     return rewriter
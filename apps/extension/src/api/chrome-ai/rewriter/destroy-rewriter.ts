@@ -1,6 +1,9 @@
-export const destroyRewriter = (rewriter: RewriterSession): void => {
+import { sessionManager } from '@/utils/session-manager'
+
+export const destroyRewriter = async (rewriter: RewriterSession): Promise<void> => {
   try {
-    rewriter.destroy()
+    // Pooled sessions can be shared, so it's handed back for the pool to destroy once idle
+    await sessionManager.releaseSession(rewriter)
   } catch (error) {
     console.error('Failed to destroy rewriter:', error)
   }
@@ -2,10 +2,11 @@ export const rewriteStreaming = async (
   rewriter: RewriterSession,
   text: string,
   onChunk: (chunk: string) => void,
-  context?: string
+  context?: string,
+  signal?: AbortSignal
 ): Promise<void> => {
   try {
-    const stream = rewriter.rewriteStreaming(text, { context })
+    const stream = rewriter.rewriteStreaming(text, { context, signal })
     const reader = stream.getReader()
 
     while (true) {
@@ -14,6 +15,8 @@ export const rewriteStreaming = async (
       onChunk(value)
     }
   } catch (error) {
+    // Stopping a stream is expected, the caller keeps whatever arrived so far
+    if (signal?.aborted) return
     console.error('Failed to rewrite streaming:', error)
     throw error
   }
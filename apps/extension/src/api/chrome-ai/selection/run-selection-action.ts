@@ -0,0 +1,86 @@
+import { sendPrompt } from '../prompt/send-prompt'
+import { rewrite } from '../rewriter/rewrite'
+import { sessionManager } from '@/utils/session-manager'
+import type { RewriterOptions } from '../types'
+
+export type SelectionAction =
+  | 'explain'
+  | 'define'
+  | 'rewrite-formal'
+  | 'rewrite-casual'
+  | 'shorten'
+  | 'expand'
+
+type PromptAction = Extract<SelectionAction, 'explain' | 'define'>
+type RewriteAction = Exclude<SelectionAction, PromptAction>
+
+const SYSTEM_PROMPTS: Record<PromptAction, string> = {
+  explain: 'Explain the selected text in plain language in 2-4 sentences. Use the surrounding paragraph only to understand what the text means. Reply with the explanation only.',
+  define: 'Give a short dictionary-style definition of the selected word or phrase as it is used in the surrounding paragraph. Reply with the definition only, in one or two sentences.'
+}
+
+const REWRITER_OPTIONS: Record<RewriteAction, RewriterOptions> = {
+  'rewrite-formal': { tone: 'more-formal', format: 'plain-text' },
+  'rewrite-casual': { tone: 'more-casual', format: 'plain-text' },
+  shorten: { length: 'shorter', format: 'plain-text' },
+  expand: { length: 'longer', format: 'plain-text' }
+}
+
+const isPromptAction = (action: SelectionAction): action is PromptAction =>
+  action === 'explain' || action === 'define'
+
+/**
+ * Run a quick action on text the user selected in a page. Explain and Define
+ * ask the language model; the rest go through the Rewriter API so the result
+ * can replace the selection.
+ */
+export const runSelectionAction = async (
+  action: SelectionAction,
+  text: string,
+  paragraph?: string
+): Promise<string> => {
+  try {
+    if (isPromptAction(action)) {
+      const session = await sessionManager.getSession({
+        type: 'languageModel',
+        options: {
+          systemPrompt: SYSTEM_PROMPTS[action],
+          temperature: 0.3,
+          topK: 3
+        }
+      }) as LanguageModelSession
+
+      const prompt = paragraph && paragraph !== text
+        ? `Surrounding paragraph: ${paragraph}\n\nSelected text: ${text}`
+        : `Selected text: ${text}`
+
+      try {
+        // A fresh copy per action, so earlier selections don't skew the answer or fill up the context
+        const actionSession = await sessionManager.cloneSession(session)
+        try {
+          const result = await sendPrompt(actionSession, prompt)
+          return result.trim()
+        } finally {
+          await sessionManager.releaseSession(actionSession)
+        }
+      } finally {
+        await sessionManager.releaseSession(session)
+      }
+    }
+
+    const rewriter = await sessionManager.getSession({
+      type: 'rewriter',
+      options: REWRITER_OPTIONS[action]
+    })
+
+    try {
+      const result = await rewrite(rewriter, text, paragraph ? `The text is part of this paragraph: ${paragraph}` : undefined)
+      return result.trim()
+    } finally {
+      await sessionManager.releaseSession(rewriter)
+    }
+  } catch (error) {
+    console.error('Selection action error:', error)
+    throw error
+  }
+}
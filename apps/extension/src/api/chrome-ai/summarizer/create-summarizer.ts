@@ -1,19 +1,20 @@
 import type { SummarizerOptions, MonitorOptions } from '../types'
+import { sessionManager } from '@/utils/session-manager'
 
 export const createSummarizer = async (
   options?: SummarizerOptions & MonitorOptions
 ): Promise<SummarizerSession> => {
-  if (!('Summarizer' in self)) {
-    throw new Error('Summarizer API not available')
-  }
-
   try {
-    const summarizer = await Summarizer.create({
-      type: options?.type ?? 'key-points',
-      format: options?.format ?? 'markdown',
-      length: options?.length ?? 'medium',
-      sharedContext: options?.sharedContext,
-      monitor: options?.monitor
+    // Pooled, so repeated calls with the same options share one session
+    const summarizer = await sessionManager.getSession({
+      type: 'summarizer',
+      options: {
+        type: options?.type ?? 'key-points',
+        format: options?.format ?? 'markdown',
+        length: options?.length ?? 'medium',
+        sharedContext: options?.sharedContext,
+        monitor: options?.monitor
+      }
     })
 
     return summarizer
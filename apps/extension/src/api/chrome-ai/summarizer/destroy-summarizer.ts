@@ -1,6 +1,9 @@
-export const destroySummarizer = (summarizer: SummarizerSession): void => {
+import { sessionManager } from '@/utils/session-manager'
+
+export const destroySummarizer = async (summarizer: SummarizerSession): Promise<void> => {
   try {
-    summarizer.destroy()
+    // Pooled sessions can be shared, so it's handed back for the pool to destroy once idle
+    await sessionManager.releaseSession(summarizer)
   } catch (error) {
     console.error('Failed to destroy summarizer:', error)
   }
@@ -8,6 +8,7 @@ export interface PromptOptions {
   systemPrompt?: string
   temperature?: number
   topK?: number
+  initialPrompts?: Array<{ role: ChatMessage['role']; content: string }>
 }
 
 export interface SummarizerOptions {
@@ -44,14 +45,19 @@ export interface MonitorOptions {
 declare global {
   interface LanguageModelSession {
     prompt(text: string | ChatMessage[]): Promise<string>
-    promptStreaming(text: string | ChatMessage[]): ReadableStream<string>
+    promptStreaming(text: string | ChatMessage[], options?: { signal?: AbortSignal }): ReadableStream<string>
     clone(): Promise<LanguageModelSession>
+    // Add turns to the session without prompting it, only exposed by newer Chrome builds
+    append?(messages: ChatMessage[]): Promise<void>
     destroy(): void
+    // Token accounting, only exposed by newer Chrome builds
+    inputUsage?: number
+    inputQuota?: number
   }
 
   interface SummarizerSession {
     summarize(text: string, options?: { context?: string }): Promise<string>
-    summarizeStreaming(text: string, options?: { context?: string }): ReadableStream<string>
+    summarizeStreaming(text: string, options?: { context?: string; signal?: AbortSignal }): ReadableStream<string>
     destroy(): void
   }
 
@@ -63,7 +69,7 @@ declare global {
 
   interface RewriterSession {
     rewrite(text: string, options?: { context?: string }): Promise<string>
-    rewriteStreaming(text: string, options?: { context?: string }): ReadableStream<string>
+    rewriteStreaming(text: string, options?: { context?: string; signal?: AbortSignal }): ReadableStream<string>
     destroy(): void
   }
 
@@ -1,19 +1,20 @@
 import type { WriterOptions, MonitorOptions } from '../types'
+import { sessionManager } from '@/utils/session-manager'
 
 export const createWriter = async (
   options?: WriterOptions & MonitorOptions
 ): Promise<WriterSession> => {
-  if (!('Writer' in self)) {
-    throw new Error('Writer API not available')
-  }
-
   try {
-    const writer = await Writer.create({
-      tone: options?.tone ?? 'neutral',
-      format: options?.format ?? 'markdown',
-      length: options?.length ?? 'medium',
-      sharedContext: options?.sharedContext,
-      monitor: options?.monitor
+    // Pooled, so repeated calls with the same options share one session
+    const writer = await sessionManager.getSession({
+      type: 'writer',
+      options: {
+        tone: options?.tone ?? 'neutral',
+        format: options?.format ?? 'markdown',
+        length: options?.length ?? 'medium',
+        sharedContext: options?.sharedContext,
+        monitor: options?.monitor
+      }
     })
 
     return writer
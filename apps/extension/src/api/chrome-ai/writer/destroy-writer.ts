@@ -1,6 +1,9 @@
-export const destroyWriter = (writer: WriterSession): void => {
+import { sessionManager } from '@/utils/session-manager'
+
+export const destroyWriter = async (writer: WriterSession): Promise<void> => {
   try {
-    writer.destroy()
+    // Pooled sessions can be shared, so it's handed back for the pool to destroy once idle
+    await sessionManager.releaseSession(writer)
   } catch (error) {
     console.error('Failed to destroy writer:', error)
   }
@@ -0,0 +1,88 @@
+import { write } from '../writer/write'
+import { rewrite } from '../rewriter/rewrite'
+import { sessionManager } from '@/utils/session-manager'
+import type { RewriterOptions, WriterOptions } from '../types'
+
+export type WritingAction = 'draft-reply' | 'rewrite-formal' | 'rewrite-casual' | 'fix-grammar'
+
+export interface WritingActionInput {
+  // What's in the field (or the part of it that's selected)
+  text: string
+  pageTitle?: string
+  pageContent?: string
+}
+
+type RewriteAction = Exclude<WritingAction, 'draft-reply'>
+
+// Page text beyond this adds latency without making replies better
+const MAX_PAGE_CONTEXT_LENGTH = 4000
+
+const WRITER_OPTIONS: WriterOptions = {
+  tone: 'neutral',
+  format: 'plain-text',
+  length: 'short',
+  sharedContext: 'Replies and comments typed into text boxes on web pages'
+}
+
+const REWRITER_OPTIONS: Record<RewriteAction, RewriterOptions> = {
+  'rewrite-formal': { tone: 'more-formal', format: 'plain-text' },
+  'rewrite-casual': { tone: 'more-casual', format: 'plain-text' },
+  'fix-grammar': { tone: 'as-is', length: 'as-is', format: 'plain-text' }
+}
+
+const REWRITE_CONTEXT: Partial<Record<RewriteAction, string>> = {
+  'fix-grammar': 'Only correct grammar, spelling and punctuation. Keep the wording, meaning and tone.'
+}
+
+const buildPageContext = ({ pageTitle, pageContent }: WritingActionInput): string | undefined => {
+  if (!pageContent) return pageTitle ? `Page title: ${pageTitle}` : undefined
+  return `Page title: ${pageTitle || 'Untitled'}\n\n${pageContent.slice(0, MAX_PAGE_CONTEXT_LENGTH)}`
+}
+
+/**
+ * Generate text for an editable field: draft a reply from the page with the
+ * Writer API, or rewrite what the user typed with the Rewriter API
+ */
+export const runWritingAction = async (
+  action: WritingAction,
+  input: WritingActionInput
+): Promise<string> => {
+  try {
+    if (action === 'draft-reply') {
+      const writer = await sessionManager.getSession({
+        type: 'writer',
+        options: WRITER_OPTIONS
+      }) as WriterSession
+
+      // Whatever the user already typed is treated as notes for the reply
+      const prompt = input.text.trim()
+        ? `Write a reply to the page based on these notes: ${input.text.trim()}`
+        : 'Write a reply to the page.'
+      try {
+        const result = await write(writer, prompt, buildPageContext(input))
+        return result.trim()
+      } finally {
+        await sessionManager.releaseSession(writer)
+      }
+    }
+
+    if (!input.text.trim()) {
+      throw new Error('There is no text to rewrite')
+    }
+
+    const rewriter = await sessionManager.getSession({
+      type: 'rewriter',
+      options: REWRITER_OPTIONS[action]
+    }) as RewriterSession
+
+    try {
+      const result = await rewrite(rewriter, input.text, REWRITE_CONTEXT[action])
+      return result.trim()
+    } finally {
+      await sessionManager.releaseSession(rewriter)
+    }
+  } catch (error) {
+    console.error('Writing action error:', error)
+    throw error
+  }
+}
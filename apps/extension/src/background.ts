@@ -1,124 +1,180 @@
 // apps/extension/src/background.ts
 // ** import utils
-import { injectContentExtractor } from '@/logic/contentExtractor'
+import { injectContentExtractor, MAX_CONTENT_LENGTH } from '@/logic/contentExtractor'
+import { getSelectionContext, PENDING_SELECTION_KEY } from '@/utils/selection'
+import { runWhenModelReady, retryQueuedWork, getQueuedWork, registerResumableWork, RETRY_ALARM_NAME } from '@/utils/model-readiness'
+import { jobQueue, JOB_PORT_NAME } from '@/utils/job-queue'
+import { runOffscreenAI, hasOffscreenDocument } from '@/utils/offscreen-helper'
+import { CHAT_PORT_NAME } from '@/utils/chat-client'
+import { SIMPLIFY_PORT_NAME } from '@/utils/simplify-client'
+import { normalizeUrl, isRestrictedUrl } from '@/utils/url'
+import { isPdfUrl, isLocalFileUrl, buildPdfPageContent, FILE_ACCESS_ERROR } from '@/utils/pdf'
+import { sendPageRequest } from '@/utils/page-client'
+import {
+  getCachedSimplification,
+  getReappliedSimplification,
+  deleteSimplificationsForUrl,
+  saveSimplification,
+  setReappliedSimplification,
+  rebuildReappliedIndex
+} from '@/utils/simplification-cache'
 
 // ** import api
-import { generateArticleFromContent } from '@/api/chrome-ai/articles'
-import { simplifyArticle, type SimplificationLevel } from '@/api/chrome-ai/articles'
+import { OPTIMIZATION_MODE_MODELS, type SimplificationLevel, type OptimizationMode } from '@/api/chrome-ai/articles'
 
 // ** import types
 import type { Article } from '@/types/article'
+import type { PageContent } from '@/utils/contentExtractor'
+import type { ChatStreamRequest, ChatStreamMessage } from '@/utils/chat-client'
+import type { SimplifyStreamRequest, SimplifyStreamMessage } from '@/utils/simplify-client'
 
 export {}
 
-// Process article simplification using Chrome AI
-async function simplifyArticleText(text: string, level: string, mode: string): Promise<string> {
+// Chrome shows PDFs in its own viewer, which reports the PDF's content type
+async function isPdfTab(tab: chrome.tabs.Tab): Promise<boolean> {
+  if (isPdfUrl(tab.url!)) return true
+  if (!/^https?:\/\//.test(tab.url!)) return false
+
   try {
-    const levelDescriptions = {
-      'Low': 'Minor adjustments for clarity while keeping most of the original structure and vocabulary',
-      'Mid': 'Moderate simplification with clearer sentence structures and more common vocabulary',
-      'High': 'Strong simplification using simple words, short sentences, and basic structures'
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id! },
+      func: () => document.contentType
+    })
+    return result?.result === 'application/pdf'
+  } catch {
+    return false
+  }
+}
+
+// Read a tab through the content script, or with pdf.js when it shows a PDF
+async function extractTabContent(tab: chrome.tabs.Tab): Promise<PageContent | null> {
+  if (!(await isPdfTab(tab))) {
+    return injectContentExtractor(tab.id!)
+  }
+
+  if (isLocalFileUrl(tab.url!) && !(await chrome.extension.isAllowedFileSchemeAccess())) {
+    throw new Error(FILE_ACCESS_ERROR)
+  }
+
+  console.log('📄 Reading PDF:', tab.url)
+  const pdf = await runOffscreenAI('extract-pdf', { url: tab.url! })
+  return buildPdfPageContent(tab.url!, pdf)
+}
+
+// Extract content from several tabs, skipping the ones we can't read
+async function getTabsContent(tabIds: number[]): Promise<Array<{ tabId: number; content: PageContent | null; error?: string }>> {
+  const results = []
+
+  // Run sequentially so we don't inject into many tabs at once
+  for (const tabId of tabIds) {
+    try {
+      const tab = await chrome.tabs.get(tabId)
+      if (!tab.url || isRestrictedUrl(tab.url)) {
+        results.push({ tabId, content: null, error: 'restricted_url' })
+        continue
+      }
+
+      const content = await extractTabContent(tab)
+      results.push({ tabId, content, error: content ? undefined : 'no_content' })
+    } catch (error) {
+      console.error('Error extracting content from tab:', tabId, error)
+      results.push({ tabId, content: null, error: 'extraction_error' })
     }
+  }
 
-    const modeDescriptions = {
-      'simplify-complex': 'Break down difficult concepts into simpler explanations with examples',
-      'visual-organization': 'Create shorter paragraphs, clear headings, bullet points for better scanning',
-      'reading-flow': 'Make text flow naturally with consistent sentence patterns and smooth transitions'
+  return results
+}
+
+// Kind of queued work that saves an article, see registerResumableWork
+const SAVE_ARTICLE_WORK = 'save-article'
+
+// Write an article from the page with the LLM and add it to the saved ones
+async function generateArticle(pageContent: PageContent): Promise<Article> {
+  const markdownContent = await jobQueue.enqueue(
+    { kind: 'save-article', label: `Save "${pageContent.title}"`, priority: 'background' },
+    ({ signal }) => runOffscreenAI('generate', { pageContent }, { signal })
+  ).promise
+
+  if (!markdownContent) {
+    throw new Error('Failed to generate article')
+  }
+
+  // Extract title from markdown (first # heading)
+  const titleMatch = markdownContent.match(/^#\s+(.+)$/m)
+  const generatedTitle = titleMatch ? titleMatch[1] : pageContent.title
+
+  // Extract description (first paragraph or italic text)
+  const descMatch = markdownContent.match(/^_(.+)_$/m) ||
+                   markdownContent.match(/^([^#\n].{50,200})/m)
+  const generatedDesc = descMatch ? descMatch[1] : pageContent.description || ''
+
+  // Calculate read time based on word count
+  const wordCount = markdownContent.split(/\s+/).length
+  const readTime = Math.max(1, Math.ceil(wordCount / 200)) + ' min read'
+
+  // Validate and clean image URL
+  let validImageUrl: string | undefined = undefined
+  if (pageContent.imageUrl) {
+    try {
+      // Ensure it's a valid URL
+      new URL(pageContent.imageUrl)
+      validImageUrl = pageContent.imageUrl
+    } catch {
+      console.warn('Invalid image URL:', pageContent.imageUrl)
     }
+  }
 
-    const context = `Simplification Level: ${level} - ${levelDescriptions[level as keyof typeof levelDescriptions]}
-Optimization Mode: ${mode} - ${modeDescriptions[mode as keyof typeof modeDescriptions]}
-
-CRITICAL RULES:
-1. PRESERVE ALL image placeholders EXACTLY as they appear (e.g., [[IMG_1]], [[IMG_2]])
-2. Keep images in their EXACT original positions in the text
-3. Do NOT add, remove, or reorder any image placeholders
-4. Maintain the general meaning and key information
-5. Output plain text with markdown formatting (# for headings, - for bullet points, > for quotes)
-6. Keep the same paragraph structure around images`
-
-    const result = await simplifyArticle(text, level as SimplificationLevel, context)
-    return result || text
-  } catch (error) {
-    console.error('Article simplification error:', error)
-    throw error
+  // Create article object with ISO string date
+  const articleData: Article = {
+    id: Date.now().toString(),
+    title: generatedTitle,
+    url: pageContent.url,
+    description: generatedDesc,
+    content: markdownContent,
+    imageUrl: validImageUrl,
+    source: new URL(pageContent.url).hostname.replace('www.', '') || 'Local file',
+    readTime: readTime,
+    savedAt: new Date().toISOString(),
+    isRead: false
   }
+
+  // Save to Chrome storage, keeping only the last 100 articles
+  const result = await chrome.storage.local.get(['articles'])
+  const articles = [articleData, ...(result.articles || [])].slice(0, 100)
+  await chrome.storage.local.set({ articles })
+
+  console.log("Article saved:", articleData.title)
+  return articleData
 }
 
+// A save queued before the service worker was suspended still finishes
+registerResumableWork(SAVE_ARTICLE_WORK, data => generateArticle(data as PageContent))
+
 // Save article function that can be called directly
 async function saveCurrentArticle(sendResponse?: (response: any) => void) {
   chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
     if (tabs[0]?.id) {
       try {
         // Extract content from the page
-        const pageContent = await injectContentExtractor(tabs[0].id)
+        const extracted = await extractTabContent(tabs[0])
 
-        if (!pageContent) {
+        if (!extracted) {
           sendResponse?.({ success: false, error: 'Failed to extract content' })
           return
         }
 
-        // Generate article using LLM
-        console.log('Generating article from content...')
-        const markdownContent = await generateArticleFromContent(pageContent)
-
-        if (!markdownContent) {
-          sendResponse?.({ success: false, error: 'Failed to generate article' })
-          return
-        }
+        // Pages are kept whole for chat, the article only needs the start
+        const pageContent = { ...extracted, content: extracted.content.substring(0, MAX_CONTENT_LENGTH) }
 
-        // Extract title from markdown (first # heading)
-        const titleMatch = markdownContent.match(/^#\s+(.+)$/m)
-        const generatedTitle = titleMatch ? titleMatch[1] : pageContent.title
-
-        // Extract description (first paragraph or italic text)
-        const descMatch = markdownContent.match(/^_(.+)_$/m) ||
-                         markdownContent.match(/^([^#\n].{50,200})/m)
-        const generatedDesc = descMatch ? descMatch[1] : pageContent.description || ''
-
-        // Calculate read time based on word count
-        const wordCount = markdownContent.split(/\s+/).length
-        const readTime = Math.max(1, Math.ceil(wordCount / 200)) + ' min read'
-
-        // Validate and clean image URL
-        let validImageUrl: string | undefined = undefined
-        if (pageContent.imageUrl) {
-          try {
-            // Ensure it's a valid URL
-            new URL(pageContent.imageUrl)
-            validImageUrl = pageContent.imageUrl
-          } catch {
-            console.warn('Invalid image URL:', pageContent.imageUrl)
-          }
-        }
-
-        // Create article object with ISO string date
-        const articleData: Article = {
-          id: Date.now().toString(),
-          title: generatedTitle,
-          url: pageContent.url,
-          description: generatedDesc,
-          content: markdownContent,
-          imageUrl: validImageUrl,
-          source: new URL(pageContent.url).hostname.replace('www.', ''),
-          readTime: readTime,
-          savedAt: new Date().toISOString(),
-          isRead: false
-        }
-
-        // Save to Chrome storage
-        chrome.storage.local.get(['articles'], (result) => {
-          const articles = result.articles || []
-          articles.unshift(articleData)
-
-          // Keep only last 100 articles to manage storage
-          const trimmedArticles = articles.slice(0, 100)
-
-          chrome.storage.local.set({ articles: trimmedArticles }, () => {
-            console.log("Article saved:", articleData.title)
-            sendResponse?.({ success: true, article: articleData })
-          })
-        })
+        // Generate article using LLM, waiting for the model if it's still downloading
+        console.log('Generating article from content...')
+        const articleData = await runWhenModelReady(
+          'languageModel',
+          `Save "${pageContent.title}"`,
+          () => generateArticle(pageContent),
+          { kind: SAVE_ARTICLE_WORK, data: pageContent }
+        )
+        sendResponse?.({ success: true, article: articleData })
       } catch (error) {
         console.error('Error saving article:', error)
         const errorMessage = error instanceof Error
@@ -132,6 +188,13 @@ async function saveCurrentArticle(sendResponse?: (response: any) => void) {
   })
 }
 
+// Run work that was waiting for a model download once the model is ready
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === RETRY_ALARM_NAME) {
+    retryQueuedWork().catch(error => console.error('❌ Failed to retry queued AI work:', error))
+  }
+})
+
 // Handle keyboard shortcuts
 chrome.commands.onCommand.addListener((command) => {
   chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -160,6 +223,9 @@ chrome.runtime.onInstalled.addListener(() => {
   // Disable side panel on action click so extension icon shows popup
   chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: false })
 
+  // Pages simplified before an update are reapplied through the index too
+  rebuildReappliedIndex().catch(error => console.error('❌ Failed to index saved simplifications:', error))
+
   // Create context menu items
   chrome.contextMenus.create({
     id: "chat-with-page",
@@ -183,6 +249,113 @@ chrome.runtime.onInstalled.addListener(() => {
   })
 })
 
+// Stream a chat answer from the offscreen document to the page that asked.
+// The page disconnecting stops the answer.
+function handleChatPort(port: chrome.runtime.Port) {
+  let jobId: string | null = null
+
+  const post = (message: ChatStreamMessage) => {
+    try {
+      port.postMessage(message)
+    } catch {
+      // The page is gone, onDisconnect cancels the job
+    }
+  }
+
+  port.onMessage.addListener((request: ChatStreamRequest) => {
+    if (request.type !== 'start' || jobId) return
+
+    const { label, messages, temperature, conversationId, context } = request
+    const job = jobQueue.enqueue(
+      { kind: 'chat', label, priority: 'interactive' },
+      ({ signal }) => runOffscreenAI(
+        'chat',
+        { messages, temperature, conversationId, context },
+        { signal, onChunk: (chunk) => post({ type: 'chunk', chunk }) }
+      )
+    )
+    jobId = job.id
+
+    job.promise
+      .then(() => post({ type: 'done' }))
+      .catch(error => {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        post(errorMessage === 'Job cancelled' ? { type: 'cancelled' } : { type: 'error', error: errorMessage })
+      })
+  })
+
+  port.onDisconnect.addListener(() => {
+    if (jobId) jobQueue.cancel(jobId)
+  })
+}
+
+// Stream a page simplification from the offscreen document, section by
+// section, to the simplifier content script. Disconnecting cancels it.
+function handleSimplifyPort(port: chrome.runtime.Port) {
+  let jobId: string | null = null
+  let isDisconnected = false
+
+  const post = (message: SimplifyStreamMessage) => {
+    try {
+      port.postMessage(message)
+    } catch {
+      // The page is gone, onDisconnect cancels the job
+    }
+  }
+
+  port.onMessage.addListener((request: SimplifyStreamRequest) => {
+    if (request.type !== 'start' || jobId) return
+
+    const { label, title, sections } = request
+    const level = request.level as SimplificationLevel
+    const mode = request.mode as OptimizationMode
+    const context = `The text is from the web page "${title}".`
+
+    // Waits for the mode's model if it's still downloading
+    runWhenModelReady(OPTIMIZATION_MODE_MODELS[mode] ?? 'languageModel', label, () => {
+      if (isDisconnected) throw new Error('Job cancelled')
+
+      const job = jobQueue.enqueue(
+        { kind: 'simplify', label, priority: 'normal' },
+        ({ signal, reportProgress }) => runOffscreenAI(
+          'simplify',
+          { sections, level, mode, context },
+          {
+            signal,
+            onChunk: (chunk, section) => post({ type: 'chunk', section: section ?? 0, chunk }),
+            onSectionDone: (section, text) => post({ type: 'section-done', section, text }),
+            onProgress: reportProgress
+          }
+        )
+      )
+      jobId = job.id
+      return job.promise
+    })
+      .then(() => post({ type: 'done' }))
+      .catch(error => {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        post(errorMessage === 'Job cancelled' ? { type: 'cancelled' } : { type: 'error', error: errorMessage })
+      })
+  })
+
+  port.onDisconnect.addListener(() => {
+    isDisconnected = true
+    if (jobId) jobQueue.cancel(jobId)
+  })
+}
+
+// Extension pages follow and cancel AI jobs, and stream chat answers and
+// simplifications, over ports
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === JOB_PORT_NAME) {
+    jobQueue.attachPort(port)
+  } else if (port.name === CHAT_PORT_NAME) {
+    handleChatPort(port)
+  } else if (port.name === SIMPLIFY_PORT_NAME) {
+    handleSimplifyPort(port)
+  }
+})
+
 // Handle messages from content scripts and side panel
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   
@@ -208,922 +381,85 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       break
 
     case 'simplifyText':
-      // Inject content script code directly
+      // The reader content script streams the result into the page itself
       chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
         if (tabs[0]?.id) {
           try {
-            // First inject the simplifier script as a function
-            await chrome.scripting.executeScript({
-              target: { tabId: tabs[0].id },
-              func: () => {
-                // ArticleSimplifier class injected directly
-                if ((window as any).ArticleSimplifier) return;
-                
-                class ArticleSimplifier {
-                  private originalContent: HTMLElement | null = null
-                  private articleElement: Element | null = null
-                  private resetButton: HTMLElement | null = null
-                  private imageMap: Map<string, any> = new Map()
-                  private isSimplified: boolean = false
-
-                  findArticleElement(): Element | null {
-                    // First try semantic selectors
-                    const semanticSelectors = [
-                      'main article',
-                      'article[role="article"]',
-                      'article',
-                      'main [role="main"]',
-                      'main',
-                      '[role="main"]',
-                      '.post-content',
-                      '.entry-content',
-                      '.article-content',
-                      '.article-body',
-                      '.content-body',
-                      '.story-body',
-                      '.main-content',
-                      '#main-content',
-                      'div[itemprop="articleBody"]',
-                      '.article__body',
-                      '.Article__content',
-                      '.post__content'
-                    ]
-
-                    for (const selector of semanticSelectors) {
-                      const element = document.querySelector(selector)
-                      if (element) {
-                        const text = element.textContent || ''
-                        if (text.length > 300) {
-                          return element
-                        }
-                      }
-                    }
-
-                    // Fallback: look for containers with lots of text content
-                    return this.findContentByHeuristics()
-                  }
-
-                  findContentByHeuristics(): Element | null {
-                    // Look for the element with the most readable text content
-                    const candidates = [
-                      ...Array.from(document.querySelectorAll('div')),
-                      ...Array.from(document.querySelectorAll('section')),
-                      ...Array.from(document.querySelectorAll('center')), // for older websites
-                      document.body // ultimate fallback
-                    ].filter(el => {
-                      // Skip elements that are likely not content
-                      const skipSelectors = [
-                        'header', 'nav', 'footer', 'aside', 'script', 'style',
-                        '.header', '.nav', '.footer', '.sidebar', '.menu',
-                        '.navigation', '.comments', '.comment-section'
-                      ]
-
-                      return !skipSelectors.some(selector =>
-                        el.matches(selector) || el.closest(selector)
-                      )
-                    })
-
-                    let bestCandidate = null
-                    let bestScore = 0
-
-                    candidates.forEach(candidate => {
-                      const score = this.calculateContentScore(candidate)
-                      if (score > bestScore && score > 500) { // minimum threshold
-                        bestScore = score
-                        bestCandidate = candidate
-                      }
-                    })
-
-                    // If we still haven't found anything, try to create a container
-                    if (!bestCandidate) {
-                      bestCandidate = this.createContentContainer()
-                    }
-
-                    return bestCandidate
-                  }
-
-                  calculateContentScore(element: Element): number {
-                    const text = element.textContent || ''
-                    const paragraphs = element.querySelectorAll('p')
-                    const headings = element.querySelectorAll('h1, h2, h3, h4, h5, h6')
-                    const lists = element.querySelectorAll('ul, ol')
-
-                    // Score based on content richness
-                    let score = text.length * 0.1 // base text length
-                    score += paragraphs.length * 50 // paragraph count
-                    score += headings.length * 30 // heading count
-                    score += lists.length * 20 // list count
-
-                    // Bonus for having varied content
-                    if (paragraphs.length > 3 && headings.length > 0) score += 200
-
-                    // Penalty for too many links (likely navigation)
-                    const links = element.querySelectorAll('a')
-                    if (links.length > paragraphs.length) score -= links.length * 10
-
-                    return score
-                  }
-
-                  createContentContainer(): Element {
-                    // For pages with no clear container, create one around all meaningful content
-                    const meaningfulElements = Array.from(document.body.children).filter(child => {
-                      const tagName = child.tagName.toLowerCase()
-                      const hasText = (child.textContent || '').trim().length > 20
-                      const isContentTag = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'div', 'section', 'center', 'blockquote', 'ul', 'ol'].includes(tagName)
-
-                      return hasText && isContentTag && !this.isNavigationElement(child as HTMLElement)
-                    })
-
-                    if (meaningfulElements.length > 0) {
-                      // Create a virtual container
-                      const container = document.createElement('div')
-                      container.style.display = 'none' // hidden container for processing
-
-                      // Clone all meaningful elements into the container
-                      meaningfulElements.forEach(el => {
-                        container.appendChild(el.cloneNode(true))
-                      })
-
-                      document.body.appendChild(container)
-                      return container
-                    }
-
-                    return document.body // ultimate fallback
-                  }
-
-                  isNavigationElement(element: HTMLElement): boolean {
-                    const navigationIndicators = [
-                      'nav', 'header', 'footer', 'aside', 'menu',
-                      'navigation', 'breadcrumb', 'pagination'
-                    ]
-
-                    const className = element.className.toLowerCase()
-                    const id = element.id.toLowerCase()
-                    const tagName = element.tagName.toLowerCase()
-
-                    return navigationIndicators.some(indicator =>
-                      className.includes(indicator) ||
-                      id.includes(indicator) ||
-                      tagName === indicator
-                    )
-                  }
-
-                  extractArticleWithPlaceholders() {
-                    if (!this.articleElement) {
-                      throw new Error('No article element found')
-                    }
-
-                    const cloned = this.articleElement.cloneNode(true) as HTMLElement
-                    const images = cloned.querySelectorAll('img')
-                    const imageData: any[] = []
-                    
-                    images.forEach((img, index) => {
-                      const placeholder = `[[IMG_${index + 1}]]`
-                      const data = {
-                        id: placeholder,
-                        src: img.src || img.getAttribute('data-src') || '',
-                        alt: img.alt || '',
-                        className: img.className || '',
-                        width: img.getAttribute('width') || '',
-                        height: img.getAttribute('height') || '',
-                        style: img.getAttribute('style') || ''
-                      }
-                      
-                      imageData.push(data)
-                      this.imageMap.set(placeholder, data)
-                      
-                      const textNode = document.createTextNode(placeholder)
-                      img.parentNode?.replaceChild(textNode, img)
-                    })
-
-                    const text = this.extractTextFromElement(cloned)
-                    return { text, images: imageData }
-                  }
-
-                  extractTextFromElement(element: HTMLElement): string {
-                    const lines: string[] = []
-                    
-                    const processNode = (node: Node) => {
-                      if (node.nodeType === Node.TEXT_NODE) {
-                        const text = node.textContent?.trim()
-                        if (text) {
-                          lines.push(text)
-                        }
-                      } else if (node.nodeType === Node.ELEMENT_NODE) {
-                        const elem = node as HTMLElement
-                        const tagName = elem.tagName.toLowerCase()
-                        
-                        if (tagName === 'script' || tagName === 'style' || tagName === 'noscript') {
-                          return
-                        }
-                        
-                        if (['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote'].includes(tagName)) {
-                          lines.push('\n\n')
-                        }
-                        
-                        for (const child of Array.from(node.childNodes)) {
-                          processNode(child)
-                        }
-                        
-                        if (['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote'].includes(tagName)) {
-                          lines.push('\n\n')
-                        }
-                      }
-                    }
-                    
-                    processNode(element)
-                    
-                    return lines.join(' ')
-                      .replace(/\s+/g, ' ')
-                      .replace(/\n\s*\n\s*\n/g, '\n\n')
-                      .trim()
-                  }
-
-                  reconstructHTML(simplifiedText: string): string {
-                    const paragraphs = simplifiedText.split(/\n\n+/)
-                    let html = ''
-                    
-                    paragraphs.forEach(paragraph => {
-                      const trimmed = paragraph.trim()
-                      if (!trimmed) return
-                      
-                      const imageMatches = trimmed.match(/\[\[IMG_\d+\]\]/g)
-                      
-                      if (imageMatches) {
-                        let currentText = trimmed
-                        
-                        imageMatches.forEach(placeholder => {
-                          const parts = currentText.split(placeholder)
-                          const beforeText = parts[0]?.trim()
-                          
-                          if (beforeText) {
-                            html += `<p>${this.escapeHtml(beforeText)}</p>\n`
-                          }
-                          
-                          const imageData = this.imageMap.get(placeholder)
-                          if (imageData) {
-                            html += `<img src="${imageData.src}" alt="${imageData.alt}"${imageData.className ? ` class="${imageData.className}"` : ''}${imageData.width ? ` width="${imageData.width}"` : ''}${imageData.height ? ` height="${imageData.height}"` : ''}${imageData.style ? ` style="${imageData.style}"` : ''}${imageData.srcset ? ` srcset="${imageData.srcset}"` : ''}${imageData.sizes ? ` sizes="${imageData.sizes}"` : ''}${imageData.loading ? ` loading="${imageData.loading}"` : ''}>\n`
-                          }
-                          
-                          currentText = parts.slice(1).join(placeholder)
-                        })
-                        
-                        const afterText = currentText.trim()
-                        if (afterText) {
-                          html += `<p>${this.escapeHtml(afterText)}</p>\n`
-                        }
-                      } else if (trimmed.startsWith('#')) {
-                        const match = trimmed.match(/^(#+)\s+(.+)/)
-                        if (match) {
-                          const level = Math.min(match[1].length, 6)
-                          html += `<h${level}>${this.escapeHtml(match[2])}</h${level}>\n`
-                        }
-                      } else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-                        const items = trimmed.split('\n').filter((line: string) => line.trim())
-                        html += '<ul>\n'
-                        items.forEach((item: string) => {
-                          const text = item.replace(/^[-*]\s+/, '').trim()
-                          html += `  <li>${this.escapeHtml(text)}</li>\n`
-                        })
-                        html += '</ul>\n'
-                      } else if (trimmed.match(/^\d+\.\s/)) {
-                        const items = trimmed.split('\n').filter((line: string) => line.trim())
-                        html += '<ol>\n'
-                        items.forEach((item: string) => {
-                          const text = item.replace(/^\d+\.\s+/, '').trim()
-                          html += `  <li>${this.escapeHtml(text)}</li>\n`
-                        })
-                        html += '</ol>\n'
-                      } else if (trimmed.startsWith('>')) {
-                        const text = trimmed.substring(1).trim()
-                        html += `<blockquote>${this.escapeHtml(text)}</blockquote>\n`
-                      } else {
-                        html += `<p>${this.escapeHtml(trimmed)}</p>\n`
-                      }
-                    })
-                    
-                    return html
-                  }
-
-                  escapeHtml(text: string): string {
-                    const div = document.createElement('div')
-                    div.textContent = text
-                    return div.innerHTML
-                  }
-
-                  async simplify(level: string, mode: string): Promise<void> {
-                    try {
-                      if (this.isSimplified) {
-                        this.reset()
-                      }
-
-                      this.articleElement = this.findArticleElement()
-                      if (!this.articleElement) {
-                        throw new Error('Could not find readable content on this page')
-                      }
-
-                      // Store the complete original element and its attributes
-                      this.originalContent = this.articleElement.cloneNode(true) as HTMLElement
-
-                      // Mark the element as being simplified to preserve its identity
-                      this.articleElement.setAttribute('data-simplified', 'true')
-
-                      const { text, images } = this.extractArticleWithPlaceholders()
-
-                      if (!text || text.trim().length < 100) {
-                        throw new Error('Not enough content to simplify on this page')
-                      }
-
-
-                      const response = await chrome.runtime.sendMessage({
-                        action: 'simplifyArticle',
-                        data: { text, level, mode, images }
-                      })
-
-                      if (response?.success && response.data) {
-                        // For body or virtual container, we need special handling
-                        const isBodyElement = this.articleElement.tagName.toLowerCase() === 'body'
-                        const isVirtualContainer = (this.articleElement as HTMLElement).style.display === 'none'
-
-                        if (isBodyElement) {
-                          this.simplifyBodyContent(response.data)
-                        } else if (isVirtualContainer) {
-                          this.simplifyVirtualContainer(response.data)
-                        } else {
-                          // Normal container
-                          const newHTML = this.reconstructHTML(response.data)
-                          this.articleElement.innerHTML = newHTML
-                        }
-
-                        this.isSimplified = true
-                        this.addResetButton()
-
-                      } else {
-                        throw new Error(response?.error || 'Failed to simplify article')
-                      }
-                    } catch (error) {
-                      throw error
-                    }
-                  }
-
-                  simplifyBodyContent(simplifiedText: string): void {
-                    // Find all content paragraphs in body and replace them
-                    const contentElements = Array.from(document.body.children).filter(child => {
-                      const tagName = child.tagName.toLowerCase()
-                      return ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'div', 'center'].includes(tagName) &&
-                             (child.textContent || '').trim().length > 20 &&
-                             !this.isNavigationElement(child as HTMLElement)
-                    })
-
-                    if (contentElements.length === 0) return
-
-                    // Create a wrapper for the new content
-                    const wrapper = document.createElement('div')
-                    wrapper.setAttribute('data-simplified-content', 'true')
-                    wrapper.innerHTML = this.reconstructHTML(simplifiedText)
-
-                    // Replace content elements with simplified version
-                    if (contentElements.length > 0) {
-                      const firstElement = contentElements[0]
-                      firstElement.parentNode?.insertBefore(wrapper, firstElement)
-
-                      // Hide original content elements
-                      contentElements.forEach(el => {
-                        (el as HTMLElement).style.display = 'none'
-                        el.setAttribute('data-original-simplified', 'true')
-                      })
-                    }
-                  }
-
-                  simplifyVirtualContainer(simplifiedText: string): void {
-                    // The virtual container was just for processing, now update the actual elements
-                    const contentElements = Array.from(document.body.children).filter(child => {
-                      return (child.textContent || '').trim().length > 20 &&
-                             !this.isNavigationElement(child as HTMLElement) &&
-                             !child.hasAttribute('data-simplified')
-                    })
-
-                    // Create simplified content wrapper
-                    const wrapper = document.createElement('div')
-                    wrapper.setAttribute('data-simplified-content', 'true')
-                    wrapper.innerHTML = this.reconstructHTML(simplifiedText)
-
-                    if (contentElements.length > 0) {
-                      const firstElement = contentElements[0]
-                      firstElement.parentNode?.insertBefore(wrapper, firstElement)
-
-                      // Hide original elements
-                      contentElements.forEach(el => {
-                        (el as HTMLElement).style.display = 'none'
-                        el.setAttribute('data-original-simplified', 'true')
-                      })
-                    }
-                  }
-
-                  addResetButton(): void {
-                    if (this.resetButton) return
-
-                    this.resetButton = document.createElement('button')
-                    this.resetButton.textContent = 'Reset Article'
-                    this.resetButton.style.cssText = `
-                      position: fixed;
-                      bottom: 20px;
-                      right: 20px;
-                      padding: 12px 24px;
-                      background-color: #ffffff;
-                      color: #000000;
-                      border: 1px solid #e5e7eb;
-                      border-radius: 8px;
-                      font-size: 14px;
-                      font-weight: 500;
-                      cursor: pointer;
-                      z-index: 9999;
-                      box-shadow: 0 2px 8px rgba(0,0,0,0.1);
-                      transition: all 0.2s;
-                    `
-
-                    this.resetButton.addEventListener('click', () => this.reset())
-                    this.resetButton.addEventListener('mouseenter', () => {
-                      if (this.resetButton) {
-                        this.resetButton.style.transform = 'scale(1.05)'
-                        this.resetButton.style.boxShadow = '0 4px 12px rgba(0,0,0,0.15)'
-                      }
-                    })
-                    this.resetButton.addEventListener('mouseleave', () => {
-                      if (this.resetButton) {
-                        this.resetButton.style.transform = 'scale(1)'
-                        this.resetButton.style.boxShadow = '0 2px 8px rgba(0,0,0,0.1)'
-                      }
-                    })
-
-                    document.body.appendChild(this.resetButton)
-                  }
-
-                  reset(): void {
-                    try {
-                      // Remove simplified content wrapper if it exists
-                      const simplifiedWrapper = document.querySelector('[data-simplified-content]')
-                      if (simplifiedWrapper) {
-                        simplifiedWrapper.remove()
-                      }
-
-                      // Restore hidden original elements
-                      const hiddenElements = document.querySelectorAll('[data-original-simplified]')
-                      hiddenElements.forEach(el => {
-                        (el as HTMLElement).style.display = ''
-                        el.removeAttribute('data-original-simplified')
-                      })
-
-                      // Restore original content if we have a specific container
-                      if (this.originalContent && this.articleElement && !this.articleElement.hasAttribute('data-simplified-content')) {
-                        const isVirtualContainer = (this.articleElement as HTMLElement).style.display === 'none'
-                        if (isVirtualContainer) {
-                          // Remove the virtual container
-                          this.articleElement.remove()
-                        } else {
-                          // Restore normal container
-                          this.articleElement.innerHTML = this.originalContent.innerHTML
-                        }
-                      }
-
-                      // Clean up attributes
-                      if (this.articleElement) {
-                        this.articleElement.removeAttribute('data-simplified')
-                      }
-
-                      this.isSimplified = false
-                      this.articleElement = null
-                      this.originalContent = null
-
-                      // Remove reset button
-                      if (this.resetButton) {
-                        this.resetButton.remove()
-                        this.resetButton = null
-                      }
-
-                      this.imageMap.clear()
-
-                    } catch (error) {
-                      console.error('Error during reset:', error)
-                      // Force reload as fallback
-                      window.location.reload()
-                    }
-                  }
-
-                }
-
-                // Theme definitions matching the popup options
-                const themes = {
-                  default: { backgroundColor: '', textColor: '' },
-                  cream: { backgroundColor: '#FDF6E3', textColor: '#5B4636' },
-                  dark: { backgroundColor: '#1a1a1b', textColor: '#E0E0E0' },
-                  sepia: { backgroundColor: '#F4ECD8', textColor: '#5B4636' }
-                }
-
-                // Apply display settings function
-                function applyDisplaySettings(settings: any) {
-                  // If display settings are disabled, remove all styling
-                  if (!settings.enabled) {
-                    removeAllDisplaySettings()
-                    return
-                  }
-
-                  // If settings are default values, remove all styling instead
-                  if (settings.pageTheme === 'default' &&
-                      !settings.useOpenDyslexic &&
-                      settings.lineSpacing === 1.4 &&
-                      settings.letterSpacing === 0 &&
-                      settings.wordSpacing === 0) {
-                    removeAllDisplaySettings()
-                    return
-                  }
-
-                  // Apply page theme
-                  if (settings.pageTheme && settings.pageTheme !== 'default' && themes[settings.pageTheme as keyof typeof themes]) {
-                    applyTheme(settings.pageTheme)
-                  } else {
-                    // Remove theme if default
-                    const themeStyle = document.getElementById('theme-style')
-                    if (themeStyle) {
-                      themeStyle.remove()
-                    }
-                  }
-
-                  // Apply OpenDyslexic font
-                  toggleOpenDyslexicFont(settings.useOpenDyslexic || false)
-
-                  // Apply spacing adjustments only if they're not default values
-                  if (settings.lineSpacing !== 1.4 || settings.letterSpacing !== 0 || settings.wordSpacing !== 0) {
-                    applySpacingAdjustments(
-                      settings.lineSpacing || 1.4,
-                      settings.letterSpacing || 0,
-                      settings.wordSpacing || 0
-                    )
-                  } else {
-                    // Remove spacing adjustments if default
-                    const spacingStyle = document.getElementById('spacing-adjustments-style')
-                    if (spacingStyle) {
-                      spacingStyle.remove()
-                    }
-                  }
-                }
-
-                // Remove all display settings function
-                function removeAllDisplaySettings() {
-                  // Remove theme style
-                  const themeStyle = document.getElementById('theme-style')
-                  if (themeStyle) {
-                    themeStyle.remove()
-                  }
-
-                  // Remove font style
-                  const fontStyle = document.getElementById('opendyslexic-font-style')
-                  if (fontStyle) {
-                    fontStyle.remove()
-                  }
-
-                  // Remove font face definition
-                  const fontFaceStyle = document.getElementById('opendyslexic-font-face')
-                  if (fontFaceStyle) {
-                    fontFaceStyle.remove()
-                  }
-
-                  // Remove spacing adjustments
-                  const spacingStyle = document.getElementById('spacing-adjustments-style')
-                  if (spacingStyle) {
-                    spacingStyle.remove()
-                  }
-                }
-
-                // Apply theme function
-                function applyTheme(themeName: string) {
-                  const theme = themes[themeName as keyof typeof themes]
-                  if (!theme) return
-
-                  const { backgroundColor, textColor } = theme
-
-                  let themeStyle = document.getElementById('theme-style')
-                  if (!themeStyle) {
-                    themeStyle = document.createElement('style')
-                    themeStyle.id = 'theme-style'
-                    document.head.appendChild(themeStyle)
-                  }
-
-                  themeStyle.textContent = `
-                    html, body {
-                      background-color: ${backgroundColor} !important;
-                      color: ${textColor} !important;
-                    }
-                    body * {
-                      background-color: ${backgroundColor} !important;
-                      color: ${textColor} !important;
-                    }
-                  `
-                }
-
-                // Toggle OpenDyslexic font function
-                function toggleOpenDyslexicFont(enabled: boolean) {
-                  if (enabled) {
-                    // Add font-face definition if it doesn't exist
-                    if (!document.getElementById('opendyslexic-font-face')) {
-                      const fontFaceStyle = document.createElement('style')
-                      fontFaceStyle.id = 'opendyslexic-font-face'
-                      fontFaceStyle.textContent = `
-                        @font-face {
-                          font-family: 'OpenDyslexic';
-                          src: url('${chrome.runtime.getURL('assets/fonts/OpenDyslexic-Regular.otf')}') format('opentype');
-                          font-weight: normal;
-                          font-style: normal;
-                          font-display: swap;
-                        }
-                      `
-                      document.head.appendChild(fontFaceStyle)
-                    }
-
-                    // Create or update style element to apply font to entire page
-                    let fontStyle = document.getElementById('opendyslexic-font-style')
-                    if (!fontStyle) {
-                      fontStyle = document.createElement('style')
-                      fontStyle.id = 'opendyslexic-font-style'
-                      document.head.appendChild(fontStyle)
-                    }
-
-                    fontStyle.textContent = `
-                      body, body * {
-                        font-family: 'OpenDyslexic', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif !important;
-                      }
-                    `
-                  } else {
-                    // Remove the font style applied to the entire page
-                    const fontStyle = document.getElementById('opendyslexic-font-style')
-                    if (fontStyle && fontStyle.parentNode) {
-                      fontStyle.parentNode.removeChild(fontStyle)
-                    }
-
-                    // Optionally remove the font-face definition
-                    const fontFaceStyle = document.getElementById('opendyslexic-font-face')
-                    if (fontFaceStyle && fontFaceStyle.parentNode) {
-                      fontFaceStyle.parentNode.removeChild(fontFaceStyle)
-                    }
-                  }
-                }
-
-                // Apply spacing adjustments function
-                function applySpacingAdjustments(lineSpacing: number, letterSpacing: number, wordSpacing: number) {
-                  const existingStyle = document.getElementById('spacing-adjustments-style')
-                  if (existingStyle) {
-                    existingStyle.remove()
-                  }
-
-                  const style = document.createElement('style')
-                  style.id = 'spacing-adjustments-style'
-                  style.textContent = `
-                    body, body * {
-                      line-height: ${lineSpacing} !important;
-                      letter-spacing: ${letterSpacing}px !important;
-                      word-spacing: ${wordSpacing}px !important;
-                    }
-                  `
-                  document.head.appendChild(style)
-                }
-
-                (window as any).ArticleSimplifier = ArticleSimplifier;
-                (window as any).articleSimplifier = new ArticleSimplifier();
-                (window as any).applyDisplaySettings = applyDisplaySettings;
-              }
+            const data = await sendPageRequest(tabs[0].id, {
+              action: 'simplify',
+              level: message.data.level,
+              mode: message.data.mode
             })
-
-            // Then trigger the simplification
-            await chrome.scripting.executeScript({
-              target: { tabId: tabs[0].id },
-              func: (level, mode, displaySettings) => {
-                const simplifier = (window as any).articleSimplifier
-                if (simplifier) {
-                  // Apply display settings first
-                  if (displaySettings) {
-                    (window as any).applyDisplaySettings(displaySettings)
-                  }
-
-                  return simplifier.simplify(level, mode)
-                    .then(() => ({ success: true }))
-                    .catch((error: Error) => ({ success: false, error: error.message }))
-                }
-                return Promise.resolve({ success: false, error: 'Simplifier not initialized' })
-              },
-              args: [message.data.level, message.data.mode, message.data.displaySettings]
-            })
-
-            sendResponse({ success: true })
+            sendResponse({ success: true, data })
           } catch (error) {
-            console.error('Error injecting simplifier:', error)
-            const errorMessage = error instanceof Error ? error.message : String(error)
-            sendResponse({ success: false, error: errorMessage })
+            console.error('Error starting simplifier:', error)
+            sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
           }
         }
       })
       return true
 
+    case 'getCachedSimplification':
+      // A simplification of this page with the same settings, made earlier
+      getCachedSimplification(normalizeUrl(message.data.url), message.data.level, message.data.mode, message.data.contentHash)
+        .then(async (entry) => {
+          // Using it again makes it the version reapplied next visit
+          if (entry) await setReappliedSimplification(entry.url, entry.key)
+          sendResponse({ success: true, data: entry })
+        })
+        .catch(error => {
+          console.error('Error reading simplification cache:', error)
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+        })
+      return true
+
+    case 'getReappliedSimplification':
+      // The simplification to put back when a page loads
+      getReappliedSimplification(normalizeUrl(message.data.url))
+        .then(entry => sendResponse({ success: true, data: entry }))
+        .catch(error => {
+          console.error('Error reading simplification cache:', error)
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+        })
+      return true
+
+    case 'invalidateSimplifications':
+      // The page text changed since it was simplified
+      deleteSimplificationsForUrl(normalizeUrl(message.data.url))
+        .then(() => sendResponse({ success: true }))
+        .catch(error => {
+          console.error('Error updating simplification cache:', error)
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+        })
+      return true
+
+    case 'saveSimplification':
+      saveSimplification({ ...message.data, url: normalizeUrl(message.data.url) })
+        .then(() => sendResponse({ success: true }))
+        .catch(error => {
+          console.error('Error saving simplification:', error)
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+        })
+      return true
+
+    case 'stopReapplyingSimplification':
+      // The user reset the page, so leave it as it is next time
+      setReappliedSimplification(normalizeUrl(message.data.url), null)
+        .then(() => sendResponse({ success: true }))
+        .catch(error => {
+          console.error('Error updating simplification cache:', error)
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+        })
+      return true
+
     case 'applyDisplaySettings':
       // Apply only display settings without simplification
       chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
         if (tabs[0]?.id) {
           try {
-            // First inject the display settings functions if they don't exist
-            await chrome.scripting.executeScript({
-              target: { tabId: tabs[0].id },
-              func: () => {
-                if (!(window as any).applyDisplaySettings) {
-                  // Theme definitions matching the popup options
-                  const themes = {
-                    default: { backgroundColor: '', textColor: '' },
-                    cream: { backgroundColor: '#FDF6E3', textColor: '#5B4636' },
-                    dark: { backgroundColor: '#1a1a1b', textColor: '#E0E0E0' },
-                    sepia: { backgroundColor: '#F4ECD8', textColor: '#5B4636' }
-                  }
-
-                  // Apply display settings function
-                  function applyDisplaySettings(settings: any) {
-                    // If display settings are disabled, remove all styling
-                    if (!settings.enabled) {
-                      removeAllDisplaySettings()
-                      return
-                    }
-
-                    // If settings are default values, remove all styling instead
-                    if (settings.pageTheme === 'default' &&
-                        !settings.useOpenDyslexic &&
-                        settings.lineSpacing === 1.4 &&
-                        settings.letterSpacing === 0 &&
-                        settings.wordSpacing === 0) {
-                      removeAllDisplaySettings()
-                      return
-                    }
-
-                    // Apply page theme
-                    if (settings.pageTheme && settings.pageTheme !== 'default' && themes[settings.pageTheme as keyof typeof themes]) {
-                      applyTheme(settings.pageTheme)
-                    } else {
-                      // Remove theme if default
-                      const themeStyle = document.getElementById('theme-style')
-                      if (themeStyle) {
-                        themeStyle.remove()
-                      }
-                    }
-
-                    // Apply OpenDyslexic font
-                    toggleOpenDyslexicFont(settings.useOpenDyslexic || false)
-
-                    // Apply spacing adjustments only if they're not default values
-                    if (settings.lineSpacing !== 1.4 || settings.letterSpacing !== 0 || settings.wordSpacing !== 0) {
-                      applySpacingAdjustments(
-                        settings.lineSpacing || 1.4,
-                        settings.letterSpacing || 0,
-                        settings.wordSpacing || 0
-                      )
-                    } else {
-                      // Remove spacing adjustments if default
-                      const spacingStyle = document.getElementById('spacing-adjustments-style')
-                      if (spacingStyle) {
-                        spacingStyle.remove()
-                      }
-                    }
-                  }
-
-                  // Remove all display settings function
-                  function removeAllDisplaySettings() {
-                    // Remove theme style
-                    const themeStyle = document.getElementById('theme-style')
-                    if (themeStyle) {
-                      themeStyle.remove()
-                    }
-
-                    // Remove font style
-                    const fontStyle = document.getElementById('opendyslexic-font-style')
-                    if (fontStyle) {
-                      fontStyle.remove()
-                    }
-
-                    // Remove font face definition
-                    const fontFaceStyle = document.getElementById('opendyslexic-font-face')
-                    if (fontFaceStyle) {
-                      fontFaceStyle.remove()
-                    }
-
-                    // Remove spacing adjustments
-                    const spacingStyle = document.getElementById('spacing-adjustments-style')
-                    if (spacingStyle) {
-                      spacingStyle.remove()
-                    }
-                  }
-
-                  // Apply theme function
-                  function applyTheme(themeName: string) {
-                    const theme = themes[themeName as keyof typeof themes]
-                    if (!theme) return
-
-                    const { backgroundColor, textColor } = theme
-
-                    let themeStyle = document.getElementById('theme-style')
-                    if (!themeStyle) {
-                      themeStyle = document.createElement('style')
-                      themeStyle.id = 'theme-style'
-                      document.head.appendChild(themeStyle)
-                    }
-
-                    themeStyle.textContent = `
-                      html, body {
-                        background-color: ${backgroundColor} !important;
-                        color: ${textColor} !important;
-                      }
-                      body * {
-                        background-color: ${backgroundColor} !important;
-                        color: ${textColor} !important;
-                      }
-                    `
-                  }
-
-                  // Toggle OpenDyslexic font function
-                  function toggleOpenDyslexicFont(enabled: boolean) {
-                    if (enabled) {
-                      // Add font-face definition if it doesn't exist
-                      if (!document.getElementById('opendyslexic-font-face')) {
-                        const fontFaceStyle = document.createElement('style')
-                        fontFaceStyle.id = 'opendyslexic-font-face'
-                        fontFaceStyle.textContent = `
-                          @font-face {
-                            font-family: 'OpenDyslexic';
-                            src: url('${chrome.runtime.getURL('assets/fonts/OpenDyslexic-Regular.otf')}') format('opentype');
-                            font-weight: normal;
-                            font-style: normal;
-                            font-display: swap;
-                          }
-                        `
-                        document.head.appendChild(fontFaceStyle)
-                      }
-
-                      // Create or update style element to apply font to entire page
-                      let fontStyle = document.getElementById('opendyslexic-font-style')
-                      if (!fontStyle) {
-                        fontStyle = document.createElement('style')
-                        fontStyle.id = 'opendyslexic-font-style'
-                        document.head.appendChild(fontStyle)
-                      }
-
-                      fontStyle.textContent = `
-                        body, body * {
-                          font-family: 'OpenDyslexic', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif !important;
-                        }
-                      `
-                    } else {
-                      // Remove the font style applied to the entire page
-                      const fontStyle = document.getElementById('opendyslexic-font-style')
-                      if (fontStyle && fontStyle.parentNode) {
-                        fontStyle.parentNode.removeChild(fontStyle)
-                      }
-
-                      // Optionally remove the font-face definition
-                      const fontFaceStyle = document.getElementById('opendyslexic-font-face')
-                      if (fontFaceStyle && fontFaceStyle.parentNode) {
-                        fontFaceStyle.parentNode.removeChild(fontFaceStyle)
-                      }
-                    }
-                  }
-
-                  // Apply spacing adjustments function
-                  function applySpacingAdjustments(lineSpacing: number, letterSpacing: number, wordSpacing: number) {
-                    const existingStyle = document.getElementById('spacing-adjustments-style')
-                    if (existingStyle) {
-                      existingStyle.remove()
-                    }
-
-                    const style = document.createElement('style')
-                    style.id = 'spacing-adjustments-style'
-                    style.textContent = `
-                      body, body * {
-                        line-height: ${lineSpacing} !important;
-                        letter-spacing: ${letterSpacing}px !important;
-                        word-spacing: ${wordSpacing}px !important;
-                      }
-                    `
-                    document.head.appendChild(style)
-                  }
-
-                  (window as any).applyDisplaySettings = applyDisplaySettings
-                }
-              }
-            })
-
-            // Then apply the display settings
-            await chrome.scripting.executeScript({
-              target: { tabId: tabs[0].id },
-              func: (displaySettings) => {
-                if ((window as any).applyDisplaySettings) {
-                  (window as any).applyDisplaySettings(displaySettings)
-                  return { success: true }
-                }
-                return { success: false, error: 'Display settings not available' }
-              },
-              args: [message.data.displaySettings]
+            await sendPageRequest(tabs[0].id, {
+              action: 'applyDisplay',
+              displaySettings: message.data.displaySettings
             })
             sendResponse({ success: true })
           } catch (error) {
@@ -1135,18 +471,81 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       })
       return true
 
-    case 'simplifyArticle':
-      // Process the simplification request
-      simplifyArticleText(message.data.text, message.data.level, message.data.mode)
-        .then(simplifiedText => {
-          sendResponse({ success: true, data: simplifiedText })
+    case 'runSelectionAction':
+      // Quick actions from the selection toolbar, run in the offscreen document like the rest of the AI work
+      jobQueue.enqueue(
+        { kind: 'selection', label: `Selection: ${message.data.action}`, priority: 'interactive' },
+        ({ signal }) => runOffscreenAI('selection-action', {
+          action: message.data.action,
+          text: message.data.text,
+          paragraph: message.data.paragraph
+        }, { signal })
+      ).promise
+        .then(result => {
+          sendResponse({ success: true, data: result })
         })
         .catch(error => {
           const errorMessage = error instanceof Error ? error.message : String(error)
           sendResponse({ success: false, error: errorMessage })
         })
       return true
-      
+
+    case 'runWritingAction':
+      // Drafts and rewrites for the writing assistant in text fields
+      jobQueue.enqueue(
+        { kind: 'writing', label: `Writing: ${message.data.action}`, priority: 'interactive' },
+        ({ signal }) => runOffscreenAI('writing-action', {
+          action: message.data.action,
+          input: message.data.input
+        }, { signal })
+      ).promise
+        .then(result => {
+          sendResponse({ success: true, data: result })
+        })
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          sendResponse({ success: false, error: errorMessage })
+        })
+      return true
+
+    case 'resetConversation':
+      // Chat memory lives in the offscreen document, if it's still open
+      hasOffscreenDocument()
+        .then(isOpen => {
+          if (isOpen) return runOffscreenAI('reset-conversation', { conversationId: message.data.conversationId })
+        })
+        .then(() => sendResponse({ success: true }))
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          sendResponse({ success: false, error: errorMessage })
+        })
+      return true
+
+    case 'offscreenEvent':
+      // Progress from the offscreen document, handled by utils/offscreen-helper
+      return false
+
+    case 'getQueuedAIWork':
+      // Work waiting for a model download, for the readiness page
+      getQueuedWork()
+        .then(data => sendResponse({ success: true, data }))
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          sendResponse({ success: false, error: errorMessage })
+        })
+      return true
+
+    case 'retryQueuedAIWork':
+      // A model just finished downloading, so run what was waiting for it
+      retryQueuedWork()
+        .then(getQueuedWork)
+        .then(data => sendResponse({ success: true, data }))
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          sendResponse({ success: false, error: errorMessage })
+        })
+      return true
+
     case 'saveArticle':
       // Use the extracted function
       saveCurrentArticle(sendResponse)
@@ -1160,18 +559,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         if (tabs[0]?.id && tabs[0]?.url) {
           // Check if URL is restricted
           const url = tabs[0].url
-          const restrictedPatterns = [
-            /^chrome:\/\//,
-            /^chrome-extension:\/\//,
-            /^about:/,
-            /^data:/,
-            /^file:\/\//,
-            /^view-source:/
-          ]
-          
-          const isRestricted = restrictedPatterns.some(pattern => pattern.test(url))
           
-          if (isRestricted) {
+          if (isRestrictedUrl(url)) {
             console.warn('   ⚠️ Restricted URL:', url)
             sendResponse({ 
               success: false, 
@@ -1183,7 +572,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           
           try {
             console.log('   Extracting content from tab:', tabs[0].id, url)
-            const content = await injectContentExtractor(tabs[0].id)
+            const content = await extractTabContent(tabs[0])
             console.log('   Extracted content:', {
               hasContent: !!content,
               title: content?.title,
@@ -1202,7 +591,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             const errorMessage = error instanceof Error 
               ? error.message 
               : String(error)
-            sendResponse({ success: false, error: 'extraction_error', message: errorMessage })
+            sendResponse({
+              success: false,
+              error: errorMessage === FILE_ACCESS_ERROR ? 'file_access_disabled' : 'extraction_error',
+              message: errorMessage
+            })
           }
         } else {
           console.error('   ❌ No active tab found')
@@ -1211,6 +604,18 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       })
       return true
       
+    case 'getTabsContent':
+      // Extract content from several tabs for multi-tab chat
+      getTabsContent(message.data?.tabIds || [])
+        .then(results => {
+          sendResponse({ success: true, data: results })
+        })
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          sendResponse({ success: false, error: errorMessage })
+        })
+      return true
+      
     default:
       console.log("Unknown action:", message.action)
   }
@@ -1222,8 +627,15 @@ chrome.contextMenus.onClicked.addListener((info, tab) => {
 
   switch (info.menuItemId) {
     case "chat-with-page":
-      // Open side panel for chat
+      // Open side panel for chat, before anything async so the user gesture still counts
       chrome.sidePanel.open({ windowId: tab.windowId! })
+
+      // Hand the selection to the side panel, which picks it up as chat context
+      if (info.selectionText) {
+        getSelectionContext(tab, info.selectionText, info.frameId)
+          .then(selection => chrome.storage.session.set({ [PENDING_SELECTION_KEY]: selection }))
+          .catch(error => console.error('Error passing selection to chat:', error))
+      }
       break
 
     case "save-article":
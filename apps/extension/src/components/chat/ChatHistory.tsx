@@ -0,0 +1,354 @@
+// apps/extension/src/components/chat/ChatHistory.tsx
+// ** import types
+import type { FC } from "react"
+import type { ChatSession } from "@/store/chatStore"
+import type { ChatExportFormat } from "@/utils/chatExport"
+
+// ** import core packages
+import React, { useMemo, useRef, useState } from "react"
+import { ArrowLeft, Download, Globe, Layers, Pencil, Pin, Trash2 } from "lucide-react"
+
+// ** import utils
+import { isMultiTabSession, getSessionTitle } from "@/store/chatStore"
+
+// ** import lib
+import SearchBar from "@/components/ui/SearchBar"
+
+interface ChatHistoryProps {
+  sessions: ChatSession[]
+  currentKey: string | null
+  // The site the active tab is on, listed first
+  currentDomain?: string
+  onSelect: (key: string) => void
+  onRename: (key: string, title: string) => void
+  onTogglePin: (key: string) => void
+  onDelete: (key: string) => void
+  onExport: (key: string, format: ChatExportFormat) => void
+  onClose: () => void
+}
+
+interface SearchResult {
+  session: ChatSession
+  // Part of the first message that matched the search
+  snippet?: string
+}
+
+const MULTI_TAB_GROUP = 'Multiple tabs'
+const SNIPPET_RADIUS = 60
+
+const formatLastActive = (date: Date): string => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return date.toLocaleDateString()
+}
+
+const countMessages = (session: ChatSession): number =>
+  session.messages.filter(message => !message.id.startsWith('welcome')).length
+
+const matchSession = (session: ChatSession, query: string): SearchResult | null => {
+  if (!query) return { session }
+
+  const titleMatches = [getSessionTitle(session), session.title, session.url]
+    .some(text => text.toLowerCase().includes(query))
+
+  for (const message of session.messages) {
+    const index = message.text.toLowerCase().indexOf(query)
+    if (index === -1) continue
+
+    const start = Math.max(0, index - SNIPPET_RADIUS)
+    const end = Math.min(message.text.length, index + query.length + SNIPPET_RADIUS)
+    const snippet = `${start > 0 ? '…' : ''}${message.text.slice(start, end)}${end < message.text.length ? '…' : ''}`
+    return { session, snippet: snippet.replace(/\s+/g, ' ') }
+  }
+
+  return titleMatches ? { session } : null
+}
+
+interface HistoryRowProps {
+  result: SearchResult
+  isCurrent: boolean
+  onSelect: (key: string) => void
+  onRename: (key: string, title: string) => void
+  onTogglePin: (key: string) => void
+  onDelete: (key: string) => void
+  onExport: (key: string, format: ChatExportFormat) => void
+}
+
+const HistoryRow: FC<HistoryRowProps> = ({
+  result,
+  isCurrent,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onExport
+}) => {
+  const { session, snippet } = result
+  const [isHovered, setIsHovered] = useState(false)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [renameValue, setRenameValue] = useState('')
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const cancelRenameRef = useRef(false)
+
+  const startRename = () => {
+    setRenameValue(getSessionTitle(session))
+    setIsRenaming(true)
+  }
+
+  // Enter and Escape both blur the input, only blur saves
+  const handleRenameBlur = () => {
+    if (!cancelRenameRef.current) {
+      onRename(session.key, renameValue)
+    }
+    cancelRenameRef.current = false
+    setIsRenaming(false)
+  }
+
+  const handleExport = (format: ChatExportFormat) => {
+    onExport(session.key, format)
+    setShowExportMenu(false)
+  }
+
+  const actionStyle = {
+    opacity: isHovered || showExportMenu ? 1 : 0,
+    pointerEvents: isHovered || showExportMenu ? 'auto' as const : 'none' as const
+  }
+
+  return (
+    <div
+      className="relative flex items-start gap-3 px-4 py-2 cursor-pointer transition-colors"
+      style={{ backgroundColor: isCurrent || isHovered ? 'var(--card-bg)' : 'transparent' }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => {
+        setIsHovered(false)
+        setShowExportMenu(false)
+      }}
+      onClick={() => !isRenaming && onSelect(session.key)}
+    >
+      {isMultiTabSession(session) ? (
+        <Layers className="w-4 h-4 mt-0.5 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+      ) : (
+        <Globe className="w-4 h-4 mt-0.5 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+      )}
+
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <input
+            autoFocus
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') cancelRenameRef.current = true
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur()
+            }}
+            onBlur={handleRenameBlur}
+            className="w-full text-xs font-medium bg-transparent outline-none"
+            style={{ color: 'var(--text-primary)', borderBottom: '1px solid var(--text-primary)' }}
+          />
+        ) : (
+          <p className="text-xs font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+            {getSessionTitle(session)}
+          </p>
+        )}
+        <p className="text-xs truncate" style={{ color: 'var(--text-tertiary)' }}>
+          {session.sources
+            ? session.sources.map(source => source.title).join(', ')
+            : session.url}
+        </p>
+        <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          {countMessages(session)} messages · {formatLastActive(session.lastActiveAt)}
+        </p>
+        {snippet && (
+          <p className="text-xs mt-1 line-clamp-2" style={{ color: 'var(--text-secondary)' }}>
+            {snippet}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-0.5 shrink-0" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={() => onTogglePin(session.key)}
+          className="p-1 rounded transition-all"
+          style={{ opacity: session.pinned ? 1 : actionStyle.opacity, pointerEvents: session.pinned ? 'auto' : actionStyle.pointerEvents }}
+          title={session.pinned ? 'Unpin' : 'Pin'}
+        >
+          <Pin className="w-3.5 h-3.5" style={{ color: session.pinned ? 'var(--text-primary)' : 'var(--text-tertiary)' }} />
+        </button>
+        <button
+          onClick={startRename}
+          className="p-1 rounded transition-all"
+          style={actionStyle}
+          title="Rename"
+        >
+          <Pencil className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+        </button>
+        <button
+          onClick={() => setShowExportMenu(prev => !prev)}
+          className="p-1 rounded transition-all"
+          style={actionStyle}
+          title="Export"
+        >
+          <Download className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+        </button>
+        <button
+          onClick={() => onDelete(session.key)}
+          className="p-1 rounded transition-all"
+          style={actionStyle}
+          title="Delete conversation"
+        >
+          <Trash2 className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+        </button>
+      </div>
+
+      {showExportMenu && (
+        <div
+          className="absolute right-4 top-8 z-20 flex flex-col rounded-lg shadow-md py-1"
+          style={{ backgroundColor: 'var(--bg)', border: '1px solid var(--border)' }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={() => handleExport('markdown')}
+            className="px-3 py-1.5 text-xs text-left"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            Markdown (.md)
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            className="px-3 py-1.5 text-xs text-left"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            JSON (.json)
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const ChatHistory: FC<ChatHistoryProps> = ({
+  sessions,
+  currentKey,
+  currentDomain,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onExport,
+  onClose
+}) => {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [isSearchFocused, setIsSearchFocused] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+
+  const { pinned, groups } = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    const results = [...sessions]
+      .sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime())
+      .map(session => matchSession(session, query))
+      .filter((result): result is SearchResult => !!result)
+
+    const byDomain = new Map<string, SearchResult[]>()
+    results
+      .filter(result => !result.session.pinned)
+      .forEach(result => {
+        const group = isMultiTabSession(result.session) ? MULTI_TAB_GROUP : result.session.domain
+        byDomain.set(group, [...(byDomain.get(group) || []), result])
+      })
+
+    // Current site first, then the most recently active sites
+    const sortedGroups = Array.from(byDomain.entries()).sort(([a], [b]) => {
+      if (a === currentDomain) return -1
+      if (b === currentDomain) return 1
+      return 0
+    })
+
+    return {
+      pinned: results.filter(result => result.session.pinned),
+      groups: sortedGroups
+    }
+  }, [sessions, searchQuery, currentDomain])
+
+  const renderRows = (results: SearchResult[]) => results.map(result => (
+    <HistoryRow
+      key={result.session.key}
+      result={result}
+      isCurrent={result.session.key === currentKey}
+      onSelect={onSelect}
+      onRename={onRename}
+      onTogglePin={onTogglePin}
+      onDelete={onDelete}
+      onExport={onExport}
+    />
+  ))
+
+  return (
+    <div className="flex flex-col h-screen" style={{ backgroundColor: 'var(--bg)' }}>
+      <div className="px-4 py-3 border-b flex items-center gap-2" style={{ borderColor: 'var(--divider)' }}>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg transition-all"
+          title="Back to chat"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium" style={{ color: 'var(--text-primary)' }}>
+            Chat history
+          </p>
+          <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+            {sessions.length} conversations, one per page
+          </p>
+        </div>
+      </div>
+
+      <div className="px-4 pt-2">
+        <SearchBar
+          ref={searchInputRef}
+          value={searchQuery}
+          onChange={setSearchQuery}
+          placeholder="Search titles and messages..."
+          onFocus={() => setIsSearchFocused(true)}
+          onBlur={() => setIsSearchFocused(false)}
+          isFocused={isSearchFocused}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {pinned.length === 0 && groups.length === 0 && (
+          <p className="text-sm text-center p-6" style={{ color: 'var(--text-tertiary)' }}>
+            {searchQuery ? 'No conversations match your search' : 'No conversations yet'}
+          </p>
+        )}
+        {pinned.length > 0 && (
+          <div className="mb-2">
+            <div className="flex items-center gap-2 px-4 py-1.5">
+              <Pin className="w-3 h-3 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+              <p className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                Pinned
+              </p>
+            </div>
+            {renderRows(pinned)}
+          </div>
+        )}
+        {groups.map(([group, results]) => (
+          <div key={group} className="mb-2">
+            <div className="flex items-center gap-2 px-4 py-1.5">
+              <Globe className="w-3 h-3 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+              <p className="text-xs font-medium truncate" style={{ color: 'var(--text-secondary)' }}>
+                {group}
+              </p>
+            </div>
+            {renderRows(results)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ChatHistory
@@ -1,18 +1,22 @@
 // apps/extension/src/components/chat/ChatInput.tsx
 // ** import core packages
 import React, { useRef, useState, useEffect } from 'react'
-import { ArrowUp } from 'lucide-react'
+import { ArrowUp, Square } from 'lucide-react'
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void
   disabled?: boolean
   placeholder?: string
+  isStreaming?: boolean
+  onStop?: () => void
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
   onSendMessage,
   disabled = false,
-  placeholder = "Ask about this page..."
+  placeholder = "Ask about this page...",
+  isStreaming = false,
+  onStop
 }) => {
   const [inputText, setInputText] = useState("")
   const inputRef = useRef<HTMLTextAreaElement>(null)
@@ -72,25 +76,39 @@ const ChatInput: React.FC<ChatInputProps> = ({
             }}
             disabled={disabled}
           />
-          <button
-            onClick={handleSend}
-            disabled={!inputText.trim() || disabled}
-            className={`
-              my-auto mx-1 w-8 h-8 rounded-full flex items-center justify-center
-              transition-all duration-200
-              ${inputText.trim() && !disabled ? 'hover:scale-105' : 'cursor-not-allowed'}
-            `}
-            style={{
-              backgroundColor: inputText.trim() && !disabled
-                ? 'var(--chip-bg)'
-                : 'var(--disabled-bg)',
-              color: inputText.trim() && !disabled
-                ? 'var(--chip-text)'
-                : 'var(--disabled-text)'
-            }}
-          >
-            <ArrowUp className="w-4 h-4" />
-          </button>
+          {isStreaming && onStop ? (
+            <button
+              onClick={onStop}
+              className="my-auto mx-1 w-8 h-8 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105"
+              style={{
+                backgroundColor: 'var(--chip-bg)',
+                color: 'var(--chip-text)'
+              }}
+              title="Stop generating"
+            >
+              <Square className="w-3 h-3" fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!inputText.trim() || disabled}
+              className={`
+                my-auto mx-1 w-8 h-8 rounded-full flex items-center justify-center
+                transition-all duration-200
+                ${inputText.trim() && !disabled ? 'hover:scale-105' : 'cursor-not-allowed'}
+              `}
+              style={{
+                backgroundColor: inputText.trim() && !disabled
+                  ? 'var(--chip-bg)'
+                  : 'var(--disabled-bg)',
+                color: inputText.trim() && !disabled
+                  ? 'var(--chip-text)'
+                  : 'var(--disabled-text)'
+              }}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
     </div>
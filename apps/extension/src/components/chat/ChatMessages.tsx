@@ -1,10 +1,10 @@
 // apps/extension/src/components/chat/ChatMessages.tsx
 // ** import types
-import type { Message } from '@/store/chatStore'
+import type { Citation, Message } from '@/store/chatStore'
 
 // ** import core packages
 import React, { useRef, useEffect, useState, useMemo } from 'react'
-import { Copy, Check, RefreshCw } from 'lucide-react'
+import { Copy, Check, RefreshCw, Quote } from 'lucide-react'
 import MarkdownIt from 'markdown-it'
 
 // ** import styles
@@ -13,11 +13,18 @@ import '@/styles/markdown.css'
 interface ChatMessagesProps {
   messages: Message[]
   isLoading: boolean
+  // Text of the answer that is still streaming in, if any
+  streamingText?: string
+  // Scroll the page to a cited passage and highlight it
+  onCitationClick?: (citation: Citation) => void
 }
 
-const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isLoading }) => {
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isLoading, streamingText = '', onCitationClick }) => {
   const [copiedId, setCopiedId] = useState<string | null>(null)
   const [hoveredMessage, setHoveredMessage] = useState<string | null>(null)
+  const [expandedCitation, setExpandedCitation] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   // Initialize markdown parser
@@ -46,11 +53,23 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isLoading }) => {
         </div>
       )
     } else {
-      // Render AI responses as markdown
-      const renderedContent = md.render(message.text)
+      // Render AI responses as markdown, with [Passage N] references made clickable
+      let renderedContent = md.render(message.text)
+      message.citations?.forEach(citation => {
+        const reference = new RegExp(`\\[${escapeRegExp(citation.label)}\\]`, 'g')
+        renderedContent = renderedContent.replace(
+          reference,
+          `<button type="button" class="citation-ref" data-citation="${citation.label}">[${citation.label}]</button>`
+        )
+      })
       return (
         <div
           className="markdown-content text-sm leading-relaxed pr-8"
+          onClick={(e) => {
+            const label = (e.target as HTMLElement).closest('[data-citation]')?.getAttribute('data-citation')
+            const citation = message.citations?.find(c => c.label === label)
+            if (citation) handleCitationClick(message.id, citation)
+          }}
           dangerouslySetInnerHTML={{ __html: renderedContent }}
         />
       )
@@ -59,7 +78,12 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isLoading }) => {
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, streamingText])
+
+  const handleCitationClick = (messageId: string, citation: Citation) => {
+    setExpandedCitation(`${messageId}-${citation.label}`)
+    onCitationClick?.(citation)
+  }
 
   const handleCopy = (text: string, id: string) => {
     navigator.clipboard.writeText(text)
@@ -103,6 +127,52 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isLoading }) => {
                       {renderMessageContent(message)}
                     </div>
 
+                    {message.isStopped && (
+                      <p className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+                        Stopped
+                      </p>
+                    )}
+
+                    {message.citations && message.citations.length > 0 && (
+                      <div className="mt-3 pr-8">
+                        <div className="flex flex-wrap gap-1.5">
+                          {message.citations.map(citation => {
+                            const citationId = `${message.id}-${citation.label}`
+                            const isExpanded = expandedCitation === citationId
+                            return (
+                              <button
+                                key={citation.label}
+                                onClick={() => isExpanded
+                                  ? setExpandedCitation(null)
+                                  : handleCitationClick(message.id, citation)}
+                                className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full transition-colors"
+                                style={{
+                                  backgroundColor: isExpanded ? 'var(--chip-bg)' : 'var(--bg)',
+                                  color: isExpanded ? 'var(--chip-text)' : 'var(--text-tertiary)',
+                                  border: '1px solid var(--border)'
+                                }}
+                                title="Show this passage in the page"
+                              >
+                                <Quote className="w-3 h-3" />
+                                {citation.label}
+                              </button>
+                            )
+                          })}
+                        </div>
+                        {message.citations
+                          .filter(citation => expandedCitation === `${message.id}-${citation.label}`)
+                          .map(citation => (
+                            <blockquote
+                              key={citation.label}
+                              className="mt-2 pl-3 text-xs leading-relaxed whitespace-pre-wrap"
+                              style={{ color: 'var(--text-secondary)', borderLeft: '2px solid var(--border)' }}
+                            >
+                              {citation.text}
+                            </blockquote>
+                          ))}
+                      </div>
+                    )}
+
                     {!message.isError && (
                       <button
                         onClick={() => handleCopy(message.text, message.id)}
@@ -130,7 +200,33 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isLoading }) => {
           </div>
         ))}
 
-        {isLoading && (
+        {isLoading && streamingText && (
+          <div
+            className="py-4 px-4"
+            style={{ backgroundColor: 'var(--card-bg)' }}
+          >
+            <div className="max-w-2xl mx-auto flex gap-3">
+              <div
+                className="w-6 h-6 rounded-full flex items-center justify-center text-xs shrink-0 mt-0.5"
+                style={{
+                  backgroundColor: 'var(--bg)',
+                  border: `1px solid var(--border)`,
+                  color: 'var(--text-primary)'
+                }}
+              >
+                A
+              </div>
+              <div className="flex-1 min-w-0" style={{ color: 'var(--text-primary)' }}>
+                <div
+                  className="markdown-content text-sm leading-relaxed pr-8"
+                  dangerouslySetInnerHTML={{ __html: md.render(streamingText) }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading && !streamingText && (
           <div
             className="py-4 px-4 animate-fadeIn"
             style={{ backgroundColor: 'var(--card-bg)' }}
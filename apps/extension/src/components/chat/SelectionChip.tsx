@@ -0,0 +1,39 @@
+// apps/extension/src/components/chat/SelectionChip.tsx
+// ** import types
+import type { FC } from "react"
+import type { SelectionContext } from "@/utils/selection"
+
+// ** import core packages
+import React from "react"
+import { Quote, X } from "lucide-react"
+
+interface SelectionChipProps {
+  selection: SelectionContext
+  onRemove: () => void
+}
+
+const SelectionChip: FC<SelectionChipProps> = ({ selection, onRemove }) => {
+  return (
+    <div className="px-4 pt-2" style={{ backgroundColor: 'var(--bg)' }}>
+      <div
+        className="flex items-start gap-2 px-3 py-2 rounded-lg"
+        style={{ backgroundColor: 'var(--card-bg)', border: '1px solid var(--border)' }}
+        title={selection.paragraph || selection.text}
+      >
+        <Quote className="w-3.5 h-3.5 mt-0.5 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+        <p className="flex-1 min-w-0 text-xs italic line-clamp-2" style={{ color: 'var(--text-secondary)' }}>
+          {selection.text}
+        </p>
+        <button
+          onClick={onRemove}
+          className="p-0.5 rounded-full shrink-0 transition-all"
+          title="Stop asking about this selection"
+        >
+          <X className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default SelectionChip
@@ -1,20 +1,26 @@
 // apps/extension/src/components/chat/SessionHeader.tsx
 // ** import core packages
 import React from 'react'
-import { Globe, RefreshCw, Paintbrush } from 'lucide-react'
+import { Globe, RefreshCw, Paintbrush, Layers, History } from 'lucide-react'
 
 interface SessionHeaderProps {
   title: string
   domain: string
   onRefresh: () => void
   onClear: () => void
+  onOpenTabPicker?: () => void
+  onOpenHistory?: () => void
+  isMultiTab?: boolean
 }
 
 const SessionHeader: React.FC<SessionHeaderProps> = ({
   title,
   domain,
   onRefresh,
-  onClear
+  onClear,
+  onOpenTabPicker,
+  onOpenHistory,
+  isMultiTab = false
 }) => {
   return (
     <div className="px-4 py-3 border-b sticky top-0 z-10" style={{ 
@@ -23,7 +29,11 @@ const SessionHeader: React.FC<SessionHeaderProps> = ({
       backdropFilter: 'blur(10px)'
     }}>
       <div className="flex items-center gap-2">
-        <Globe className="w-4 h-4 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+        {isMultiTab ? (
+          <Layers className="w-4 h-4 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+        ) : (
+          <Globe className="w-4 h-4 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+        )}
         <div className="flex-1 min-w-0">
           <p className="text-xs font-medium truncate" style={{ color: 'var(--text-primary)' }}>
             {title}
@@ -32,11 +42,31 @@ const SessionHeader: React.FC<SessionHeaderProps> = ({
             {domain}
           </p>
         </div>
+        {onOpenHistory && (
+          <button
+            onClick={onOpenHistory}
+            className="p-1.5 rounded-lg hover:bg-opacity-10 transition-all"
+            style={{ backgroundColor: 'transparent' }}
+            title="Chat history"
+          >
+            <History className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+          </button>
+        )}
+        {onOpenTabPicker && (
+          <button
+            onClick={onOpenTabPicker}
+            className="p-1.5 rounded-lg hover:bg-opacity-10 transition-all"
+            style={{ backgroundColor: isMultiTab ? 'var(--chip-bg)' : 'transparent' }}
+            title={isMultiTab ? 'Back to page chat' : 'Chat across several tabs'}
+          >
+            <Layers className="w-3.5 h-3.5" style={{ color: isMultiTab ? 'var(--chip-text)' : 'var(--text-tertiary)' }} />
+          </button>
+        )}
         <button
           onClick={onRefresh}
           className="p-1.5 rounded-lg hover:bg-opacity-10 transition-all"
           style={{ backgroundColor: 'transparent' }}
-          title="Reload page content"
+          title={isMultiTab ? 'Pick tabs again' : 'Reload page content'}
         >
           <RefreshCw className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
         </button>
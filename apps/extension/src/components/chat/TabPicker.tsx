@@ -0,0 +1,148 @@
+// apps/extension/src/components/chat/TabPicker.tsx
+// ** import types
+import type { FC } from "react"
+
+// ** import core packages
+import React, { useEffect, useState } from "react"
+import { ArrowLeft, Check, Layers, RefreshCw } from "lucide-react"
+
+interface TabPickerProps {
+  onStart: (tabIds: number[]) => Promise<void>
+  onCancel: () => void
+}
+
+// Gemini Nano's window only has room for a handful of pages
+const MAX_SELECTED_TABS = 5
+
+const TabPicker: FC<TabPickerProps> = ({ onStart, onCancel }) => {
+  const [tabs, setTabs] = useState<chrome.tabs.Tab[]>([])
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    chrome.tabs.query({ currentWindow: true }, (result) => {
+      const readableTabs = result.filter(tab => tab.id !== undefined && /^https?:\/\//.test(tab.url || ''))
+      setTabs(readableTabs)
+
+      // Pre-select the active tab since it's usually one of the pages being compared
+      const activeTab = readableTabs.find(tab => tab.active)
+      if (activeTab?.id !== undefined) {
+        setSelectedIds([activeTab.id])
+      }
+    })
+  }, [])
+
+  const toggleTab = (tabId: number) => {
+    setError(null)
+    setSelectedIds(prev => {
+      if (prev.includes(tabId)) {
+        return prev.filter(id => id !== tabId)
+      }
+      if (prev.length >= MAX_SELECTED_TABS) {
+        setError(`You can compare up to ${MAX_SELECTED_TABS} tabs at once`)
+        return prev
+      }
+      return [...prev, tabId]
+    })
+  }
+
+  const handleStart = async () => {
+    if (selectedIds.length < 2 || isStarting) return
+
+    setIsStarting(true)
+    setError(null)
+    try {
+      await onStart(selectedIds)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error))
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-screen" style={{ backgroundColor: 'var(--bg)' }}>
+      <div className="px-4 py-3 border-b flex items-center gap-2" style={{ borderColor: 'var(--divider)' }}>
+        <button
+          onClick={onCancel}
+          className="p-1.5 rounded-lg transition-all"
+          title="Back to chat"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium" style={{ color: 'var(--text-primary)' }}>
+            Chat across tabs
+          </p>
+          <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+            Pick 2–{MAX_SELECTED_TABS} tabs to ask one question about
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {tabs.length === 0 && (
+          <p className="text-sm text-center p-6" style={{ color: 'var(--text-tertiary)' }}>
+            No readable tabs open in this window
+          </p>
+        )}
+        {tabs.map(tab => {
+          const isSelected = selectedIds.includes(tab.id!)
+          return (
+            <button
+              key={tab.id}
+              onClick={() => toggleTab(tab.id!)}
+              className="w-full flex items-center gap-3 px-4 py-2 text-left transition-colors"
+              style={{ backgroundColor: isSelected ? 'var(--card-bg)' : 'transparent' }}
+            >
+              <div
+                className="w-4 h-4 rounded flex items-center justify-center shrink-0"
+                style={{
+                  backgroundColor: isSelected ? 'var(--chip-bg)' : 'transparent',
+                  border: `1px solid ${isSelected ? 'var(--chip-bg)' : 'var(--border)'}`
+                }}
+              >
+                {isSelected && <Check className="w-3 h-3" style={{ color: 'var(--chip-text)' }} />}
+              </div>
+              {tab.favIconUrl ? (
+                <img src={tab.favIconUrl} alt="" className="w-4 h-4 shrink-0" />
+              ) : (
+                <Layers className="w-4 h-4 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                  {tab.title || 'Untitled Page'}
+                </p>
+                <p className="text-xs truncate" style={{ color: 'var(--text-tertiary)' }}>
+                  {tab.url}
+                </p>
+              </div>
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="p-4 border-t" style={{ borderColor: 'var(--divider)' }}>
+        {error && (
+          <p className="text-xs mb-2" style={{ color: '#ef4444' }}>
+            {error}
+          </p>
+        )}
+        <button
+          onClick={handleStart}
+          disabled={selectedIds.length < 2 || isStarting}
+          className="w-full px-4 py-2.5 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2"
+          style={{
+            backgroundColor: selectedIds.length >= 2 && !isStarting ? 'var(--chip-bg)' : 'var(--disabled-bg)',
+            color: selectedIds.length >= 2 && !isStarting ? 'var(--chip-text)' : 'var(--disabled-text)'
+          }}
+        >
+          {isStarting && <RefreshCw className="w-4 h-4 animate-spin" />}
+          {isStarting ? 'Reading tabs...' : `Chat with ${selectedIds.length} tabs`}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default TabPicker
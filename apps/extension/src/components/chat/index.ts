@@ -1,5 +1,6 @@
 export { default as ChatInput } from './ChatInput'
 export { default as ChatMessages } from './ChatMessages'
 export { default as SessionHeader } from './SessionHeader'
-export { default as FloatingNewChatButton } from './FloatingNewChatButton'
-export { default as ContentWarning } from './ContentWarning'
\ No newline at end of file
+export { default as TabPicker } from './TabPicker'
+export { default as ChatHistory } from './ChatHistory'
+export { default as SelectionChip } from './SelectionChip'
\ No newline at end of file
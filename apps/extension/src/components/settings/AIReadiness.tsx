@@ -0,0 +1,198 @@
+// apps/extension/src/components/settings/AIReadiness.tsx
+// ** import types
+import type { FC } from 'react'
+import type { AIAvailability } from '@/api/chrome-ai/types'
+import type { AIApiAvailability } from '@/api/chrome-ai/availability'
+import type { AISessionType } from '@/utils/session-manager'
+import type { QueuedAIWork } from '@/utils/model-readiness'
+
+// ** import core packages
+import React, { useState, useEffect, useCallback } from 'react'
+import { Download, RefreshCw, CheckCircle2, XCircle, Loader2, Clock } from 'lucide-react'
+
+// ** import apis
+import { checkAllApisAvailability, downloadModel } from '@/api/chrome-ai/availability'
+
+const APIS: { type: AISessionType; name: string; usedFor: string }[] = [
+  { type: 'languageModel', name: 'Prompt API', usedFor: 'Chat, saved articles, page simplification' },
+  { type: 'summarizer', name: 'Summarizer', usedFor: 'Long chats' },
+  { type: 'writer', name: 'Writer', usedFor: 'Drafting replies in text boxes' },
+  { type: 'rewriter', name: 'Rewriter', usedFor: 'Tone changes, Reading Flow simplification' }
+]
+
+const STATUS_LABELS: Record<AIAvailability, string> = {
+  available: 'Ready',
+  downloadable: 'Needs download',
+  downloading: 'Downloading',
+  unavailable: 'Not supported'
+}
+
+const STATUS_COLORS: Record<AIAvailability, string> = {
+  available: 'rgb(16, 185, 129)',
+  downloadable: 'rgb(245, 158, 11)',
+  downloading: 'rgb(59, 130, 246)',
+  unavailable: 'rgb(239, 68, 68)'
+}
+
+const StatusIcon: FC<{ availability: AIAvailability }> = ({ availability }) => {
+  const style = { color: STATUS_COLORS[availability] }
+  if (availability === 'available') return <CheckCircle2 className="w-4 h-4 shrink-0" style={style} />
+  if (availability === 'unavailable') return <XCircle className="w-4 h-4 shrink-0" style={style} />
+  if (availability === 'downloading') return <Loader2 className="w-4 h-4 shrink-0 animate-spin" style={style} />
+  return <Download className="w-4 h-4 shrink-0" style={style} />
+}
+
+const AIReadiness: FC = () => {
+  const [apis, setApis] = useState<AIApiAvailability | null>(null)
+  const [progress, setProgress] = useState<Partial<Record<AISessionType, number>>>({})
+  const [errors, setErrors] = useState<Partial<Record<AISessionType, string>>>({})
+  const [queuedWork, setQueuedWork] = useState<QueuedAIWork[]>([])
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const loadQueuedWork = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getQueuedAIWork' })
+      if (response?.success) {
+        setQueuedWork(response.data)
+      }
+    } catch (error) {
+      console.error('Failed to load queued AI work:', error)
+    }
+  }, [])
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      setApis(await checkAllApisAvailability())
+      await loadQueuedWork()
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [loadQueuedWork])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleDownload = async (type: AISessionType) => {
+    setErrors(prev => ({ ...prev, [type]: undefined }))
+    setProgress(prev => ({ ...prev, [type]: 0 }))
+    setApis(prev => prev && { ...prev, [type]: 'downloading' })
+
+    try {
+      await downloadModel(type, (value) => {
+        setProgress(prev => ({ ...prev, [type]: value }))
+      })
+
+      // Let the background run whatever was waiting for this model
+      const response = await chrome.runtime.sendMessage({ action: 'retryQueuedAIWork' })
+      if (response?.success) {
+        setQueuedWork(response.data)
+      }
+    } catch (error) {
+      setErrors(prev => ({ ...prev, [type]: error instanceof Error ? error.message : String(error) }))
+    } finally {
+      setProgress(prev => ({ ...prev, [type]: undefined }))
+      setApis(await checkAllApisAvailability())
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+          Built-in AI models
+        </span>
+        <button
+          onClick={refresh}
+          disabled={isRefreshing}
+          className="p-1 rounded transition-all"
+          style={{ color: 'var(--text-tertiary)' }}
+          title="Check again"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {APIS.map(({ type, name, usedFor }) => {
+        const availability = apis?.[type]
+        const downloadProgress = progress[type]
+        const canDownload = availability === 'downloadable' || (availability === 'downloading' && downloadProgress === undefined)
+
+        return (
+          <div
+            key={type}
+            className="p-3 rounded-md"
+            style={{ backgroundColor: 'var(--card-bg)', border: '1px solid var(--divider)' }}
+          >
+            <div className="flex items-center gap-2">
+              {availability ? (
+                <StatusIcon availability={availability} />
+              ) : (
+                <Loader2 className="w-4 h-4 shrink-0 animate-spin" style={{ color: 'var(--text-tertiary)' }} />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm" style={{ color: 'var(--text-primary)' }}>{name}</div>
+                <div className="text-xs truncate" style={{ color: 'var(--text-tertiary)' }}>{usedFor}</div>
+              </div>
+              {availability && (
+                <span className="text-xs" style={{ color: STATUS_COLORS[availability] }}>
+                  {STATUS_LABELS[availability]}
+                </span>
+              )}
+              {canDownload && (
+                <button
+                  onClick={() => handleDownload(type)}
+                  className="px-2 py-1 text-xs rounded transition-all"
+                  style={{ backgroundColor: 'var(--chip-bg)', color: 'var(--chip-text)' }}
+                  title={availability === 'downloading' ? 'Follow the download that is already running' : undefined}
+                >
+                  {availability === 'downloading' ? 'Show progress' : 'Download now'}
+                </button>
+              )}
+            </div>
+
+            {downloadProgress !== undefined && (
+              <div className="mt-2">
+                <div className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: 'var(--divider)' }}>
+                  <div
+                    className="h-full rounded-full transition-all"
+                    style={{ width: `${Math.round(downloadProgress * 100)}%`, backgroundColor: STATUS_COLORS.downloading }}
+                  />
+                </div>
+                <div className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+                  {downloadProgress >= 1 ? 'Preparing model…' : `${Math.round(downloadProgress * 100)}% downloaded`}
+                </div>
+              </div>
+            )}
+
+            {errors[type] && (
+              <div className="text-xs mt-2" style={{ color: STATUS_COLORS.unavailable }}>
+                {errors[type]}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {queuedWork.length > 0 && (
+        <div className="p-3 rounded-md" style={{ backgroundColor: 'var(--card-bg)', border: '1px solid var(--divider)' }}>
+          <div className="text-xs font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>
+            Waiting for a model ({queuedWork.length})
+          </div>
+          {queuedWork.map(work => (
+            <div key={work.id} className="flex items-center gap-2 text-xs py-0.5" style={{ color: 'var(--text-tertiary)' }}>
+              <Clock className="w-3 h-3 shrink-0" />
+              <span className="truncate">{work.label}</span>
+            </div>
+          ))}
+          <div className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+            These run automatically once the download finishes.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AIReadiness
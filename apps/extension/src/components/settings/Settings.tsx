@@ -1,14 +1,21 @@
 // apps/extension/src/components/settings/Settings.tsx
 // ** import types
 import type { FC } from 'react'
+import type { ReadingSettings } from '@/utils/reading-metrics'
+import type { SimplificationCacheStats } from '@/utils/simplification-cache'
 
 // ** import core packages
 import React, { useState, useEffect } from 'react'
-import { X, Check, Info } from 'lucide-react'
+import { X, Check, Info, Trash2 } from 'lucide-react'
 
 // ** import utils
 import { checkChromeAI, getSetupInstructions } from '@/utils/chrome-ai-check'
 import { testChromeAI } from '@/utils/test-chrome-ai'
+import { DEFAULT_READING_SETTINGS, READING_SETTINGS_KEY, loadReadingSettings } from '@/utils/reading-metrics'
+import { getSimplificationCacheStats, clearSimplificationCache } from '@/utils/simplification-cache'
+
+// ** import components
+import AIReadiness from './AIReadiness'
 
 interface SettingsProps {
   onClose: () => void
@@ -24,8 +31,17 @@ const DEFAULT_AI_SETTINGS: AISettings = {
   topK: 3
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
 const Settings: FC<SettingsProps> = ({ onClose }) => {
   const [settings, setSettings] = useState<AISettings>(DEFAULT_AI_SETTINGS)
+  const [readingSettings, setReadingSettings] = useState<ReadingSettings>(DEFAULT_READING_SETTINGS)
+  const [cacheStats, setCacheStats] = useState<SimplificationCacheStats | null>(null)
+  const [isClearingCache, setIsClearingCache] = useState(false)
   const [chromeAIReady, setChromeAIReady] = useState(false)
   const [chromeAIMessage, setChromeAIMessage] = useState<string>("")
   const [isSaving, setIsSaving] = useState(false)
@@ -49,6 +65,14 @@ const Settings: FC<SettingsProps> = ({ onClose }) => {
       }
     })
 
+    // Load the target grade for "Auto" simplification
+    loadReadingSettings().then(setReadingSettings)
+
+    // Size of the saved simplified pages
+    getSimplificationCacheStats()
+      .then(setCacheStats)
+      .catch(error => console.error('Failed to read simplification cache:', error))
+
     // Trigger entrance animation
     setTimeout(() => setIsVisible(true), 10)
   }, [])
@@ -57,7 +81,7 @@ const Settings: FC<SettingsProps> = ({ onClose }) => {
     setIsSaving(true)
     try {
       // Save AI settings to Chrome storage
-      await chrome.storage.local.set({ aiSettings: settings })
+      await chrome.storage.local.set({ aiSettings: settings, [READING_SETTINGS_KEY]: readingSettings })
       setSaveSuccess(true)
       setTimeout(() => {
         setSaveSuccess(false)
@@ -70,6 +94,18 @@ const Settings: FC<SettingsProps> = ({ onClose }) => {
     }
   }
 
+  const handleClearCache = async () => {
+    setIsClearingCache(true)
+    try {
+      await clearSimplificationCache()
+      setCacheStats({ count: 0, bytes: 0 })
+    } catch (error) {
+      console.error('Failed to clear simplification cache:', error)
+    } finally {
+      setIsClearingCache(false)
+    }
+  }
+
   const handleCancel = () => {
     handleClose()
   }
@@ -136,7 +172,7 @@ const Settings: FC<SettingsProps> = ({ onClose }) => {
           </button>
         </div>
 
-        <div className="p-4 space-y-4">
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
           {/* Chrome AI Status */}
           <div 
             className="p-3 rounded-md flex items-start gap-2"
@@ -192,6 +228,9 @@ const Settings: FC<SettingsProps> = ({ onClose }) => {
             </div>
           </div>
 
+          {/* Per-model availability and downloads */}
+          <AIReadiness />
+
           {/* AI Model Information */}
           <div>
             <label 
@@ -259,6 +298,72 @@ const Settings: FC<SettingsProps> = ({ onClose }) => {
               <span>Diverse</span>
             </div>
           </div>
+
+          {/* Target Reading Grade */}
+          <div>
+            <label 
+              className="block text-sm font-medium mb-2" 
+              style={{ color: 'var(--text-primary)' }}
+            >
+              Target reading grade: {readingSettings.targetGrade}
+            </label>
+            <input
+              type="range"
+              min="3"
+              max="14"
+              step="1"
+              value={readingSettings.targetGrade}
+              onChange={(e) => setReadingSettings(prev => ({ ...prev, targetGrade: parseInt(e.target.value) }))}
+              className="w-full"
+              style={{ accentColor: 'var(--chip-bg)' }}
+            />
+            <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+              <span>Easier</span>
+              <span>Closer to original</span>
+            </div>
+            <p className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+              Used by the "Auto" intensity to pick Low, Mid or High for each article.
+            </p>
+          </div>
+
+          {/* Saved Simplifications */}
+          <div>
+            <label 
+              className="block text-sm font-medium mb-2" 
+              style={{ color: 'var(--text-primary)' }}
+            >
+              Saved simplifications
+            </label>
+            <div 
+              className="flex items-center justify-between px-3 py-2 rounded-md text-sm"
+              style={{
+                backgroundColor: 'var(--card-bg)',
+                color: 'var(--text-secondary)',
+                border: '1px solid var(--divider)'
+              }}
+            >
+              <span>
+                {cacheStats
+                  ? `${cacheStats.count} ${cacheStats.count === 1 ? 'page' : 'pages'} · ${formatBytes(cacheStats.bytes)}`
+                  : 'Loading...'}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={isClearingCache || !cacheStats?.count}
+                className="flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors"
+                style={{
+                  color: 'var(--text-primary)',
+                  opacity: isClearingCache || !cacheStats?.count ? 0.5 : 1
+                }}
+              >
+                <Trash2 className="w-3 h-3" />
+                {isClearingCache ? 'Clearing...' : 'Clear'}
+              </button>
+            </div>
+            <p className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+              Simplified pages are put back when you return to them, until the page text changes.
+            </p>
+          </div>
         </div>
 
         <div 
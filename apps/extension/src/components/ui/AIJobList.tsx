@@ -0,0 +1,78 @@
+// apps/extension/src/components/ui/AIJobList.tsx
+// ** import types
+import type { FC } from "react"
+import type { JobPriority } from "@/utils/job-queue"
+
+// ** import core packages
+import React from "react"
+import { Loader2, Clock, X } from "lucide-react"
+
+// ** import utils
+import { useAIJobs } from "@/hooks/useAIJobs"
+
+interface AIJobListProps {
+  // Render nothing while the queue is empty
+  hideWhenEmpty?: boolean
+}
+
+const PRIORITY_LABELS: Record<JobPriority, string> = {
+  interactive: "Now",
+  normal: "Normal",
+  background: "Background"
+}
+
+const AIJobList: FC<AIJobListProps> = ({ hideWhenEmpty = false }) => {
+  const { jobs, cancelJob } = useAIJobs()
+
+  if (jobs.length === 0) {
+    if (hideWhenEmpty) return null
+    return (
+      <div className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+        No AI work running
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      {jobs.map(job => (
+        <div
+          key={job.id}
+          className="flex items-center gap-2 px-3 py-2 rounded-md"
+          style={{ backgroundColor: 'var(--card-bg)', border: '1px solid var(--divider)' }}
+        >
+          {job.status === 'running' ? (
+            <Loader2 className="w-3.5 h-3.5 shrink-0 animate-spin" style={{ color: 'var(--text-secondary)' }} />
+          ) : (
+            <Clock className="w-3.5 h-3.5 shrink-0" style={{ color: 'var(--text-tertiary)' }} />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="text-xs truncate" style={{ color: 'var(--text-primary)' }}>{job.label}</div>
+            <div className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+              {job.status === 'running'
+                ? job.progress !== undefined ? `Running · ${Math.round(job.progress * 100)}%` : 'Running'
+                : `Queued · ${PRIORITY_LABELS[job.priority]}`}
+            </div>
+            {job.status === 'running' && job.progress !== undefined && (
+              <div className="h-1 mt-1 rounded-full overflow-hidden" style={{ backgroundColor: 'var(--divider)' }}>
+                <div
+                  className="h-full rounded-full transition-all"
+                  style={{ width: `${Math.round(job.progress * 100)}%`, backgroundColor: 'var(--chip-bg)' }}
+                />
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => cancelJob(job.id)}
+            className="p-1 rounded-full shrink-0 transition-all"
+            title="Cancel"
+          >
+            <X className="w-3.5 h-3.5" style={{ color: 'var(--text-tertiary)' }} />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default AIJobList
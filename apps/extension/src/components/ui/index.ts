@@ -1,3 +1,4 @@
 export { default as SearchBar } from './SearchBar'
 export { default as ThemeToggle } from './ThemeToggle'
-export { default as KeyboardShortcuts } from './KeyboardShortcuts'
\ No newline at end of file
+export { default as KeyboardShortcuts } from './KeyboardShortcuts'
+export { default as AIJobList } from './AIJobList'
\ No newline at end of file
@@ -4,6 +4,8 @@ import type { PlasmoCSConfig } from "plasmo"
 
 // ** import utils
 import { extractPageContent } from "@/utils/contentExtractor"
+import { extractWithSiteAdapter } from "@/utils/site-adapters"
+import { seekVideo } from "@/utils/transcript"
 
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"],
@@ -19,21 +21,32 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   console.log("Content script received message:", request)
   
   if (request.action === 'extractContent') {
-    try {
-      const content = extractPageContent()
-      console.log("Extracted content:", content)
-      sendResponse({ success: true, data: content })
-    } catch (error) {
-      console.error("Error extracting content:", error)
-      // Handle unknown error type
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : String(error)
-      sendResponse({ success: false, error: errorMessage })
-    }
+    // Sites with their own layout (and video pages) have an adapter, everything else is read as an article
+    extractWithSiteAdapter()
+      .then(content => content ?? extractPageContent())
+      .then(content => {
+        console.log("Extracted content:", content)
+        sendResponse({ success: true, data: content })
+      })
+      .catch(error => {
+        console.error("Error extracting content:", error)
+        // Handle unknown error type
+        const errorMessage = error instanceof Error 
+          ? error.message 
+          : String(error)
+        sendResponse({ success: false, error: errorMessage })
+      })
+    return true
   }
-  
-  return true // Keep message channel open for async response
+
+  if (request.action === 'seekVideo') {
+    // Clicked timestamp in a chat answer
+    sendResponse({ success: seekVideo(request.data.time) })
+    return true
+  }
+
+  // Other messages are for other content scripts
+  return false
 })
 
 // Export empty to make it a module
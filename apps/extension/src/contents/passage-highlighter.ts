@@ -0,0 +1,205 @@
+// apps/extension/src/contents/passage-highlighter.ts
+// ** import types
+import type { PlasmoCSConfig } from "plasmo"
+
+// ** import utils
+import { stripMarkdown } from "@/utils/markdown-text"
+
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  all_frames: false,
+  run_at: "document_idle"
+}
+
+// This content script finds text the chat answer cites and highlights it in the page
+
+const HIGHLIGHT_NAME = 'talktomytabs-citation'
+const HIGHLIGHT_STYLE_ID = 'talktomytabs-citation-style'
+const HIGHLIGHT_DURATION = 6000
+// Sentences shorter than this match too many places to be useful anchors
+const MIN_ANCHOR_LENGTH = 20
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA', 'INPUT', 'SELECT'])
+const INLINE_TAGS = new Set(['A', 'ABBR', 'B', 'CITE', 'CODE', 'EM', 'I', 'MARK', 'Q', 'S', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U'])
+
+interface TextPosition {
+  node: Text
+  offset: number
+}
+
+// Whitespace-collapsed, lowercased page text with a map back to the DOM
+interface TextIndex {
+  text: string
+  positions: TextPosition[]
+}
+
+let clearHighlightTimer: number | null = null
+
+const normalizeChar = (char: string): string => {
+  if (/[‘’‛]/.test(char)) return "'"
+  if (/[“”‟]/.test(char)) return '"'
+  if (/[–—]/.test(char)) return '-'
+  return char.toLowerCase()
+}
+
+const normalizeText = (text: string): string =>
+  Array.from(text.replace(/\s+/g, ' ').trim()).map(normalizeChar).join('')
+
+const buildTextIndex = (): TextIndex => {
+  const positions: TextPosition[] = []
+  let text = ''
+
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement
+      if (!parent || SKIPPED_TAGS.has(parent.tagName)) return NodeFilter.FILTER_REJECT
+      return NodeFilter.FILTER_ACCEPT
+    }
+  })
+
+  let node: Node | null
+  while ((node = walker.nextNode())) {
+    const textNode = node as Text
+    const value = textNode.data
+    if (value.length === 0) continue
+
+    // Separate text from different blocks so words from <p>a</p><p>b</p> don't run together
+    const last = positions[positions.length - 1]
+    const parent = textNode.parentElement!
+    const previousParent = last?.node.parentElement
+    if (
+      last &&
+      !text.endsWith(' ') &&
+      previousParent !== parent &&
+      !INLINE_TAGS.has(parent.tagName) &&
+      !INLINE_TAGS.has(previousParent?.tagName || '')
+    ) {
+      text += ' '
+      positions.push(last)
+    }
+
+    for (let i = 0; i < value.length; i++) {
+      const isSpace = /\s/.test(value[i])
+      if (isSpace && (text.length === 0 || text.endsWith(' '))) continue
+
+      text += isSpace ? ' ' : normalizeChar(value[i])
+      positions.push({ node: textNode, offset: i })
+    }
+  }
+
+  return { text, positions }
+}
+
+const toRange = (index: TextIndex, start: number, end: number): Range => {
+  const range = document.createRange()
+  const first = index.positions[start]
+  const last = index.positions[end - 1]
+  range.setStart(first.node, first.offset)
+  range.setEnd(last.node, last.offset + 1)
+  return range
+}
+
+/**
+ * Find the cited text in the page. Passages are Markdown, so their syntax is
+ * dropped first. Extracted passages don't always match the DOM word for word,
+ * so fall back to the span between the first and last of its sentences that do match.
+ */
+const findRange = (index: TextIndex, markdown: string): Range | null => {
+  const text = stripMarkdown(markdown)
+  const needle = normalizeText(text)
+  if (needle.length < 3) return null
+
+  const exact = index.text.indexOf(needle)
+  if (exact !== -1) {
+    return toRange(index, exact, exact + needle.length)
+  }
+
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(normalizeText)
+    .filter(sentence => sentence.length >= MIN_ANCHOR_LENGTH)
+
+  let start = -1
+  let end = -1
+  for (const sentence of sentences) {
+    const position = index.text.indexOf(sentence, start === -1 ? 0 : start)
+    if (position === -1) continue
+    // Anchors that are far apart belong to different parts of the page
+    if (start !== -1 && position - start > needle.length * 2) break
+
+    if (start === -1) start = position
+    end = position + sentence.length
+  }
+
+  return start === -1 ? null : toRange(index, start, end)
+}
+
+const ensureHighlightStyle = () => {
+  if (document.getElementById(HIGHLIGHT_STYLE_ID)) return
+
+  const style = document.createElement('style')
+  style.id = HIGHLIGHT_STYLE_ID
+  style.textContent = `
+    ::highlight(${HIGHLIGHT_NAME}) {
+      background-color: rgba(250, 204, 21, 0.5);
+      color: inherit;
+    }
+  `
+  document.head.appendChild(style)
+}
+
+const clearHighlight = () => {
+  if ('highlights' in CSS) {
+    CSS.highlights.delete(HIGHLIGHT_NAME)
+  }
+}
+
+const highlightRange = (range: Range) => {
+  // The Custom Highlight API paints the range without touching the page's DOM
+  if ('highlights' in CSS) {
+    ensureHighlightStyle()
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range))
+  } else {
+    const selection = window.getSelection()
+    selection?.removeAllRanges()
+    selection?.addRange(range)
+  }
+
+  const element = range.startContainer.parentElement
+  element?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+
+  if (clearHighlightTimer !== null) {
+    window.clearTimeout(clearHighlightTimer)
+  }
+  clearHighlightTimer = window.setTimeout(clearHighlight, HIGHLIGHT_DURATION)
+}
+
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+  if (request.action === 'locatePassages') {
+    try {
+      const index = buildTextIndex()
+      const texts: string[] = request.data?.texts || []
+      sendResponse({ success: true, data: texts.map(text => findRange(index, text) !== null) })
+    } catch (error) {
+      console.error("Error locating passages:", error)
+      sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+    }
+    return true
+  }
+
+  if (request.action === 'highlightPassage') {
+    try {
+      const range = findRange(buildTextIndex(), request.data?.text || '')
+      if (range) {
+        highlightRange(range)
+      }
+      sendResponse({ success: !!range })
+    } catch (error) {
+      console.error("Error highlighting passage:", error)
+      sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) })
+    }
+    return true
+  }
+})
+
+export {}
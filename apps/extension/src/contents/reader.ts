@@ -0,0 +1,974 @@
+// apps/extension/src/contents/reader.ts
+// ** import types
+import type { PlasmoCSConfig } from "plasmo"
+import type { SimplificationLevel, OptimizationMode } from "@/api/chrome-ai/articles"
+import type { PageReadingMetrics, ReadingLevelChoice } from "@/utils/reading-metrics"
+import type { CachedSimplification } from "@/utils/simplification-cache"
+import type { PageRequest, PageResponse, PageResults, PageState, ReaderViewMode } from "@/utils/page-client"
+import type { DisplaySettings } from "@/utils/display-settings"
+
+// ** import utils
+import { streamSimplification } from "@/utils/simplify-client"
+import { alignParagraphs } from "@/utils/paragraph-alignment"
+import { computeReadingMetrics, loadReadingSettings, pickLevelForGrade } from "@/utils/reading-metrics"
+import { hashContent, hasReappliedSimplification } from "@/utils/simplification-cache"
+import { extractReadableContent, isInsidePageFurniture } from "@/utils/readability"
+import { DEFAULT_DISPLAY_SETTINGS, applyDisplaySettings, loadDisplaySettings } from "@/utils/display-settings"
+import { normalizeUrl } from "@/utils/url"
+
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  all_frames: false,
+  run_at: "document_idle"
+}
+
+// This content script runs the reader tools on every page: it simplifies the
+// article, replacing it section by section as the simplified text streams in,
+// and applies the display settings. The background and popup drive it with the
+// requests in utils/page-client.ts.
+
+export interface ImagePlaceholder {
+  id: string
+  src: string
+  alt: string
+  className: string
+  width: string
+  height: string
+  style: string
+}
+
+// A run of neighbouring blocks that is simplified, and replaced, as one piece
+interface ArticleSection {
+  blocks: HTMLElement[]
+  // Text of each block, as sent to the model
+  blockTexts: string[]
+  text: string
+  // Where the simplified version goes while it's being written, and after
+  container: HTMLElement | null
+  // Original and simplified next to each other, built for the split view
+  comparison: HTMLElement | null
+  simplifiedText: string
+  // Reverted sections were simplified, then put back by the user
+  status: 'pending' | 'streaming' | 'done' | 'reverted'
+}
+
+const VIEW_LABELS: Record<ReaderViewMode, string> = {
+  simplified: 'Simplified',
+  split: 'Side by side',
+  original: 'Original'
+}
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, figure, table'
+// Our own buttons and panels on the page
+const UI_SELECTOR = '[data-talktomytabs-ui], #talktomytabs-root'
+// Small sections show up sooner; big ones give the model more context
+const SECTION_CHARS = 2500
+const MIN_ARTICLE_CHARS = 100
+const STYLE_ID = 'talktomytabs-simplifier-style'
+
+// Classes for the comparison view and revert buttons; highlights follow the page's colours
+const SIMPLIFIER_CSS = `
+  [data-simplified-content] { position: relative; }
+  .ttmt-revert {
+    position: absolute; top: 0; right: 0; opacity: 0; transition: opacity 0.15s;
+    padding: 2px 8px; border-radius: 6px; border: 1px solid rgba(127,127,127,0.4);
+    background: inherit; color: inherit; font: 12px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    cursor: pointer;
+  }
+  [data-simplified-content]:hover > .ttmt-revert, .ttmt-compare:hover .ttmt-revert { opacity: 0.85; }
+  .ttmt-compare {
+    display: grid; grid-template-columns: 1fr 1fr; column-gap: 24px;
+    margin: 16px 0; padding-top: 8px; border-top: 1px solid rgba(127,127,127,0.25); position: relative;
+  }
+  .ttmt-compare-label {
+    font: 600 11px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    text-transform: uppercase; letter-spacing: 0.05em; opacity: 0.6; margin-bottom: 4px;
+  }
+  .ttmt-compare-cell { padding: 4px 8px; border-radius: 6px; transition: background-color 0.15s; min-width: 0; }
+  .ttmt-compare-cell.ttmt-highlight { background-color: rgba(59,130,246,0.12); box-shadow: inset 3px 0 0 rgba(59,130,246,0.6); }
+  .ttmt-compare-cell img { max-width: 100%; height: auto; }
+`
+
+class ArticleSimplifier {
+  private articleElement: Element | null = null
+  // The article element and any siblings that continue it
+  private articleParts: Element[] = []
+  private controlButton: HTMLButtonElement | null = null
+  private imageMap: Map<string, ImagePlaceholder> = new Map()
+  private sections: ArticleSection[] = []
+  private cancelStream: (() => void) | null = null
+  private viewMode: ReaderViewMode = 'simplified'
+  private controls: HTMLElement | null = null
+  private isSimplified: boolean = false
+  private level: SimplificationLevel = 'Low'
+  private mode: OptimizationMode = 'simplify-complex'
+  private isAutoLevel: boolean = false
+  // Of the sections as sent, to tell whether a saved copy still fits the page
+  private contentHash: string = ''
+  // Bumped whenever the page is read again or reset, so stale async work stops
+  private runId: number = 0
+
+  /**
+   * Find the article with the same scoring chat and saving use
+   * (utils/readability.ts), so every feature reads the same part of the page
+   */
+  findArticle(): void {
+    const { element, elements } = extractReadableContent(document)
+    this.articleElement = element
+    this.articleParts = elements
+  }
+
+  /**
+   * Outermost readable blocks of the article, in page order
+   */
+  findBlocks(): HTMLElement[] {
+    const candidates = this.articleParts
+      .flatMap(part => [
+        ...(part.matches(BLOCK_SELECTOR) ? [part as HTMLElement] : []),
+        ...Array.from(part.querySelectorAll<HTMLElement>(BLOCK_SELECTOR))
+          .filter(block => !isInsidePageFurniture(block, part))
+      ])
+      .filter(block => !block.closest(UI_SELECTOR))
+      .filter(block => (block.textContent || '').trim().length > 0 || block.querySelector('img'))
+
+    const selected = new Set<HTMLElement>()
+    return candidates.filter(block => {
+      // A paragraph inside a blockquote goes with its blockquote
+      for (let parent = block.parentElement; parent; parent = parent.parentElement) {
+        if (selected.has(parent)) return false
+      }
+      selected.add(block)
+      return true
+    })
+  }
+
+  /**
+   * Group blocks into sections, each carrying its text with image placeholders
+   */
+  buildSections(blocks: HTMLElement[]): ArticleSection[] {
+    const sections: ArticleSection[] = []
+    let current: HTMLElement[] = []
+    let currentText: string[] = []
+    let length = 0
+
+    const flush = () => {
+      if (current.length === 0) return
+      sections.push({
+        blocks: current,
+        blockTexts: currentText,
+        text: currentText.join('\n\n'),
+        container: null,
+        comparison: null,
+        simplifiedText: '',
+        status: 'pending'
+      })
+      current = []
+      currentText = []
+      length = 0
+    }
+
+    for (const block of blocks) {
+      const text = this.extractBlockText(block)
+      if (!text) continue
+
+      // Start a new section at headings, so each section reads on its own
+      if (length > 0 && (length + text.length > SECTION_CHARS || /^H[1-6]$/.test(block.tagName))) {
+        flush()
+      }
+
+      current.push(block)
+      currentText.push(text)
+      length += text.length
+    }
+    flush()
+
+    return sections
+  }
+
+  extractBlockText(block: HTMLElement): string {
+    const cloned = block.cloneNode(true) as HTMLElement
+
+    // Swap images for placeholders the model is told to keep
+    const originalImages = block.querySelectorAll('img')
+    cloned.querySelectorAll('img').forEach((img, index) => {
+      const placeholder = `[[IMG_${this.imageMap.size + 1}]]`
+      const original = originalImages[index]
+
+      // Get the computed style to preserve positioning
+      const computedStyle = window.getComputedStyle(original)
+      const relevantStyles = [
+        'display', 'float', 'margin', 'padding', 'width', 'height',
+        'max-width', 'max-height', 'border', 'border-radius'
+      ].filter(prop => computedStyle.getPropertyValue(prop))
+       .map(prop => `${prop}: ${computedStyle.getPropertyValue(prop)}`)
+       .join('; ')
+
+      this.imageMap.set(placeholder, {
+        id: placeholder,
+        src: img.src || img.getAttribute('data-src') || img.getAttribute('data-lazy-src') || '',
+        alt: img.alt || '',
+        className: img.className || '',
+        width: img.getAttribute('width') || '',
+        height: img.getAttribute('height') || '',
+        style: img.getAttribute('style') || relevantStyles
+      })
+
+      img.replaceWith(document.createTextNode(` ${placeholder} `))
+    })
+
+    const text = (cloned.textContent || '').replace(/\s+/g, ' ').trim()
+    const tagName = block.tagName.toLowerCase()
+
+    // Keep enough structure for the model to see headings and lists
+    if (/^h[1-6]$/.test(tagName)) {
+      return `${'#'.repeat(Number(tagName[1]))} ${text}`
+    }
+    if (tagName === 'ul' || tagName === 'ol') {
+      return Array.from(cloned.querySelectorAll('li'))
+        .map(item => `- ${(item.textContent || '').replace(/\s+/g, ' ').trim()}`)
+        .filter(item => item.length > 2)
+        .join('\n')
+    }
+    if (tagName === 'blockquote') {
+      return `> ${text}`
+    }
+    return text
+  }
+
+  reconstructHTML(simplifiedText: string): string {
+    // Store original styles from the article element
+    const originalStyles = this.getOriginalStyles()
+
+    // Put each known image placeholder on its own line, to become the image
+    const processedText = simplifiedText.replace(/\[\[IMG_\d+\]\]/g, placeholder =>
+      this.imageMap.has(placeholder) ? `\n\n${placeholder}\n\n` : placeholder
+    )
+
+    // Convert markdown-like formatting to HTML while preserving original structure
+    const paragraphs = processedText.split(/\n\n+/)
+    let html = ''
+
+    paragraphs.forEach(paragraph => {
+      const trimmed = paragraph.trim()
+      if (!trimmed) return
+
+      const imageData = this.imageMap.get(trimmed)
+      if (imageData) {
+        html += this.buildImageHTML(imageData) + '\n'
+      } else if (trimmed.startsWith('#')) {
+        // Handle headings
+        const match = trimmed.match(/^(#+)\s+(.+)/)
+        if (match) {
+          const level = Math.min(match[1].length, 6)
+          html += `<h${level}${originalStyles.heading}>${this.escapeHtml(match[2])}</h${level}>\n`
+        }
+      } else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+        // Handle lists
+        const items = trimmed.split('\n').filter((line: string) => line.trim())
+        html += `<ul${originalStyles.list}>\n`
+        items.forEach((item: string) => {
+          const text = item.replace(/^[-*]\s+/, '').trim()
+          html += `  <li${originalStyles.listItem}>${this.escapeHtml(text)}</li>\n`
+        })
+        html += '</ul>\n'
+      } else if (trimmed.match(/^\d+\.\s/)) {
+        // Handle numbered lists
+        const items = trimmed.split('\n').filter((line: string) => line.trim())
+        html += `<ol${originalStyles.list}>\n`
+        items.forEach((item: string) => {
+          const text = item.replace(/^\d+\.\s+/, '').trim()
+          html += `  <li${originalStyles.listItem}>${this.escapeHtml(text)}</li>\n`
+        })
+        html += '</ol>\n'
+      } else if (trimmed.startsWith('>')) {
+        // Handle blockquotes
+        const text = trimmed.substring(1).trim()
+        html += `<blockquote${originalStyles.blockquote}>${this.escapeHtml(text)}</blockquote>\n`
+      } else {
+        // Regular paragraph
+        html += `<p${originalStyles.paragraph}>${this.escapeHtml(trimmed)}</p>\n`
+      }
+    })
+
+    return html
+  }
+
+  buildImageHTML(imageData: ImagePlaceholder): string {
+    const attributes = [
+      `src="${this.escapeAttribute(imageData.src)}"`,
+      `alt="${this.escapeAttribute(imageData.alt)}"`,
+      imageData.className && `class="${this.escapeAttribute(imageData.className)}"`,
+      imageData.width && `width="${this.escapeAttribute(imageData.width)}"`,
+      imageData.height && `height="${this.escapeAttribute(imageData.height)}"`,
+      imageData.style && `style="${this.escapeAttribute(imageData.style)}"`
+    ].filter(Boolean)
+
+    return `<img ${attributes.join(' ')}>`
+  }
+
+  getOriginalStyles() {
+    if (!this.articleElement) return { paragraph: '', heading: '', list: '', listItem: '', blockquote: '' }
+
+    // Extract common styling patterns from original elements
+    const originalP = this.articleElement.querySelector('p')
+    const originalH = this.articleElement.querySelector('h1, h2, h3, h4, h5, h6')
+    const originalUl = this.articleElement.querySelector('ul')
+    const originalLi = this.articleElement.querySelector('li')
+    const originalBq = this.articleElement.querySelector('blockquote')
+
+    const toAttributes = (element: Element | null) =>
+      element ? ` class="${this.escapeAttribute(element.className)}" style="${this.escapeAttribute(element.getAttribute('style') || '')}"` : ''
+
+    return {
+      paragraph: toAttributes(originalP),
+      heading: toAttributes(originalH),
+      list: toAttributes(originalUl),
+      listItem: toAttributes(originalLi),
+      blockquote: toAttributes(originalBq)
+    }
+  }
+
+  escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML
+  }
+
+  escapeAttribute(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;')
+  }
+
+  /**
+   * Find the article and split it into sections, ready to simplify
+   */
+  prepareSections(): number {
+    const runId = ++this.runId
+    this.imageMap.clear()
+
+    this.findArticle()
+
+    this.sections = this.buildSections(this.findBlocks())
+    const totalLength = this.sections.reduce((sum, section) => sum + section.text.length, 0)
+    if (this.sections.length === 0 || totalLength < MIN_ARTICLE_CHARS) {
+      this.sections = []
+      throw new Error('Not enough content to simplify on this page')
+    }
+
+    this.contentHash = hashContent(this.sections.map(section => section.text).join('\n\n'))
+    return runId
+  }
+
+  /**
+   * Start simplifying the page. Returns once the sections are sent off; the
+   * page is then replaced section by section as the text streams in. A saved
+   * copy for the same settings is used instead, if the page hasn't changed.
+   *
+   * "Auto" picks the intensity from how far the article's grade level is
+   * above the target grade in Settings.
+   */
+  async simplify(
+    level: ReadingLevelChoice,
+    mode: OptimizationMode
+  ): Promise<{ sections: number; level: SimplificationLevel; fromCache: boolean }> {
+    if (this.isSimplified || this.cancelStream) {
+      this.reset()
+    }
+
+    const runId = this.prepareSections()
+    this.mode = mode
+    this.isAutoLevel = level === 'Auto'
+    if (level === 'Auto') {
+      const { targetGrade } = await loadReadingSettings()
+      const { gradeLevel } = computeReadingMetrics(this.sections.map(section => section.text).join('\n\n'))
+      this.level = pickLevelForGrade(gradeLevel, targetGrade)
+      console.log(`📏 Grade ${gradeLevel} against target ${targetGrade}: simplifying at ${this.level}`)
+    } else {
+      this.level = level
+    }
+
+    const cached = await this.sendCacheMessage<CachedSimplification>('getCachedSimplification', {
+      url: location.href,
+      level: this.level,
+      mode,
+      contentHash: this.contentHash
+    })
+    if (runId !== this.runId) {
+      throw new Error('Simplification was cancelled')
+    }
+
+    this.startView()
+
+    if (cached && cached.sections.length === this.sections.length) {
+      this.applySaved(cached)
+      return { sections: this.sections.length, level: this.level, fromCache: true }
+    }
+
+    this.cancelStream = streamSimplification(
+      {
+        label: `Simplify "${document.title || location.hostname}"`,
+        title: document.title || location.hostname,
+        sections: this.sections.map(section => section.text),
+        level: this.level,
+        mode
+      },
+      {
+        onChunk: (index, chunk) => this.appendToSection(index, chunk),
+        onSectionDone: (index, text) => this.finishSection(index, text),
+        onFinish: (error, stopped) => this.finishStream(error, stopped)
+      }
+    )
+
+    this.updateControls()
+    return { sections: this.sections.length, level: this.level, fromCache: false }
+  }
+
+  /**
+   * Put back the simplification saved for this page, when it's opened again
+   */
+  async reapplySaved(): Promise<void> {
+    const startRunId = this.runId
+    // Most pages have nothing saved, and then there's no need to wake the background
+    if (!(await hasReappliedSimplification(normalizeUrl(location.href)))) return
+
+    const saved = await this.sendCacheMessage<CachedSimplification>('getReappliedSimplification', {
+      url: location.href
+    })
+    // The user started simplifying in the meantime
+    if (!saved || this.runId !== startRunId) return
+
+    try {
+      this.prepareSections()
+    } catch {
+      this.sections = []
+      return
+    }
+
+    // The page text changed since, so the saved copy no longer fits
+    if (saved.contentHash !== this.contentHash || saved.sections.length !== this.sections.length) {
+      this.sections = []
+      this.articleElement = null
+      this.articleParts = []
+      this.imageMap.clear()
+      await this.sendCacheMessage('invalidateSimplifications', { url: location.href })
+      return
+    }
+
+    console.log(`💾 Reapplying saved ${saved.level} simplification`)
+    this.level = saved.level
+    this.mode = saved.mode
+    this.isAutoLevel = false
+    this.startView()
+    this.applySaved(saved)
+  }
+
+  // Mark the page as simplified, before any section is replaced
+  startView(): void {
+    // Mark the element as being simplified to preserve its identity
+    this.articleElement?.setAttribute('data-simplified', 'true')
+    this.isSimplified = true
+    this.viewMode = 'simplified'
+    this.injectStyles()
+  }
+
+  applySaved(saved: CachedSimplification): void {
+    saved.sections.forEach((text, index) => this.finishSection(index, text))
+    this.updateControls('Saved copy')
+  }
+
+  /**
+   * The cache lives in the extension's IndexedDB, so the background reads and
+   * writes it. A cache that can't be reached just means no saved copy.
+   */
+  async sendCacheMessage<T = void>(action: string, data: Record<string, unknown>): Promise<T | null> {
+    try {
+      const response = await chrome.runtime.sendMessage({ action, data })
+      return response?.success ? response.data ?? null : null
+    } catch (error) {
+      console.error(`Simplification cache (${action}) failed:`, error)
+      return null
+    }
+  }
+
+  injectStyles(): void {
+    if (document.getElementById(STYLE_ID)) return
+
+    const style = document.createElement('style')
+    style.id = STYLE_ID
+    style.textContent = SIMPLIFIER_CSS
+    document.head.appendChild(style)
+  }
+
+  appendToSection(index: number, chunk: string): void {
+    const section = this.sections[index]
+    if (!section || (section.status !== 'pending' && section.status !== 'streaming')) return
+
+    if (!section.container) {
+      // First text for this section: it takes the place of the original blocks
+      section.container = document.createElement('div')
+      section.container.setAttribute('data-simplified-content', 'true')
+      section.container.style.transition = 'opacity 0.2s'
+      section.blocks[0].parentNode?.insertBefore(section.container, section.blocks[0])
+    }
+
+    section.status = 'streaming'
+    section.simplifiedText += chunk
+    section.container.style.opacity = '0.75'
+    section.container.innerHTML = this.reconstructHTML(section.simplifiedText)
+    this.renderSection(section)
+  }
+
+  finishSection(index: number, text: string): void {
+    const section = this.sections[index]
+    if (!section || section.status === 'reverted') return
+
+    // The model gave nothing back, so the original stays
+    if (!text.replace(/\[\[IMG_\d+\]\]/g, '').trim()) {
+      this.restoreSection(section)
+      section.status = 'done'
+      this.updateControls()
+      return
+    }
+
+    // Nothing streamed for this section, but it still gets its final text
+    if (!section.container) {
+      this.appendToSection(index, '')
+    }
+
+    section.status = 'done'
+    section.simplifiedText = text
+    if (section.container) {
+      section.container.style.opacity = ''
+      section.container.innerHTML = this.reconstructHTML(text)
+      section.container.appendChild(this.createRevertButton(section))
+    }
+    this.renderSection(section)
+    this.updateControls()
+  }
+
+  finishStream(error: Error | null, stopped: boolean): void {
+    this.cancelStream = null
+    // Reset already put the page back
+    if (!this.isSimplified) return
+
+    // Anything not finished goes back to the original text
+    this.sections
+      .filter(section => section.status === 'pending' || section.status === 'streaming')
+      .forEach(section => this.restoreSection(section))
+
+    if (error) {
+      console.error('Simplification failed:', error)
+    }
+
+    // Only a complete simplification is worth putting back next time
+    if (!error && !stopped) {
+      this.sendCacheMessage('saveSimplification', {
+        url: location.href,
+        title: document.title || location.hostname,
+        level: this.level,
+        mode: this.mode,
+        contentHash: this.contentHash,
+        sections: this.sections.map(section => section.simplifiedText)
+      })
+    }
+
+    if (!this.sections.some(section => section.status === 'done' || section.status === 'reverted')) {
+      this.reset()
+      if (error) this.showError(error.message)
+      return
+    }
+
+    this.updateControls(stopped ? 'Stopped' : error ? 'Partly simplified' : undefined)
+  }
+
+  /**
+   * Show a section the way the current view asks for: the simplified text,
+   * the original, or both side by side once it's finished
+   */
+  renderSection(section: ArticleSection): void {
+    const hasSimplified = section.container !== null && section.status !== 'reverted'
+    const showSplit = hasSimplified && this.viewMode === 'split' && section.status === 'done'
+    const showSimplified = hasSimplified && this.viewMode !== 'original' && !showSplit
+
+    if (showSplit && !section.comparison) {
+      section.comparison = this.buildComparison(section)
+      section.container!.parentNode?.insertBefore(section.comparison, section.container)
+    } else if (!showSplit && section.comparison) {
+      section.comparison.remove()
+      section.comparison = null
+    }
+
+    if (section.container) {
+      section.container.style.display = showSimplified ? '' : 'none'
+    }
+
+    const hideOriginal = showSplit || showSimplified
+    section.blocks.forEach(block => {
+      if (hideOriginal) {
+        block.style.display = 'none'
+        block.setAttribute('data-original-simplified', 'true')
+      } else if (block.hasAttribute('data-original-simplified')) {
+        block.style.display = ''
+        block.removeAttribute('data-original-simplified')
+      }
+    })
+  }
+
+  /**
+   * Original blocks on the left and simplified paragraphs on the right, row by
+   * row, so hovering either side highlights its counterpart
+   */
+  buildComparison(section: ArticleSection): HTMLElement {
+    const comparison = document.createElement('div')
+    comparison.className = 'ttmt-compare'
+    comparison.setAttribute('data-simplified-comparison', 'true')
+
+    const addLabel = (text: string) => {
+      const label = document.createElement('div')
+      label.className = 'ttmt-compare-label'
+      label.textContent = text
+      comparison.appendChild(label)
+    }
+    addLabel('Original')
+    addLabel('Simplified')
+
+    const paragraphs = section.simplifiedText
+      .replace(/\[\[IMG_\d+\]\]/g, placeholder => `\n\n${placeholder}\n\n`)
+      .split(/\n\n+/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+
+    for (const row of alignParagraphs(section.blockTexts, paragraphs)) {
+      const original = document.createElement('div')
+      original.className = 'ttmt-compare-cell'
+      row.source.forEach(i => {
+        const clone = section.blocks[i].cloneNode(true) as HTMLElement
+        clone.style.display = ''
+        clone.removeAttribute('data-original-simplified')
+        original.appendChild(clone)
+      })
+
+      const simplified = document.createElement('div')
+      simplified.className = 'ttmt-compare-cell'
+      simplified.innerHTML = this.reconstructHTML(row.output.map(j => paragraphs[j]).join('\n\n'))
+
+      const highlight = (on: boolean) => {
+        original.classList.toggle('ttmt-highlight', on)
+        simplified.classList.toggle('ttmt-highlight', on)
+      }
+      for (const cell of [original, simplified]) {
+        cell.addEventListener('mouseenter', () => highlight(true))
+        cell.addEventListener('mouseleave', () => highlight(false))
+      }
+
+      comparison.append(original, simplified)
+    }
+
+    comparison.appendChild(this.createRevertButton(section))
+    return comparison
+  }
+
+  createRevertButton(section: ArticleSection): HTMLButtonElement {
+    const button = document.createElement('button')
+    button.className = 'ttmt-revert'
+    button.setAttribute('data-talktomytabs-ui', 'true')
+    button.textContent = 'Show original'
+    button.title = 'Put this section back the way it was'
+    button.addEventListener('click', (event) => {
+      event.preventDefault()
+      event.stopPropagation()
+      this.revertSection(section)
+    })
+    return button
+  }
+
+  /**
+   * Put one finished section back to the original text
+   */
+  revertSection(section: ArticleSection): void {
+    if (section.status !== 'done') return
+
+    section.comparison?.remove()
+    section.comparison = null
+    section.container?.remove()
+    section.container = null
+    section.status = 'reverted'
+    this.renderSection(section)
+    this.updateControls()
+  }
+
+  restoreSection(section: ArticleSection): void {
+    section.comparison?.remove()
+    section.comparison = null
+    section.container?.remove()
+    section.container = null
+    section.simplifiedText = ''
+    section.status = 'pending'
+    section.blocks.forEach(block => {
+      block.style.display = ''
+      block.removeAttribute('data-original-simplified')
+    })
+  }
+
+  setViewMode(mode: ReaderViewMode): void {
+    this.viewMode = mode
+    this.sections.forEach(section => this.renderSection(section))
+    this.updateControls()
+  }
+
+  /**
+   * Readability before and after, over the sections that are simplified now
+   */
+  getReadingMetrics(): PageReadingMetrics | null {
+    const simplified = this.sections.filter(section => section.status === 'done' && section.container)
+    if (simplified.length === 0) return null
+
+    return {
+      original: computeReadingMetrics(simplified.map(section => section.text).join('\n\n')),
+      simplified: computeReadingMetrics(simplified.map(section => section.simplifiedText).join('\n\n')),
+      level: this.level,
+      isAuto: this.isAutoLevel,
+      isComplete: this.cancelStream === null
+    }
+  }
+
+  getState(): Omit<PageState, 'displaySettings'> {
+    return {
+      isSimplified: this.isSimplified,
+      isSimplifying: this.cancelStream !== null,
+      level: this.isSimplified ? this.level : null,
+      mode: this.isSimplified ? this.mode : null,
+      viewMode: this.viewMode,
+      sections: this.sections.length,
+      finishedSections: this.sections.filter(section => section.status === 'done' || section.status === 'reverted').length,
+      readingMetrics: this.getReadingMetrics()
+    }
+  }
+
+  cancel(): void {
+    this.cancelStream?.()
+  }
+
+  updateControls(note?: string): void {
+    if (!this.controls) {
+      this.createControls()
+    }
+    if (!this.controls || !this.controlButton) return
+
+    const finished = this.sections.filter(section => section.status === 'done' || section.status === 'reverted').length
+    const label = this.cancelStream
+      ? `Stop simplifying (${finished}/${this.sections.length})`
+      : note ? `Reset Article · ${note}` : 'Reset Article'
+
+    const icon = this.cancelStream
+      ? '<rect x="6" y="6" width="12" height="12" rx="2"/>'
+      : `<path d="M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8"/>
+        <path d="M21 3v5h-5"/>
+        <path d="M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16"/>
+        <path d="M3 21v-5h5"/>`
+
+    this.controlButton.innerHTML = `
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        ${icon}
+      </svg>
+      <span></span>
+    `
+    this.controlButton.querySelector('span')!.textContent = label
+
+    // Views only make sense once something has been simplified
+    const viewToggle = this.controls.querySelector<HTMLElement>('[data-view-toggle]')
+    if (viewToggle) {
+      viewToggle.style.display = this.sections.some(section => section.status === 'done') ? 'flex' : 'none'
+      viewToggle.querySelectorAll<HTMLButtonElement>('button').forEach(button => {
+        const isActive = button.dataset.view === this.viewMode
+        button.style.opacity = isActive ? '1' : '0.6'
+        button.style.fontWeight = isActive ? '600' : '400'
+      })
+    }
+  }
+
+  createControls(): void {
+    // Detect if the site has dark mode
+    const isDarkMode = window.getComputedStyle(document.body).backgroundColor === 'rgb(0, 0, 0)' ||
+                     document.documentElement.classList.contains('dark') ||
+                     document.body.classList.contains('dark') ||
+                     window.getComputedStyle(document.body).color === 'rgb(255, 255, 255)'
+
+    const surface = `
+      background-color: ${isDarkMode ? '#374151' : '#ffffff'};
+      color: ${isDarkMode ? '#ffffff' : '#374151'};
+      border: 1px solid ${isDarkMode ? '#4b5563' : '#d1d5db'};
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    `
+
+    this.controls = document.createElement('div')
+    this.controls.setAttribute('data-talktomytabs-ui', 'true')
+    this.controls.style.cssText = `
+      position: fixed;
+      bottom: 20px;
+      right: 20px;
+      z-index: 9999;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-end;
+      gap: 8px;
+    `
+
+    // Simplified / side by side / original
+    const viewToggle = document.createElement('div')
+    viewToggle.setAttribute('data-view-toggle', 'true')
+    viewToggle.style.cssText = `${surface} display: none; padding: 4px; gap: 2px;`
+    for (const view of Object.keys(VIEW_LABELS) as ReaderViewMode[]) {
+      const button = document.createElement('button')
+      button.dataset.view = view
+      button.textContent = VIEW_LABELS[view]
+      button.style.cssText = `
+        padding: 6px 10px;
+        background: none;
+        color: inherit;
+        border: none;
+        border-radius: 6px;
+        font-size: 12px;
+        cursor: pointer;
+      `
+      button.addEventListener('click', () => this.setViewMode(view))
+      viewToggle.appendChild(button)
+    }
+
+    this.controlButton = document.createElement('button')
+    this.controlButton.style.cssText = `
+      ${surface}
+      padding: 12px 16px;
+      font-size: 14px;
+      font-weight: 500;
+      cursor: pointer;
+      transition: all 0.2s;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    `
+
+    // Stops while streaming, resets once finished
+    this.controlButton.addEventListener('click', () => {
+      if (this.cancelStream) {
+        this.cancel()
+      } else {
+        this.reset()
+      }
+    })
+    this.controlButton.addEventListener('mouseenter', () => {
+      if (this.controlButton) {
+        this.controlButton.style.transform = 'scale(1.05)'
+        this.controlButton.style.boxShadow = '0 6px 16px rgba(0,0,0,0.2)'
+      }
+    })
+    this.controlButton.addEventListener('mouseleave', () => {
+      if (this.controlButton) {
+        this.controlButton.style.transform = 'scale(1)'
+        this.controlButton.style.boxShadow = '0 4px 12px rgba(0,0,0,0.15)'
+      }
+    })
+
+    this.controls.append(viewToggle, this.controlButton)
+    document.body.appendChild(this.controls)
+  }
+
+  showError(message: string): void {
+    this.updateControls()
+    if (!this.controlButton) return
+
+    this.controlButton.querySelector('span')!.textContent = `Could not simplify: ${message}`
+    setTimeout(() => this.removeControls(), 5000)
+  }
+
+  removeControls(): void {
+    if (this.controls) {
+      this.controls.remove()
+      this.controls = null
+      this.controlButton = null
+    }
+  }
+
+  reset(): void {
+    // A page reset by hand stays original on the next visit too
+    if (this.isSimplified) {
+      this.sendCacheMessage('stopReapplyingSimplification', { url: location.href })
+    }
+
+    this.isSimplified = false
+    this.runId++
+
+    // Stop first, so no more text lands in the page
+    const cancelStream = this.cancelStream
+    this.cancelStream = null
+    cancelStream?.()
+
+    this.sections.forEach(section => this.restoreSection(section))
+    this.sections = []
+
+    if (this.articleElement) {
+      // Remove the simplified marker
+      this.articleElement.removeAttribute('data-simplified')
+      this.articleElement = null
+      this.articleParts = []
+    }
+
+    this.removeControls()
+    document.getElementById(STYLE_ID)?.remove()
+    this.imageMap.clear()
+  }
+
+}
+
+// Initialize simplifier
+const simplifier = new ArticleSimplifier()
+simplifier.reapplySaved()
+
+// Display settings the page currently has, reported back in getState
+let displaySettings: DisplaySettings = DEFAULT_DISPLAY_SETTINGS
+let hasDisplayRequest = false
+
+// Saved settings apply to every page, unless the popup already sent newer ones
+loadDisplaySettings().then(settings => {
+  if (hasDisplayRequest) return
+  displaySettings = settings
+  applyDisplaySettings(settings)
+})
+
+const PAGE_ACTIONS: PageRequest['action'][] = ['simplify', 'reset', 'applyDisplay', 'getState']
+
+const handleRequest = async (request: PageRequest): Promise<PageResults[PageRequest['action']]> => {
+  switch (request.action) {
+    case 'simplify':
+      return simplifier.simplify(request.level, request.mode)
+
+    case 'reset':
+      simplifier.reset()
+      return
+
+    case 'applyDisplay':
+      hasDisplayRequest = true
+      displaySettings = request.displaySettings
+      applyDisplaySettings(displaySettings)
+      return
+
+    case 'getState':
+      return { ...simplifier.getState(), displaySettings }
+  }
+}
+
+// Requests from the background and popup
+chrome.runtime.onMessage.addListener((message: PageRequest, sender, sendResponse) => {
+  if (!PAGE_ACTIONS.includes(message?.action)) return false
+
+  handleRequest(message)
+    .then(data => sendResponse({ success: true, data } as PageResponse<typeof data>))
+    .catch(error => {
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      } satisfies PageResponse<never>)
+    })
+  return true
+})
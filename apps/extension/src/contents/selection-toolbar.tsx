@@ -0,0 +1,338 @@
+// apps/extension/src/contents/selection-toolbar.tsx
+// ** import types
+import type { PlasmoCSConfig } from "plasmo"
+import type { SelectionAction } from "@/api/chrome-ai/selection"
+import type { EditableTarget, TextField } from "@/utils/editable"
+
+// ** import core packages
+import React, { useState, useEffect, useRef } from "react"
+import { createRoot } from "react-dom/client"
+import {
+  Lightbulb,
+  BookOpen,
+  Briefcase,
+  Smile,
+  Minimize2,
+  Maximize2,
+  Copy,
+  Check,
+  Replace,
+  X,
+  Loader
+} from "lucide-react"
+
+// ** import utils
+import { replaceEditableText, isInsideExtensionUi } from "@/utils/editable"
+import { useContentTheme } from "@/hooks/useContentTheme"
+
+// ** import styles
+import "@/styles/selection-toolbar.css"
+
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  all_frames: false,
+  run_at: "document_idle"
+}
+
+const ROOT_ID = "talktomytabs-selection-root"
+const MIN_SELECTION_LENGTH = 2
+const MAX_SELECTION_LENGTH = 4000
+const MAX_PARAGRAPH_LENGTH = 1500
+const TOOLBAR_OFFSET = 44
+const EDGE_MARGIN = 170
+
+const TEXT_INPUT_TYPES = new Set(["text", "search", "email", "url", ""])
+
+const ACTIONS: { id: SelectionAction; label: string; icon: typeof Lightbulb }[] = [
+  { id: "explain", label: "Explain", icon: Lightbulb },
+  { id: "define", label: "Define", icon: BookOpen },
+  { id: "rewrite-formal", label: "Formal", icon: Briefcase },
+  { id: "rewrite-casual", label: "Casual", icon: Smile },
+  { id: "shorten", label: "Shorten", icon: Minimize2 },
+  { id: "expand", label: "Expand", icon: Maximize2 }
+]
+
+// Explain and Define describe the text; only rewrites can stand in for it
+const REPLACEABLE_ACTIONS = new Set<SelectionAction>(["rewrite-formal", "rewrite-casual", "shorten", "expand"])
+
+interface PageSelection {
+  text: string
+  paragraph: string
+  rect: { top: number; bottom: number; left: number; width: number }
+  target: EditableTarget | null
+}
+
+interface ActionResult {
+  action: SelectionAction
+  status: "loading" | "done" | "error"
+  text: string
+}
+
+const isTextField = (element: Element | null): element is TextField => {
+  if (element instanceof HTMLTextAreaElement) return true
+  return element instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(element.type)
+}
+
+const getParagraph = (node: Node): string => {
+  const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element
+  const block = element?.closest("p, li, blockquote, dd, td, pre, h1, h2, h3, h4, h5, h6, section, article, div")
+  return (block?.textContent || "").replace(/\s+/g, " ").trim().slice(0, MAX_PARAGRAPH_LENGTH)
+}
+
+const readSelection = (): PageSelection | null => {
+  const active = document.activeElement
+
+  // Selections inside inputs and textareas aren't exposed through window.getSelection()
+  if (isTextField(active)) {
+    const start = active.selectionStart ?? 0
+    const end = active.selectionEnd ?? 0
+    const text = active.value.slice(start, end)
+    if (text.trim().length < MIN_SELECTION_LENGTH) return null
+
+    const { top, bottom, left, width } = active.getBoundingClientRect()
+    return {
+      text,
+      paragraph: active.value.slice(Math.max(0, start - MAX_PARAGRAPH_LENGTH / 2), end + MAX_PARAGRAPH_LENGTH / 2),
+      rect: { top, bottom, left, width },
+      target: { kind: "field", element: active, start, end }
+    }
+  }
+
+  const selection = window.getSelection()
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null
+
+  const text = selection.toString()
+  if (text.trim().length < MIN_SELECTION_LENGTH) return null
+
+  const range = selection.getRangeAt(0)
+  const { top, bottom, left, width } = range.getBoundingClientRect()
+  const container = range.commonAncestorContainer
+  const element = container.nodeType === Node.TEXT_NODE ? container.parentElement : container as HTMLElement
+
+  return {
+    text,
+    paragraph: getParagraph(container),
+    rect: { top, bottom, left, width },
+    target: element?.isContentEditable
+      ? { kind: "contenteditable", element, range: range.cloneRange() }
+      : null
+  }
+}
+
+const SelectionToolbar = () => {
+  const [selection, setSelection] = useState<PageSelection | null>(null)
+  const [result, setResult] = useState<ActionResult | null>(null)
+  const [copied, setCopied] = useState(false)
+  // Ignore responses for actions the user has since dismissed
+  const requestIdRef = useRef(0)
+
+  useContentTheme(ROOT_ID)
+
+  useEffect(() => {
+    const dismiss = () => {
+      requestIdRef.current++
+      setSelection(null)
+      setResult(null)
+      setCopied(false)
+    }
+
+    const handleSelectionEnd = (e: MouseEvent | KeyboardEvent) => {
+      if (isInsideExtensionUi(e.target)) return
+      if (e instanceof KeyboardEvent && !e.shiftKey) return
+
+      // Wait for the browser to finish updating the selection
+      setTimeout(() => {
+        const next = readSelection()
+        if (!next || next.text.length > MAX_SELECTION_LENGTH) return
+
+        requestIdRef.current++
+        setResult(null)
+        setCopied(false)
+        setSelection(next)
+      }, 0)
+    }
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!isInsideExtensionUi(e.target)) dismiss()
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") dismiss()
+    }
+
+    // The toolbar is positioned against the viewport, so it goes stale on scroll
+    const handleScroll = () => {
+      setSelection(current => current && !result ? null : current)
+    }
+
+    document.addEventListener("mouseup", handleSelectionEnd)
+    document.addEventListener("keyup", handleSelectionEnd)
+    document.addEventListener("mousedown", handleMouseDown)
+    document.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("scroll", handleScroll, true)
+
+    return () => {
+      document.removeEventListener("mouseup", handleSelectionEnd)
+      document.removeEventListener("keyup", handleSelectionEnd)
+      document.removeEventListener("mousedown", handleMouseDown)
+      document.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("scroll", handleScroll, true)
+    }
+  }, [result])
+
+  const handleAction = async (action: SelectionAction) => {
+    if (!selection) return
+
+    const requestId = ++requestIdRef.current
+    setCopied(false)
+    setResult({ action, status: "loading", text: "" })
+
+    try {
+      if (!chrome.runtime?.id) {
+        throw new Error("Extension was updated. Please reload this page to use TalkToMyTabs.")
+      }
+
+      const response = await chrome.runtime.sendMessage({
+        action: "runSelectionAction",
+        data: { action, text: selection.text, paragraph: selection.paragraph }
+      })
+      if (requestId !== requestIdRef.current) return
+
+      if (response?.success) {
+        setResult({ action, status: "done", text: response.data })
+      } else {
+        setResult({ action, status: "error", text: response?.error || "Something went wrong" })
+      }
+    } catch (error) {
+      console.error("Error running selection action:", error)
+      if (requestId !== requestIdRef.current) return
+      setResult({ action, status: "error", text: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!result) return
+    try {
+      await navigator.clipboard.writeText(result.text)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      console.error("Error copying result:", error)
+    }
+  }
+
+  const handleReplace = () => {
+    if (!selection?.target || !result) return
+    try {
+      replaceEditableText(selection.target, result.text)
+    } catch (error) {
+      console.error("Error replacing selection:", error)
+    }
+    setSelection(null)
+    setResult(null)
+  }
+
+  const handleClose = () => {
+    requestIdRef.current++
+    setSelection(null)
+    setResult(null)
+  }
+
+  if (!selection) return null
+
+  // Keep focus and the page selection where they are while clicking the toolbar
+  const keepSelection = (e: React.MouseEvent) => e.preventDefault()
+
+  const { rect } = selection
+  const placeBelow = rect.top < TOOLBAR_OFFSET + 8
+  const left = Math.min(
+    Math.max(rect.left + rect.width / 2, EDGE_MARGIN),
+    window.innerWidth - EDGE_MARGIN
+  )
+  const top = placeBelow ? rect.bottom + 8 : rect.top - TOOLBAR_OFFSET
+  const canReplace = !!selection.target && !!result && result.status === "done" && REPLACEABLE_ACTIONS.has(result.action)
+  const activeLabel = ACTIONS.find(action => action.id === result?.action)?.label
+
+  return (
+    <div
+      className="selection-toolbar-anchor"
+      style={{ top: `${top}px`, left: `${left}px` }}
+      onMouseDown={keepSelection}
+    >
+      <div className="selection-toolbar">
+        {ACTIONS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            className={`toolbar-btn ${result?.action === id ? "active" : ""}`}
+            onClick={() => handleAction(id)}
+            disabled={result?.status === "loading"}
+            title={label}
+          >
+            <Icon />
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {result && (
+        <div className="selection-popover">
+          <div className="popover-header">
+            <span>{activeLabel}</span>
+            <button className="icon-btn" onClick={handleClose} title="Close">
+              <X />
+            </button>
+          </div>
+
+          {result.status === "loading" ? (
+            <div className="popover-loading">
+              <Loader className="animate-spin" />
+              <span>Working on it…</span>
+            </div>
+          ) : (
+            <div className={`popover-body ${result.status === "error" ? "error" : ""}`}>
+              {result.text}
+            </div>
+          )}
+
+          {result.status === "done" && (
+            <div className="popover-actions">
+              <button className="popover-btn" onClick={handleCopy}>
+                {copied ? <Check /> : <Copy />}
+                <span>{copied ? "Copied" : "Copy"}</span>
+              </button>
+              {canReplace && (
+                <button className="popover-btn primary" onClick={handleReplace}>
+                  <Replace />
+                  <span>Replace</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const mountSelectionToolbar = () => {
+  if ((window as any).__talktomytabs_selection_injected || document.getElementById(ROOT_ID)) return
+
+  const container = document.createElement("div")
+  container.id = ROOT_ID
+  container.setAttribute("data-talktomytabs-ui", "true")
+  container.setAttribute("data-theme", localStorage.getItem("theme") || "light")
+  document.body.appendChild(container)
+
+  createRoot(container).render(<SelectionToolbar />)
+  ;(window as any).__talktomytabs_selection_injected = true
+}
+
+if (typeof window !== "undefined") {
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountSelectionToolbar, { once: true })
+  } else {
+    mountSelectionToolbar()
+  }
+}
+
+export { SelectionToolbar }
@@ -0,0 +1,344 @@
+// apps/extension/src/contents/writing-assistant.tsx
+// ** import types
+import type { PlasmoCSConfig } from "plasmo"
+import type { WritingAction } from "@/api/chrome-ai/writing"
+import type { EditableTarget } from "@/utils/editable"
+import type { DiffPart } from "@/utils/diff"
+
+// ** import core packages
+import React, { useState, useEffect, useRef } from "react"
+import { createRoot } from "react-dom/client"
+import { Sparkles, MessageSquareReply, Briefcase, Smile, SpellCheck, Check, X, Loader } from "lucide-react"
+
+// ** import utils
+import { replaceEditableText, isInsideExtensionUi } from "@/utils/editable"
+import { diffWords } from "@/utils/diff"
+import { extractPageContent } from "@/utils/contentExtractor"
+import { useContentTheme } from "@/hooks/useContentTheme"
+
+// ** import styles
+import "@/styles/writing-assistant.css"
+
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  all_frames: false,
+  run_at: "document_idle"
+}
+
+const ROOT_ID = "talktomytabs-writing-root"
+// Fields smaller than this are search boxes and the like, not somewhere to write
+const MIN_FIELD_WIDTH = 160
+const MIN_FIELD_HEIGHT = 40
+const PREVIEW_WIDTH = 420
+const PREVIEW_GAP = 8
+
+const ACTIONS: { id: WritingAction; label: string; icon: typeof Sparkles }[] = [
+  { id: "draft-reply", label: "Draft reply from page", icon: MessageSquareReply },
+  { id: "rewrite-formal", label: "Make it formal", icon: Briefcase },
+  { id: "rewrite-casual", label: "Make it casual", icon: Smile },
+  { id: "fix-grammar", label: "Fix grammar", icon: SpellCheck }
+]
+
+interface Suggestion {
+  action: WritingAction
+  target: EditableTarget
+  original: string
+  status: "loading" | "done" | "error"
+  text: string
+}
+
+// Find the field a focused element belongs to: a textarea or the outermost contenteditable
+const getWritableField = (element: Element | null): HTMLElement | null => {
+  if (!element || isInsideExtensionUi(element)) return null
+
+  if (element instanceof HTMLTextAreaElement) {
+    return element.readOnly || element.disabled ? null : element
+  }
+
+  if (element instanceof HTMLElement && element.isContentEditable) {
+    let host = element
+    while (host.parentElement?.isContentEditable) {
+      host = host.parentElement
+    }
+    return host
+  }
+
+  return null
+}
+
+// Act on the selected part of the field, or all of it when nothing is selected
+const captureTarget = (field: HTMLElement, action: WritingAction): { target: EditableTarget; text: string } => {
+  if (field instanceof HTMLTextAreaElement) {
+    const hasSelection = field.selectionStart !== field.selectionEnd && action !== "draft-reply"
+    const start = hasSelection ? field.selectionStart : 0
+    const end = hasSelection ? field.selectionEnd : field.value.length
+    return {
+      target: { kind: "field", element: field, start, end },
+      text: field.value.slice(start, end)
+    }
+  }
+
+  const selection = window.getSelection()
+  if (
+    action !== "draft-reply" &&
+    selection &&
+    !selection.isCollapsed &&
+    selection.rangeCount > 0 &&
+    field.contains(selection.getRangeAt(0).commonAncestorContainer)
+  ) {
+    const range = selection.getRangeAt(0).cloneRange()
+    return { target: { kind: "contenteditable", element: field, range }, text: range.toString() }
+  }
+
+  const range = document.createRange()
+  range.selectNodeContents(field)
+  return { target: { kind: "contenteditable", element: field, range }, text: field.innerText }
+}
+
+const DiffPreview = ({ parts }: { parts: DiffPart[] }) => (
+  <div className="diff-preview">
+    {parts.map((part, index) => (
+      <span key={index} className={`diff-${part.type}`}>
+        {part.text}
+      </span>
+    ))}
+  </div>
+)
+
+const WritingAssistant = () => {
+  const [field, setField] = useState<HTMLElement | null>(null)
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null)
+  // Re-render when the page scrolls or the field resizes, so the overlay follows it
+  const [, setLayoutVersion] = useState(0)
+  // Ignore responses for suggestions the user has since discarded
+  const requestIdRef = useRef(0)
+  // The document listeners are attached once, so they read the latest state through refs
+  const fieldRef = useRef<HTMLElement | null>(null)
+  const suggestionRef = useRef<Suggestion | null>(null)
+  fieldRef.current = field
+  suggestionRef.current = suggestion
+
+  useContentTheme(ROOT_ID)
+
+  useEffect(() => {
+    const handleFocusIn = (e: FocusEvent) => {
+      if (isInsideExtensionUi(e.target)) return
+
+      const next = getWritableField(e.target as Element)
+      if (!next) return
+
+      const { width, height } = next.getBoundingClientRect()
+      if (width < MIN_FIELD_WIDTH || height < MIN_FIELD_HEIGHT) return
+
+      if (next !== fieldRef.current) {
+        requestIdRef.current++
+        setIsMenuOpen(false)
+        setSuggestion(null)
+        setField(next)
+      }
+    }
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (isInsideExtensionUi(e.target)) return
+      setIsMenuOpen(false)
+
+      // Clicking elsewhere on the page puts the assistant away, unless a suggestion is waiting
+      if (!suggestionRef.current && !getWritableField(e.target as Element)) {
+        setField(null)
+      }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return
+      requestIdRef.current++
+      setIsMenuOpen(false)
+      setSuggestion(null)
+    }
+
+    const handleLayoutChange = () => setLayoutVersion(version => version + 1)
+
+    document.addEventListener("focusin", handleFocusIn)
+    document.addEventListener("mousedown", handleMouseDown)
+    document.addEventListener("keydown", handleKeyDown)
+    document.addEventListener("input", handleLayoutChange)
+    window.addEventListener("scroll", handleLayoutChange, true)
+    window.addEventListener("resize", handleLayoutChange)
+
+    return () => {
+      document.removeEventListener("focusin", handleFocusIn)
+      document.removeEventListener("mousedown", handleMouseDown)
+      document.removeEventListener("keydown", handleKeyDown)
+      document.removeEventListener("input", handleLayoutChange)
+      window.removeEventListener("scroll", handleLayoutChange, true)
+      window.removeEventListener("resize", handleLayoutChange)
+    }
+  }, [])
+
+  const handleAction = async (action: WritingAction) => {
+    if (!field) return
+
+    const { target, text } = captureTarget(field, action)
+    const requestId = ++requestIdRef.current
+    setIsMenuOpen(false)
+    setSuggestion({ action, target, original: text, status: "loading", text: "" })
+
+    try {
+      if (!chrome.runtime?.id) {
+        throw new Error("Extension was updated. Please reload this page to use TalkToMyTabs.")
+      }
+
+      // Only drafting a reply needs to know what the page is about
+      const page = action === "draft-reply" ? extractPageContent() : null
+      const response = await chrome.runtime.sendMessage({
+        action: "runWritingAction",
+        data: {
+          action,
+          input: { text, pageTitle: page?.title, pageContent: page?.content }
+        }
+      })
+      if (requestId !== requestIdRef.current) return
+
+      setSuggestion(current => current && {
+        ...current,
+        status: response?.success ? "done" : "error",
+        text: response?.success ? response.data : response?.error || "Something went wrong"
+      })
+    } catch (error) {
+      console.error("Error running writing action:", error)
+      if (requestId !== requestIdRef.current) return
+      setSuggestion(current => current && {
+        ...current,
+        status: "error",
+        text: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  const handleApply = () => {
+    if (!suggestion || suggestion.status !== "done") return
+    try {
+      replaceEditableText(suggestion.target, suggestion.text)
+    } catch (error) {
+      console.error("Error applying suggestion:", error)
+    }
+    setSuggestion(null)
+  }
+
+  const handleDiscard = () => {
+    requestIdRef.current++
+    setSuggestion(null)
+    field?.focus()
+  }
+
+  if (!field || !field.isConnected) return null
+
+  // Keep focus in the field while clicking the assistant
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault()
+
+  const rect = field.getBoundingClientRect()
+  const previewWidth = Math.min(PREVIEW_WIDTH, window.innerWidth - PREVIEW_GAP * 2)
+  const previewLeft = Math.min(Math.max(rect.left, PREVIEW_GAP), window.innerWidth - previewWidth - PREVIEW_GAP)
+  // Open the preview on whichever side of the field has more room
+  const previewAbove = rect.top > window.innerHeight - rect.bottom
+  const activeLabel = ACTIONS.find(action => action.id === suggestion?.action)?.label
+
+  return (
+    <div onMouseDown={keepFocus}>
+      <div
+        className="writing-trigger"
+        style={{ top: `${rect.bottom - 36}px`, left: `${rect.right - 36}px` }}
+      >
+        <button
+          className={`trigger-btn ${isMenuOpen ? "active" : ""}`}
+          onClick={() => setIsMenuOpen(open => !open)}
+          title="Writing assistant"
+        >
+          <Sparkles />
+        </button>
+
+        {isMenuOpen && (
+          <div className="writing-menu">
+            {ACTIONS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                className="menu-item"
+                onClick={() => handleAction(id)}
+                disabled={suggestion?.status === "loading"}
+              >
+                <Icon />
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {suggestion && (
+        <div
+          className="writing-preview"
+          style={{
+            left: `${previewLeft}px`,
+            width: `${previewWidth}px`,
+            ...(previewAbove
+              ? { bottom: `${window.innerHeight - rect.top + PREVIEW_GAP}px` }
+              : { top: `${rect.bottom + PREVIEW_GAP}px` })
+          }}
+        >
+          <div className="preview-header">
+            <span>{activeLabel}</span>
+            <button className="icon-btn" onClick={handleDiscard} title="Discard">
+              <X />
+            </button>
+          </div>
+
+          {suggestion.status === "loading" ? (
+            <div className="preview-loading">
+              <Loader className="animate-spin" />
+              <span>Writing…</span>
+            </div>
+          ) : suggestion.status === "error" ? (
+            <div className="preview-error">{suggestion.text}</div>
+          ) : (
+            <DiffPreview parts={diffWords(suggestion.original, suggestion.text)} />
+          )}
+
+          {suggestion.status === "done" && (
+            <div className="preview-actions">
+              <button className="preview-btn" onClick={handleDiscard}>
+                Discard
+              </button>
+              <button className="preview-btn primary" onClick={handleApply}>
+                <Check />
+                <span>Apply</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const mountWritingAssistant = () => {
+  if ((window as any).__talktomytabs_writing_injected || document.getElementById(ROOT_ID)) return
+
+  const container = document.createElement("div")
+  container.id = ROOT_ID
+  container.setAttribute("data-talktomytabs-ui", "true")
+  container.setAttribute("data-theme", localStorage.getItem("theme") || "light")
+  document.body.appendChild(container)
+
+  createRoot(container).render(<WritingAssistant />)
+  ;(window as any).__talktomytabs_writing_injected = true
+}
+
+if (typeof window !== "undefined") {
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountWritingAssistant, { once: true })
+  } else {
+    mountWritingAssistant()
+  }
+}
+
+export { WritingAssistant }
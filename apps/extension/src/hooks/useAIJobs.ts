@@ -0,0 +1,43 @@
+// apps/extension/src/hooks/useAIJobs.ts
+// ** import types
+import type { JobSummary, JobQueueMessage, JobClientMessage } from '@/utils/job-queue'
+
+// ** import core packages
+import { useEffect, useRef, useState, useCallback } from 'react'
+
+// ** import utils
+import { JOB_PORT_NAME } from '@/utils/job-queue'
+
+/**
+ * Follow the background AI job queue: what's running, what's waiting, and
+ * how far along each job is
+ */
+export const useAIJobs = () => {
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const portRef = useRef<chrome.runtime.Port | null>(null)
+
+  useEffect(() => {
+    const port = chrome.runtime.connect({ name: JOB_PORT_NAME })
+    portRef.current = port
+
+    port.onMessage.addListener((message: JobQueueMessage) => {
+      if (message.type === 'jobs') {
+        setJobs(message.jobs)
+      }
+    })
+    port.onDisconnect.addListener(() => {
+      portRef.current = null
+    })
+
+    return () => {
+      portRef.current = null
+      port.disconnect()
+    }
+  }, [])
+
+  const cancelJob = useCallback((id: string) => {
+    portRef.current?.postMessage({ type: 'cancel', id } satisfies JobClientMessage)
+  }, [])
+
+  return { jobs, cancelJob }
+}
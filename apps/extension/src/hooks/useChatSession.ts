@@ -1,60 +1,36 @@
 // apps/extension/src/hooks/useChatSession.ts
 // ** import types
 import type { PageContent } from '@/utils/contentExtractor'
+import type { SelectionContext } from '@/utils/selection'
 
 // ** import core packages
 import { useEffect, useCallback, useRef } from 'react'
 
 // ** import utils
-import { useChatStore } from '@/store/chatStore'
-import { extractPageContent } from '@/logic/contentExtractor'
+import { useChatStore, isMultiTabKey } from '@/store/chatStore'
+import { getSessionKey } from '@/utils/url'
+import { estimateTokens } from '@/utils/text-chunker'
 
 export const useChatSession = () => {
   const {
-    currentDomain,
+    currentKey,
     currentSession,
     sessions,
     isLoadingContent,
-    showNewChatButton,
-    showContentWarning,
-    pendingContent,
-    setCurrentDomain,
     createSession,
+    createMultiTabSession,
     loadSession,
     setLoadingContent,
-    setShowNewChatButton,
-    setShowContentWarning,
-    setPendingContent,
-    hasSessionForDomain,
+    hasSession,
     clearCurrentSession,
-    updateSession
+    updateSession,
+    addUrlAlias,
+    resolveSessionKey
   } = useChatStore()
 
   const lastCheckedUrl = useRef<string>('')
   const isCheckingRef = useRef<boolean>(false)
 
-  const getDomainFromUrl = (url: string): string => {
-    try {
-      const urlObj = new URL(url)
-      return urlObj.hostname
-    } catch {
-      return url
-    }
-  }
-
-  // Estimate token usage (rough approximation: 1 token ≈ 4 characters)
-  const estimateTokens = (content: string): number => {
-    return Math.ceil(content.length / 4)
-  }
-
-  // Check if content is large and should trigger warning
-  const shouldShowContentWarning = (content: PageContent): boolean => {
-    const contentLength = content.content?.length || 0
-    const estimatedTokens = estimateTokens(content.content || '')
-    // Show warning if content is larger than 4000 characters (~1000 tokens)
-    return contentLength > 4000 || estimatedTokens > 1000
-  }
-
   const loadPageContent = useCallback(async (): Promise<PageContent | null> => {
     setLoadingContent(true)
     try {
@@ -93,159 +69,161 @@ export const useChatSession = () => {
     }
   }, [setLoadingContent])
 
-  const initializeSession = useCallback(async () => {
+  // Open the page's own session, or start one, with freshly extracted content
+  const openSessionForContent = useCallback((content: PageContent): string => {
+    const key = getSessionKey(content)
+    // Remember which session this tab URL belongs to so tab switches don't re-extract
+    addUrlAlias(content.url, key)
+
+    if (hasSession(key)) {
+      console.log('♻️ Loading existing session for page:', key)
+      updateSession(key, {
+        url: content.url,
+        title: content.title,
+        pageContent: content
+      })
+      loadSession(key)
+    } else {
+      console.log('🆕 Creating new session with content:', {
+        key,
+        url: content.url,
+        title: content.title,
+        contentLength: content.content?.length || 0
+      })
+      createSession(key, content)
+    }
+    return key
+  }, [addUrlAlias, hasSession, updateSession, loadSession, createSession])
+
+  const initializeSession = useCallback(async (): Promise<string | null> => {
     console.log('🚀 Initializing chat session...')
     try {
       const content = await loadPageContent()
       if (!content) {
         console.error('❌ Failed to load page content')
-        return
+        return null
       }
 
-    console.log('✅ Content loaded, proceeding with session initialization')
-    const domain = getDomainFromUrl(content.url)
-    lastCheckedUrl.current = content.url
-    
-    console.log('🌐 Domain:', domain)
-    console.log('📊 Content stats:', {
-      hasContent: !!content.content,
-      contentLength: content.content?.length || 0,
-      estimatedTokens: estimateTokens(content.content || '')
-    })
-
-    // Check if content is large and should show warning
-    if (shouldShowContentWarning(content)) {
-      console.log('⚠️ Content is large, showing warning...')
-      setPendingContent(content)
-      setShowContentWarning(true)
-      return
-    }
+      console.log('✅ Content loaded, proceeding with session initialization')
+      lastCheckedUrl.current = content.url
 
-    // Check if we already have a session for this domain
-    if (hasSessionForDomain(domain)) {
-      console.log('♻️ Loading existing session for domain:', domain)
-      // Load existing session
-      loadSession(domain)
-
-      // Check if URL changed within the same domain
-      const existingSession = sessions[domain]
-      if (existingSession && existingSession.url !== content.url) {
-        // Only show new chat button if we're not already showing it
-        if (!showNewChatButton) {
-          setShowNewChatButton(true)
-        }
-      } else {
-        // Same URL, hide the button
-        setShowNewChatButton(false)
-      }
-    } else {
-      console.log('🆕 Creating new session with content:', {
-        domain,
-        url: content.url,
-        title: content.title,
-        hasPageContent: !!content,
-        contentLength: content.content?.length || 0
+      console.log('📊 Content stats:', {
+        hasContent: !!content.content,
+        contentLength: content.content?.length || 0,
+        estimatedTokens: estimateTokens(content.content || '')
       })
-      // Create new session
-      createSession(domain, content.url, content.title, content)
-      setShowNewChatButton(false)
-    }
+
+      // Long pages are fine, chat only sends the passages relevant to each question
+      return openSessionForContent(content)
     } catch (error) {
       if (error instanceof Error && error.message === 'RESTRICTED_URL') {
         console.warn('⚠️ Cannot access content from restricted page')
         // Don't clear anything, just skip initialization
-        return
+        return null
       }
       // Re-throw other errors
       throw error
     }
-  }, [loadPageContent, hasSessionForDomain, loadSession, createSession, sessions, setShowNewChatButton, showNewChatButton, shouldShowContentWarning, setPendingContent, setShowContentWarning])
-
-  const startNewChat = useCallback(async () => {
-    const content = await loadPageContent()
-    if (!content) return
-
-    const domain = getDomainFromUrl(content.url)
-    lastCheckedUrl.current = content.url
-    
-    // Update the existing session with new content
-    if (hasSessionForDomain(domain)) {
-      // Update session with new URL and content
-      updateSession(domain, {
-        url: content.url,
-        title: content.title,
-        pageContent: content,
-        messages: [
-          {
-            id: `welcome-${Date.now()}`,
-            text: `I'm ready to help you with "${content.title}". What would you like to know about this article?`,
-            isUser: false,
-            timestamp: new Date()
-          }
-        ]
-      })
+  }, [loadPageContent, openSessionForContent])
+
+  // Open the page's earlier conversation, reading the page again if its stored text is gone
+  const reopenSession = useCallback(async (key: string): Promise<void> => {
+    await loadSession(key)
+    if (!useChatStore.getState().sessions[key]?.pageContent) {
+      console.log('📄 No stored content for session, reading the page again:', key)
+      await initializeSession()
+    }
+  }, [loadSession, initializeSession])
+
+  // Open the chat for the page the text was selected on and quote the selection in it
+  const attachSelection = useCallback(async (selection: SelectionContext) => {
+    const existingKey = resolveSessionKey(selection.url)
+    let key: string | null = existingKey
+    if (hasSession(existingKey)) {
+      await reopenSession(existingKey)
     } else {
-      createSession(domain, content.url, content.title, content)
+      key = await initializeSession()
+    }
+    if (!key) return
+
+    lastCheckedUrl.current = selection.url
+    updateSession(key, { selection })
+  }, [resolveSessionKey, hasSession, reopenSession, initializeSession, updateSession])
+
+  const removeSelection = useCallback(() => {
+    if (currentKey) {
+      updateSession(currentKey, { selection: undefined })
+    }
+  }, [currentKey, updateSession])
+
+  // Switch to an earlier conversation, it stays open until the tab navigates
+  const selectSession = useCallback((key: string) => {
+    loadSession(key)
+  }, [loadSession])
+
+  const startMultiTabChat = useCallback(async (tabIds: number[]): Promise<void> => {
+    const response = await chrome.runtime.sendMessage({
+      action: 'getTabsContent',
+      data: { tabIds }
+    })
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Failed to load tab content')
     }
-    
-    setShowNewChatButton(false)
-  }, [loadPageContent, createSession, hasSessionForDomain, updateSession, setShowNewChatButton])
+
+    // Unreadable tabs are skipped, the welcome message lists the ones we kept
+    const results: Array<{ tabId: number; content: PageContent | null }> = response.data
+    const sources = results
+      .map(result => result.content)
+      .filter((content): content is PageContent => !!content && !!content.content)
+
+    if (sources.length === 0) {
+      throw new Error('None of the selected tabs could be read')
+    }
+
+    createMultiTabSession(sources)
+  }, [createMultiTabSession])
+
+  const exitMultiTabChat = useCallback(async () => {
+    lastCheckedUrl.current = ''
+    clearCurrentSession()
+    await initializeSession()
+  }, [clearCurrentSession, initializeSession])
 
   const checkForTabChange = useCallback(async () => {
+    // Multi-tab chats are pinned to their selected tabs
+    if (isMultiTabKey(currentKey)) return
+
     // Prevent concurrent checks
     if (isCheckingRef.current) return
     isCheckingRef.current = true
 
     try {
       const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
-      if (!activeTab?.url) {
-        isCheckingRef.current = false
-        return
-      }
+      // Wait for the page to finish loading so its canonical link is there
+      if (!activeTab?.url || activeTab.status === 'loading') return
 
-      const domain = getDomainFromUrl(activeTab.url)
-      
-      // Skip if we're checking the same URL and domain
-      if (activeTab.url === lastCheckedUrl.current && currentDomain === domain) {
-        isCheckingRef.current = false
-        return
-      }
+      // Same tab URL, keep whatever session is open (including one picked from the list)
+      if (activeTab.url === lastCheckedUrl.current) return
 
       console.log('Tab changed from', lastCheckedUrl.current, 'to', activeTab.url)
       lastCheckedUrl.current = activeTab.url
 
-      // Domain changed
-      if (domain !== currentDomain) {
-        if (hasSessionForDomain(domain)) {
-          // Switch to existing session for this domain
-          loadSession(domain)
-          
-          // Check if the URL is different
-          const existingSession = sessions[domain]
-          if (existingSession && existingSession.url !== activeTab.url) {
-            setShowNewChatButton(true)
-          } else {
-            setShowNewChatButton(false)
-          }
-        } else {
-          // No session for this domain
-          clearCurrentSession()
-          // Initialize new session automatically
-          await initializeSession()
-        }
-      } else if (currentSession && activeTab.url !== currentSession.url) {
-        // Same domain but different URL
-        setShowNewChatButton(true)
+      const key = resolveSessionKey(activeTab.url)
+      if (hasSession(key)) {
+        // Switch to the existing conversation for this page
+        await reopenSession(key)
       } else {
-        // Same domain and URL
-        setShowNewChatButton(false)
+        // No session for this page yet
+        clearCurrentSession()
+        await initializeSession()
       }
     } catch (error) {
       console.error('Error checking for tab change:', error)
     } finally {
       isCheckingRef.current = false
     }
-  }, [currentDomain, currentSession, hasSessionForDomain, loadSession, setShowNewChatButton, clearCurrentSession, sessions, initializeSession])
+  }, [currentKey, resolveSessionKey, hasSession, reopenSession, clearCurrentSession, initializeSession])
 
   // Auto-check for tab changes periodically (reduced frequency)
   useEffect(() => {
@@ -258,58 +236,16 @@ export const useChatSession = () => {
     return () => clearInterval(intervalId)
   }, [checkForTabChange])
 
-  // Handle content warning actions
-  const handleContentWarningProceed = useCallback(() => {
-    if (!pendingContent) return
-
-    console.log('⚡ Content warning proceed - creating/updating session with content')
-    const domain = getDomainFromUrl(pendingContent.url)
-
-    // Check if we already have a session for this domain
-    if (hasSessionForDomain(domain)) {
-      const existingSession = sessions[domain]
-      
-      // If same URL, update the existing session with fresh content
-      if (existingSession && existingSession.url === pendingContent.url) {
-        console.log('🔄 Updating existing session with fresh content')
-        updateSession(domain, {
-          pageContent: pendingContent,
-          title: pendingContent.title
-        })
-        loadSession(domain)
-      } else {
-        // Different URL on same domain - create fresh session
-        console.log('🆕 Creating new session (different URL, same domain)')
-        createSession(domain, pendingContent.url, pendingContent.title, pendingContent)
-      }
-    } else {
-      console.log('🆕 Creating new session (new domain)')
-      createSession(domain, pendingContent.url, pendingContent.title, pendingContent)
-    }
-
-    setShowContentWarning(false)
-    setPendingContent(null)
-  }, [pendingContent, getDomainFromUrl, hasSessionForDomain, loadSession, sessions, updateSession, createSession, setShowContentWarning, setPendingContent])
-
-  const handleContentWarningCancel = useCallback(() => {
-    setShowContentWarning(false)
-    setPendingContent(null)
-    // Close the sidepanel when user cancels
-    window.close()
-  }, [setShowContentWarning, setPendingContent])
-
   return {
     currentSession,
+    sessions,
     isLoadingContent,
-    showNewChatButton,
-    showContentWarning,
-    pendingContent,
     initializeSession,
-    startNewChat,
-    checkForTabChange,
-    getDomainFromUrl,
-    handleContentWarningProceed,
-    handleContentWarningCancel,
-    estimateTokens
+    selectSession,
+    attachSelection,
+    removeSelection,
+    startMultiTabChat,
+    exitMultiTabChat,
+    checkForTabChange
   }
 }
\ No newline at end of file
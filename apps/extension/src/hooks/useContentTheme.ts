@@ -0,0 +1,38 @@
+// apps/extension/src/hooks/useContentTheme.ts
+// ** import core packages
+import { useEffect, useState } from "react"
+
+type Theme = "light" | "dark"
+
+/**
+ * Follow the extension's theme from a content script and mirror it onto the
+ * root element the script mounted into the page
+ */
+export const useContentTheme = (rootId: string): Theme => {
+  const [theme, setTheme] = useState<Theme>(
+    () => (localStorage.getItem("theme") as Theme | null) || "light"
+  )
+
+  useEffect(() => {
+    document.getElementById(rootId)?.setAttribute("data-theme", theme)
+  }, [rootId, theme])
+
+  useEffect(() => {
+    chrome.storage?.local.get(["theme"], (stored) => {
+      if (stored.theme) {
+        setTheme(stored.theme as Theme)
+      }
+    })
+
+    const handleChromeStorageChange = (changes: any) => {
+      if (changes.theme) {
+        setTheme(changes.theme.newValue as Theme)
+      }
+    }
+
+    chrome.storage?.onChanged.addListener(handleChromeStorageChange)
+    return () => chrome.storage?.onChanged.removeListener(handleChromeStorageChange)
+  }, [])
+
+  return theme
+}
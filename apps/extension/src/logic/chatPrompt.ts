@@ -0,0 +1,190 @@
+// apps/extension/src/logic/chatPrompt.ts
+// ** import types
+import type { ChatSession, Citation } from '@/store/chatStore'
+import type { RetrievedChunk } from '@/utils/retrieval'
+import type { PageContent } from '@/utils/contentExtractor'
+
+// ** import utils
+import { buildLabelledSources } from '@/utils/context-budget'
+import { retrieveRelevantChunks } from '@/utils/retrieval'
+import { estimateTokens } from '@/utils/text-chunker'
+import { formatTimestamp } from '@/utils/transcript'
+
+// Pages over ~4000 characters get only the passages relevant to each question
+const RETRIEVAL_THRESHOLD_TOKENS = 1000
+const RETRIEVAL_MAX_TOKENS = 1500
+
+export const usesRetrieval = (session: ChatSession): boolean =>
+  !session.sources?.length &&
+  estimateTokens(session.pageContent?.content || '') > RETRIEVAL_THRESHOLD_TOKENS
+
+// Headings of the page, so passages can be placed within it
+const formatOutline = (pageContent: PageContent): string =>
+  (pageContent.headings || [])
+    .map(heading => `${'  '.repeat(Math.max(0, heading.level - 1))}- ${heading.text}`)
+    .join('\n')
+
+// Passages of a PDF carry their page, e.g. [Passage 3, page 12]
+const formatPassageLabel = (passage: RetrievedChunk): string =>
+  passage.page ? `${passage.label}, page ${passage.page}` : passage.label
+
+const SOURCE_NAMES: Record<NonNullable<PageContent['sourceType']>, string> = {
+  webpage: 'webpage',
+  pdf: 'PDF document',
+  video: 'video'
+}
+
+// Length of a PDF or video, for the header of the prompt
+const formatExtent = (pageContent: PageContent): string => {
+  if (pageContent.sourceType === 'pdf' && pageContent.pageCount) return `Pages: ${pageContent.pageCount}`
+  if (pageContent.sourceType === 'video' && pageContent.duration) return `Length: ${formatTimestamp(pageContent.duration)}`
+  return ''
+}
+
+// Transcripts have a time on every line the answer can point the user to
+const TIMESTAMP_INSTRUCTION = '- When saying where in the video something is said, give the time from the transcript in brackets, e.g. [4:05]'
+
+const buildRetrievalSystemPrompt = (session: ChatSession): string => {
+  const pageContent = session.pageContent!
+  const isPdf = pageContent.sourceType === 'pdf'
+  const isVideo = pageContent.sourceType === 'video'
+
+  return `You are a helpful AI assistant analyzing a ${SOURCE_NAMES[pageContent.sourceType || 'webpage']}.
+        Current page: "${session.title}"
+        URL: ${session.url}
+        ${pageContent.author ? `Author: ${pageContent.author}` : ''}
+        ${pageContent.description ? `Description: ${pageContent.description}` : ''}
+        ${formatExtent(pageContent)}
+        ${pageContent.headings?.length ? `Page outline:\n${formatOutline(pageContent)}` : ''}
+
+        The ${isPdf ? 'document' : 'page'} is long, so each question comes with the passages from it that best match the question, labelled ${isPdf ? '[Passage N, page P]' : '[Passage N]'}.
+
+        Instructions:
+        - Answer questions based on the passages given with the question
+        - After every fact, cite the passage it came from, e.g. ${isPdf ? '[Passage 3, page 12]' : '[Passage 3]'}
+        ${isVideo ? TIMESTAMP_INSTRUCTION : ''}
+        - If the passages don't cover the question, say so instead of guessing
+        - Be concise but thorough
+        - Use markdown formatting for better readability`
+}
+
+const buildPageSystemPrompt = (session: ChatSession): string => {
+  const pageContent = session.pageContent!
+  const isPdf = pageContent.sourceType === 'pdf'
+  const isVideo = pageContent.sourceType === 'video'
+
+  const contentHeading = isPdf
+    ? 'Document content, where [Page N] marks the start of each page:'
+    : isVideo
+      ? 'Page content, with the video transcript where each line starts with the time it is said:'
+      : 'Page content:'
+
+  return `You are a helpful AI assistant analyzing a ${SOURCE_NAMES[pageContent.sourceType || 'webpage']}.
+        Current page: "${session.title}"
+        URL: ${session.url}
+        ${pageContent.author ? `Author: ${pageContent.author}` : ''}
+        ${pageContent.description ? `Description: ${pageContent.description}` : ''}
+        ${formatExtent(pageContent)}
+
+        ${contentHeading}
+        ${pageContent.content}
+
+        Instructions:
+        - Answer questions based on the content above
+        - ${isPdf ? 'Be specific and cite the page each fact is on, e.g. (page 4)' : 'Be specific and cite relevant parts of the article'}
+        ${isVideo ? TIMESTAMP_INSTRUCTION : ''}
+        - If asked about something not in the article, acknowledge this
+        - Be concise but thorough
+        - Use markdown formatting for better readability`
+}
+
+const buildMultiTabSystemPrompt = (session: ChatSession): string => {
+  const sources = buildLabelledSources(session.sources || [])
+
+  const sourceBlocks = sources.map(source =>
+    `[${source.label}] "${source.title}"
+URL: ${source.url}
+${source.content}${source.truncated ? '\n(content shortened to fit)' : ''}`
+  ).join('\n\n---\n\n')
+
+  return `You are a helpful AI assistant comparing ${sources.length} webpages the user has open in separate tabs.
+
+${sourceBlocks}
+
+Instructions:
+- Answer questions using the tabs above
+- After every fact, cite the tab it came from, e.g. [Tab 1] or [Tab 2]
+- When tabs disagree or cover different things, say which tab says what
+- If none of the tabs cover the question, acknowledge this
+- Be concise but thorough
+- Use markdown formatting for better readability`
+}
+
+export const buildSystemPrompt = (session: ChatSession): string => {
+  if (session.sources && session.sources.length > 0) {
+    return buildMultiTabSystemPrompt(session)
+  }
+
+  if (usesRetrieval(session)) {
+    return buildRetrievalSystemPrompt(session)
+  }
+
+  if (session.pageContent) {
+    return buildPageSystemPrompt(session)
+  }
+
+  return 'You are a helpful AI assistant.'
+}
+
+/**
+ * Quote the text the user selected so the question is read as being about it
+ */
+export const buildSelectionContext = (session: ChatSession): string | null => {
+  if (!session.selection) return null
+
+  const { text, paragraph } = session.selection
+  const surrounding = paragraph && paragraph !== text
+    ? `\n\nThe paragraph it comes from:\n${paragraph}`
+    : ''
+
+  return `The user selected this text on the page and is asking about it:\n"${text}"${surrounding}`
+}
+
+/**
+ * Pick the passages of a long page that answer the question. Returns null when
+ * the whole page is already in the system prompt.
+ */
+export const buildRetrievalContext = (
+  session: ChatSession,
+  question: string
+): { context: string; passages: RetrievedChunk[] } | null => {
+  if (!usesRetrieval(session)) return null
+
+  const passages = retrieveRelevantChunks(session.pageContent!.content, question, {
+    maxTokens: RETRIEVAL_MAX_TOKENS
+  })
+  const context = passages
+    .map(passage => `[${formatPassageLabel(passage)}]\n${passage.text}`)
+    .join('\n\n')
+
+  return {
+    context: `Relevant passages from the page:\n\n${context}`,
+    passages
+  }
+}
+
+/**
+ * Keep the passages the answer actually cites, in the order they were given
+ */
+export const extractCitations = (answer: string, passages: RetrievedChunk[], url: string): Citation[] => {
+  // The model also writes [Passage 2, Passage 5] or [Passages 2 and 5]; page numbers aren't passages
+  const cited = new Set<number>()
+  for (const match of answer.matchAll(/\[Passages?\s+([^\]]+)\]/gi)) {
+    const numbers = match[1].replace(/\b(?:pages?|pp?\.)\s*\d+(?:\s*[-–]\s*\d+)?/gi, '')
+    ;(numbers.match(/\d+/g) || []).forEach(number => cited.add(Number(number)))
+  }
+
+  return passages
+    .filter(passage => cited.has(passage.index + 1))
+    .map(passage => ({ label: formatPassageLabel(passage), text: passage.text, url, page: passage.page }))
+}
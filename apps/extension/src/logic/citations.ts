@@ -0,0 +1,185 @@
+// apps/extension/src/logic/citations.ts
+// ** import types
+import type { ChatSession, Citation } from '@/store/chatStore'
+import type { PageContent } from '@/utils/contentExtractor'
+
+// ** import utils
+import { normalizeUrl } from '@/utils/url'
+import { parseTimestamp, parseTranscriptLines } from '@/utils/transcript'
+
+// Shorter quotes are usually phrases, not passages worth linking back to
+const MIN_QUOTE_LENGTH = 20
+const MAX_QUOTES = 5
+const TAB_LOAD_TIMEOUT = 15000
+
+/**
+ * Pull the spans the answer quotes from the page: "double quoted" text and
+ * markdown blockquotes
+ */
+export const extractQuotedSpans = (answer: string): string[] => {
+  const spans: string[] = []
+
+  for (const match of answer.matchAll(/["“]([^"“”\n]+)["”]/g)) {
+    spans.push(match[1])
+  }
+
+  const blockquote = answer
+    .split('\n')
+    .filter(line => line.startsWith('>'))
+    .map(line => line.replace(/^>\s?/, ''))
+  if (blockquote.length > 0) {
+    spans.push(blockquote.join(' '))
+  }
+
+  return Array.from(new Set(spans.map(span => span.trim())))
+    .filter(span => span.length >= MIN_QUOTE_LENGTH)
+    .slice(0, MAX_QUOTES)
+}
+
+/**
+ * Turn the [4:05] times an answer gives into citations that seek the video,
+ * keeping only times within the transcript
+ */
+export const extractTimestampCitations = (answer: string, pageContent: PageContent, url: string): Citation[] => {
+  const lines = parseTranscriptLines(pageContent.content)
+  if (lines.length === 0) return []
+
+  const labels = new Set(Array.from(answer.matchAll(/\[((?:\d+:)?\d{1,2}:\d{2})\]/g), match => match[1]))
+  const citations: Citation[] = []
+
+  for (const label of labels) {
+    const time = parseTimestamp(label)!
+    // The line that was playing at that time
+    const line = lines.filter(candidate => candidate.time <= time).pop()
+    if (!line || time > (pageContent.duration || lines[lines.length - 1].time + 60)) continue
+
+    citations.push({ label, text: line.text, url, time })
+  }
+
+  return citations.sort((a, b) => a.time! - b.time!)
+}
+
+const findTabForUrl = async (url: string): Promise<chrome.tabs.Tab | null> => {
+  const target = normalizeUrl(url)
+  const tabs = await chrome.tabs.query({ currentWindow: true })
+  // Prefer the active tab when the page is open more than once
+  const matching = tabs.filter(tab => tab.url && normalizeUrl(tab.url) === target)
+  return matching.find(tab => tab.active) || matching[0] || null
+}
+
+const waitForTabLoad = (tabId: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      chrome.tabs.onUpdated.removeListener(listener)
+      reject(new Error('Page took too long to load'))
+    }, TAB_LOAD_TIMEOUT)
+
+    const listener = (updatedTabId: number, changeInfo: { status?: string }) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') {
+        clearTimeout(timeout)
+        chrome.tabs.onUpdated.removeListener(listener)
+        resolve()
+      }
+    }
+    chrome.tabs.onUpdated.addListener(listener)
+  })
+}
+
+/**
+ * Keep the quotes that really appear on the page, so every footnote can be
+ * scrolled to
+ */
+export const locateQuotes = async (session: ChatSession, quotes: string[]): Promise<Citation[]> => {
+  if (quotes.length === 0) return []
+
+  const urls = session.sources?.length
+    ? session.sources.map(source => source.url)
+    : [session.url]
+
+  const remaining = new Set(quotes)
+  const citations: Citation[] = []
+
+  for (const url of urls) {
+    if (remaining.size === 0) break
+
+    const tab = await findTabForUrl(url)
+    if (!tab?.id) continue
+
+    try {
+      const texts = Array.from(remaining)
+      const response = await chrome.tabs.sendMessage(tab.id, {
+        action: 'locatePassages',
+        data: { texts }
+      })
+      if (!response?.success) continue
+
+      texts.forEach((text, index) => {
+        if (response.data[index]) {
+          citations.push({ label: '', text, url })
+          remaining.delete(text)
+        }
+      })
+    } catch (error) {
+      // Tabs opened before the extension was installed have no content script
+      console.warn('⚠️ Could not look up quotes in tab:', error)
+    }
+  }
+
+  // Number the footnotes in the order the answer quotes them
+  return citations
+    .sort((a, b) => quotes.indexOf(a.text) - quotes.indexOf(b.text))
+    .map((citation, index) => ({ ...citation, label: `Quote ${index + 1}` }))
+}
+
+/**
+ * Bring the cited page to the front, scroll to the text and highlight it
+ */
+export const highlightCitation = async (citation: Citation): Promise<boolean> => {
+  if (!citation.url) return false
+
+  try {
+    let tab = await findTabForUrl(citation.url)
+
+    if (citation.time !== undefined) {
+      if (tab?.id) {
+        await chrome.tabs.update(tab.id, { active: true })
+      } else {
+        tab = await chrome.tabs.create({ url: citation.url, active: true })
+        await waitForTabLoad(tab.id!)
+      }
+
+      const response = await chrome.tabs.sendMessage(tab.id!, {
+        action: 'seekVideo',
+        data: { time: citation.time }
+      })
+      return !!response?.success
+    }
+
+    // Chrome's PDF viewer can't be scripted, open the cited page instead
+    if (citation.page) {
+      const url = `${citation.url.split('#')[0]}#page=${citation.page}`
+      if (tab?.id) {
+        await chrome.tabs.update(tab.id, { active: true, url })
+      } else {
+        await chrome.tabs.create({ url, active: true })
+      }
+      return true
+    }
+
+    if (tab?.id) {
+      await chrome.tabs.update(tab.id, { active: true })
+    } else {
+      tab = await chrome.tabs.create({ url: citation.url, active: true })
+      await waitForTabLoad(tab.id!)
+    }
+
+    const response = await chrome.tabs.sendMessage(tab.id!, {
+      action: 'highlightPassage',
+      data: { text: citation.text }
+    })
+    return !!response?.success
+  } catch (error) {
+    console.error('❌ Error highlighting citation:', error)
+    return false
+  }
+}
@@ -1,4 +1,9 @@
 // apps/extension/src/popup.tsx
+// ** import types
+import type { ReadingLevelChoice } from '@/utils/reading-metrics'
+import type { PageState } from '@/utils/page-client'
+import type { DisplaySettings, PageTheme } from '@/utils/display-settings'
+
 // ** import core packages
 import React, { useState, useEffect } from 'react'
 import { 
@@ -17,34 +22,20 @@ import {
 } from 'lucide-react'
 
 // ** import utils
-import { checkChromeAI, getSetupInstructions } from '@/utils/chrome-ai-check'
+import { checkChromeAI, getSetupInstructions, openAIStatusPage } from '@/utils/chrome-ai-check'
+import { DEFAULT_READING_SETTINGS, loadReadingSettings } from '@/utils/reading-metrics'
+import { sendPageRequest } from '@/utils/page-client'
+import { DEFAULT_DISPLAY_SETTINGS } from '@/utils/display-settings'
+
+// ** import components
+import AIJobList from '@/components/ui/AIJobList'
 
 // ** import styles
 import '@/styles/style.css'
 import '@/styles/popup.css'
 
-type SimplificationLevel = 'Low' | 'Mid' | 'High'
 type OptimizationMode = 'simplify-complex' | 'visual-organization' | 'reading-flow'
 type View = 'main' | 'settings'
-type PageTheme = 'default' | 'cream' | 'dark' | 'sepia'
-
-interface DisplaySettings {
-  enabled: boolean
-  useOpenDyslexic: boolean
-  lineSpacing: number
-  letterSpacing: number
-  wordSpacing: number
-  pageTheme: PageTheme
-}
-
-const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
-  enabled: false,
-  useOpenDyslexic: false,
-  lineSpacing: 1.4,
-  letterSpacing: 1,
-  wordSpacing: 0,
-  pageTheme: 'default'
-}
 
 const PAGE_THEMES = [
   { value: 'default', label: 'Default', color: '#ffffff' },
@@ -74,8 +65,12 @@ const OPTIMIZATION_OPTIONS = [
   }
 ] as const
 
+const LEVEL_OPTIONS: ReadingLevelChoice[] = ['Low', 'Mid', 'High', 'Auto']
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`
+
 function ExtensionPopup() {
-  const [level, setLevel] = useState<SimplificationLevel>('Low')
+  const [level, setLevel] = useState<ReadingLevelChoice>('Low')
   const [mode, setMode] = useState<OptimizationMode>('simplify-complex')
   const [isProcessing, setIsProcessing] = useState(false)
   const [chromeAIReady, setChromeAIReady] = useState(false)
@@ -84,6 +79,8 @@ function ExtensionPopup() {
   const [view, setView] = useState<View>('main')
   const [dropdownOpen, setDropdownOpen] = useState(false)
   const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS)
+  const [targetGrade, setTargetGrade] = useState(DEFAULT_READING_SETTINGS.targetGrade)
+  const [pageState, setPageState] = useState<PageState | null>(null)
 
   useEffect(() => {
     // Apply theme from localStorage
@@ -97,6 +94,18 @@ function ExtensionPopup() {
       }
     })
 
+    loadReadingSettings().then(settings => setTargetGrade(settings.targetGrade))
+
+    // Whether the current page is simplified, and how readable it became
+    chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
+      if (!tabs[0]?.id) return
+      try {
+        setPageState(await sendPageRequest(tabs[0].id, { action: 'getState' }))
+      } catch {
+        // Pages without the content script (e.g. chrome:// pages) have nothing to show
+      }
+    })
+
     // Check for Chrome AI
     checkChromeAI().then(status => {
       setChromeAIReady(status.available)
@@ -155,6 +164,18 @@ function ExtensionPopup() {
     }
   }
 
+  const handleResetPage = () => {
+    chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
+      if (!tabs[0]?.id) return
+      try {
+        await sendPageRequest(tabs[0].id, { action: 'reset' })
+        setPageState(await sendPageRequest(tabs[0].id, { action: 'getState' }))
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to reset the page')
+      }
+    })
+  }
+
   const handleOpenSettings = () => {
     chrome.tabs.create({ url: chrome.runtime.getURL('newtab.html') })
   }
@@ -173,6 +194,7 @@ function ExtensionPopup() {
   }
 
   const selectedOption = OPTIMIZATION_OPTIONS.find(o => o.value === mode)!
+  const readingMetrics = pageState?.readingMetrics
 
   if (!chromeAIReady) {
     const instructions = getSetupInstructions()
@@ -193,6 +215,12 @@ function ExtensionPopup() {
             <RotateCcw className="btn-icon" />
             Retry
           </button>
+          <button
+            onClick={openAIStatusPage}
+            style={{ marginTop: '8px', fontSize: '11px', textDecoration: 'underline', color: 'var(--text-tertiary)', background: 'none', border: 'none', cursor: 'pointer' }}
+          >
+            Check and download AI models
+          </button>
         </div>
       </div>
     )
@@ -348,7 +376,7 @@ function ExtensionPopup() {
         <div className="control-group">
           <label className="control-label">INTENSITY</label>
           <div className="level-selector">
-            {(['Low', 'Mid', 'High'] as SimplificationLevel[]).map(l => (
+            {LEVEL_OPTIONS.map(l => (
               <button
                 key={l}
                 onClick={() => setLevel(l)}
@@ -358,6 +386,11 @@ function ExtensionPopup() {
               </button>
             ))}
           </div>
+          {level === 'Auto' && (
+            <div className="level-hint">
+              Picks the intensity to reach grade {targetGrade}
+            </div>
+          )}
         </div>
 
         {/* Optimization Mode */}
@@ -404,6 +437,33 @@ function ExtensionPopup() {
           </div>
         </div>
 
+        {/* Reading metrics for the simplified page */}
+        {readingMetrics && (
+          <div className="control-group">
+            <label className="control-label">READABILITY</label>
+            <div className="metrics-card">
+              {[
+                { label: 'Grade level', before: readingMetrics.original.gradeLevel.toFixed(1), after: readingMetrics.simplified.gradeLevel.toFixed(1) },
+                { label: 'Words per sentence', before: readingMetrics.original.averageSentenceLength.toFixed(1), after: readingMetrics.simplified.averageSentenceLength.toFixed(1) },
+                { label: 'Rare words', before: formatPercent(readingMetrics.original.rareWordRatio), after: formatPercent(readingMetrics.simplified.rareWordRatio) }
+              ].map(row => (
+                <div key={row.label} className="metrics-row">
+                  <span>{row.label}</span>
+                  <span className="metrics-values">
+                    {row.before}
+                    <span className="metrics-arrow">→</span>
+                    {row.after}
+                  </span>
+                </div>
+              ))}
+              <div className="metrics-note">
+                {readingMetrics.isAuto ? `Auto picked ${readingMetrics.level}` : `${readingMetrics.level} intensity`}
+                {!readingMetrics.isComplete && ' · still simplifying'}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="error-message">
@@ -412,6 +472,9 @@ function ExtensionPopup() {
           </div>
         )}
 
+        {/* Running and queued AI work */}
+        <AIJobList hideWhenEmpty />
+
         {/* Action Buttons */}
         <div className="action-buttons">
           <button
@@ -423,6 +486,13 @@ function ExtensionPopup() {
             {isProcessing ? 'Processing...' : 'Generate'}
           </button>
 
+          {pageState?.isSimplified && (
+            <button onClick={handleResetPage} className="btn-secondary compact full-width">
+              <RotateCcw className="btn-icon" />
+              Show Original Page
+            </button>
+          )}
+
           <button onClick={handleOpenChat} className="btn-secondary compact full-width">
             <MessageSquare className="btn-icon" />
             Open Chat
@@ -3,25 +3,31 @@
 import type { FC } from "react"
 import type { ChatMessage as APIChatMessage } from "@/api"
 import type { Message } from "@/store/chatStore"
+import type { ChatExportFormat } from "@/utils/chatExport"
 
 // ** import core packages
 import React, { useEffect, useState, useRef } from "react"
 import { AlertCircle, RefreshCw, Settings as SettingsIcon } from "lucide-react"
 
 // ** import utils
-import { useChatStore } from "@/store/chatStore"
+import { useChatStore, isMultiTabSession, getSessionTitle } from "@/store/chatStore"
 import { useChatSession } from "@/hooks/useChatSession"
-import { checkChromeAI, getSetupInstructions } from "@/utils/chrome-ai-check"
+import { buildSystemPrompt, buildRetrievalContext, buildSelectionContext, extractCitations } from "@/logic/chatPrompt"
+import { extractQuotedSpans, extractTimestampCitations, locateQuotes, highlightCitation } from "@/logic/citations"
+import { checkChromeAI, getSetupInstructions, openAIStatusPage } from "@/utils/chrome-ai-check"
+import { getDomainFromUrl, isRestrictedUrl } from "@/utils/url"
+import { isPdfUrl, isLocalFileUrl, FILE_ACCESS_ERROR } from "@/utils/pdf"
+import { downloadSession } from "@/utils/chatExport"
+import { takePendingSelection, PENDING_SELECTION_KEY } from "@/utils/selection"
+import { streamChatCompletion, resetChatConversation } from "@/utils/chat-client"
 
 // ** import lib
 import ChatMessages from "@/components/chat/ChatMessages"
 import ChatInput from "@/components/chat/ChatInput"
 import SessionHeader from "@/components/chat/SessionHeader"
-import FloatingNewChatButton from "@/components/chat/FloatingNewChatButton"
-import ContentWarning from "@/components/chat/ContentWarning"
-
-// ** import apis
-import { createChatCompletion } from "@/api"
+import TabPicker from "@/components/chat/TabPicker"
+import ChatHistory from "@/components/chat/ChatHistory"
+import SelectionChip from "@/components/chat/SelectionChip"
 
 // ** import styles
 import "@/styles/style.css"
@@ -29,11 +35,14 @@ import "@/styles/style.css"
 const SidePanel: FC = () => {
   const [chromeAIReady, setChromeAIReady] = useState(false)
   const [chromeAIMessage, setChromeAIMessage] = useState<string>("")
-  const [pendingPageTitle, setPendingPageTitle] = useState<string>("")
-  const [pendingPageUrl, setPendingPageUrl] = useState<string>("")
   const [isExtensionInvalid, setIsExtensionInvalid] = useState(false)
   const [currentUrl, setCurrentUrl] = useState<string>('')
+  const [fileAccessAllowed, setFileAccessAllowed] = useState(true)
+  const [showTabPicker, setShowTabPicker] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [streamingText, setStreamingText] = useState<string>('')
   const lastActiveTabId = useRef<number | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   
   // Check extension validity
   useEffect(() => {
@@ -51,25 +60,24 @@ const SidePanel: FC = () => {
   
   const {
     currentSession,
+    sessions,
     isLoadingContent,
-    showNewChatButton,
-    showContentWarning,
-    pendingContent,
     initializeSession,
-    startNewChat,
-    checkForTabChange,
-    getDomainFromUrl,
-    handleContentWarningProceed,
-    handleContentWarningCancel,
-    estimateTokens
+    selectSession,
+    attachSelection,
+    removeSelection,
+    startMultiTabChat,
+    exitMultiTabChat,
+    checkForTabChange
   } = useChatSession()
   
   const {
     addMessage,
     clearSession,
+    renameSession,
+    togglePinSession,
     setLoadingMessage,
-    isLoadingMessage,
-    setShowNewChatButton
+    isLoadingMessage
   } = useChatStore()
 
   // Apply theme from localStorage
@@ -85,6 +93,8 @@ const SidePanel: FC = () => {
         setCurrentUrl(tabs[0].url)
       }
     })
+    // Local PDFs can only be read once the user allows file access
+    chrome.extension.isAllowedFileSchemeAccess().then(setFileAccessAllowed)
   }, [])
 
   // Check for Chrome AI availability
@@ -104,6 +114,30 @@ const SidePanel: FC = () => {
     }
   }, [chromeAIReady])
 
+  // Pick up text sent from the "Chat with Page" context menu, now and while open
+  useEffect(() => {
+    if (!chromeAIReady) return
+
+    const applyPendingSelection = async () => {
+      const selection = await takePendingSelection()
+      if (selection) {
+        setShowHistory(false)
+        setShowTabPicker(false)
+        await attachSelection(selection)
+      }
+    }
+
+    const handleStorageChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'session' && changes[PENDING_SELECTION_KEY]?.newValue) {
+        applyPendingSelection()
+      }
+    }
+
+    applyPendingSelection()
+    chrome.storage.onChanged.addListener(handleStorageChanged)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChanged)
+  }, [chromeAIReady, attachSelection])
+
   // Listen for tab changes and window focus
   useEffect(() => {
     if (!chromeAIReady) return
@@ -112,14 +146,6 @@ const SidePanel: FC = () => {
       console.log('Tab activated:', activeInfo)
       lastActiveTabId.current = activeInfo.tabId
       
-      // Get tab details to check if it's a new page
-      chrome.tabs.get(activeInfo.tabId, (tab) => {
-        if (tab.url && tab.title) {
-          setPendingPageTitle(tab.title)
-          setPendingPageUrl(tab.url)
-        }
-      })
-      
       // Small delay to ensure tab is fully loaded
       setTimeout(() => {
         checkForTabChange()
@@ -139,10 +165,6 @@ const SidePanel: FC = () => {
       // Only process if it's the active tab and status is complete
       if (changeInfo.status === 'complete' && tabId === lastActiveTabId.current) {
         console.log('Tab updated:', tab)
-        if (tab.title && tab.url) {
-          setPendingPageTitle(tab.title)
-          setPendingPageUrl(tab.url)
-        }
         checkForTabChange()
       }
     }
@@ -160,10 +182,6 @@ const SidePanel: FC = () => {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       if (tabs[0]?.id) {
         lastActiveTabId.current = tabs[0].id
-        if (tabs[0].title && tabs[0].url) {
-          setPendingPageTitle(tabs[0].title)
-          setPendingPageUrl(tabs[0].url)
-        }
       }
     })
     
@@ -194,10 +212,11 @@ const SidePanel: FC = () => {
       timestamp: new Date()
     }
 
-    addMessage(currentSession.domain, userMessage)
     setLoadingMessage(true)
 
     try {
+      addMessage(currentSession.key, userMessage)
+
       // Debug logging
       console.log('=== SIDEBAR CHAT DEBUG ===')
       console.log('Current Session:', currentSession)
@@ -205,23 +224,12 @@ const SidePanel: FC = () => {
       console.log('Content length:', currentSession.pageContent?.content?.length || 0)
       console.log('Content preview:', currentSession.pageContent?.content?.substring(0, 200))
       
-      const systemPrompt = currentSession.pageContent ? 
-        `You are a helpful AI assistant analyzing a webpage. 
-        Current page: "${currentSession.title}"
-        URL: ${currentSession.url}
-        ${currentSession.pageContent.author ? `Author: ${currentSession.pageContent.author}` : ''}
-        ${currentSession.pageContent.description ? `Description: ${currentSession.pageContent.description}` : ''}
-        
-        Page content:
-        ${currentSession.pageContent.content}
-        
-        Instructions:
-        - Answer questions based on the content above
-        - Be specific and cite relevant parts of the article
-        - If asked about something not in the article, acknowledge this
-        - Be concise but thorough
-        - Use markdown formatting for better readability` :
-        'You are a helpful AI assistant.'
+      const systemPrompt = buildSystemPrompt(currentSession)
+      // Long pages only send the passages that match this question
+      const retrieval = buildRetrievalContext(currentSession, inputText)
+      const context = [buildSelectionContext(currentSession), retrieval?.context]
+        .filter(Boolean)
+        .join('\n\n')
 
       const apiMessages: APIChatMessage[] = [
         {
@@ -240,20 +248,48 @@ const SidePanel: FC = () => {
         }
       ]
 
-      const response = await createChatCompletion(apiMessages, {
-        temperature: 0.7,
-        max_tokens: 1500
-      })
-      
-      const messageContent = response.choices[0]?.message?.content
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+
+      // Accumulate locally and only persist once the stream is finished or stopped
+      let responseText = ''
+      // Written in the offscreen document, once the background AI job queue gets to it.
+      // Cancelling the job from the queue stops the answer like the stop button does.
+      const { stopped: wasStopped } = await streamChatCompletion(
+        {
+          label: `Chat: ${getSessionTitle(currentSession)}`,
+          messages: apiMessages,
+          temperature: 0.7,
+          conversationId: currentSession.key,
+          context: context || undefined,
+          signal: abortController.signal
+        },
+        (chunk) => {
+          responseText += chunk
+          setStreamingText(responseText)
+        }
+      )
+
+      if (wasStopped && !responseText) return
+
+      // Passages the answer cites by label, video times, plus quotes we could find on the page
+      const pageContent = currentSession.pageContent
+      const citations = [
+        ...(retrieval ? extractCitations(responseText, retrieval.passages, currentSession.url) : []),
+        ...(pageContent?.sourceType === 'video' ? extractTimestampCitations(responseText, pageContent, currentSession.url) : []),
+        ...await locateQuotes(currentSession, extractQuotedSpans(responseText))
+      ]
+
       const aiResponse: Message = {
         id: (Date.now() + 1).toString(),
-        text: typeof messageContent === 'string' ? messageContent : 'Sorry, I could not generate a response.',
+        text: responseText || 'Sorry, I could not generate a response.',
         isUser: false,
-        timestamp: new Date()
+        timestamp: new Date(),
+        isStopped: wasStopped || undefined,
+        citations: citations.length > 0 ? citations : undefined
       }
       
-      addMessage(currentSession.domain, aiResponse)
+      addMessage(currentSession.key, aiResponse)
     } catch (error: unknown) {
       console.error('Error calling AI:', error)
       
@@ -263,6 +299,8 @@ const SidePanel: FC = () => {
         if (axiosError.response?.data?.error?.message) {
           errorMessage = axiosError.response.data.error.message
         }
+      } else if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        errorMessage = 'Your chat history is full, so this chat could not be saved. Delete some older chats from the history view.'
       } else if (error instanceof Error) {
         errorMessage = error.message
       }
@@ -274,43 +312,79 @@ const SidePanel: FC = () => {
         timestamp: new Date(),
         isError: true
       }
-      addMessage(currentSession.domain, errorMsg)
+      // The store shows the message before saving it, so a full storage fails here too
+      try {
+        addMessage(currentSession.key, errorMsg)
+      } catch (storeError) {
+        console.error('❌ Failed to save error message:', storeError)
+      }
     } finally {
+      abortControllerRef.current = null
+      setStreamingText('')
       setLoadingMessage(false)
     }
   }
 
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const isMultiTab = isMultiTabSession(currentSession)
+
   const handleRefresh = async () => {
+    if (isMultiTab) {
+      setShowTabPicker(true)
+      return
+    }
     await initializeSession()
   }
 
   const handleClearSession = () => {
     if (currentSession) {
-      clearSession(currentSession.domain)
+      resetChatConversation(currentSession.key)
+      clearSession(currentSession.key)
       initializeSession()
     }
   }
 
-  const handleStartNewChat = async () => {
-    setShowNewChatButton(false)
-    await startNewChat()
+  const handleStartMultiTabChat = async (tabIds: number[]) => {
+    await startMultiTabChat(tabIds)
+    setShowTabPicker(false)
+  }
+
+  const handleToggleMultiTab = () => {
+    if (isMultiTab) {
+      exitMultiTabChat()
+    } else {
+      setShowTabPicker(true)
+    }
+  }
+
+  const handleSelectSession = (key: string) => {
+    selectSession(key)
+    setShowHistory(false)
   }
 
-  const handleDismissNewChat = () => {
-    setShowNewChatButton(false)
+  const handleDeleteSession = (key: string) => {
+    resetChatConversation(key)
+    clearSession(key)
+    // Start over on the current page if its conversation was the one deleted
+    if (key === currentSession?.key) {
+      initializeSession()
+    }
+  }
+
+  const handleExportSession = (key: string, format: ChatExportFormat) => {
+    const session = sessions[key]
+    if (session) {
+      downloadSession(session, format)
+    }
   }
 
   const handleOpenSettings = () => {
     chrome.tabs.create({ url: chrome.runtime.getURL('newtab.html') })
   }
 
-  // Check if we should show the new chat button
-  const shouldShowNewChatButton = showNewChatButton && 
-    pendingPageTitle && 
-    pendingPageUrl &&
-    currentSession && 
-    (getDomainFromUrl(pendingPageUrl) !== currentSession.domain || pendingPageUrl !== currentSession.url)
-
   // Show extension invalid message
   if (isExtensionInvalid) {
     return (
@@ -376,21 +450,42 @@ const SidePanel: FC = () => {
             <RefreshCw className="w-4 h-4" />
             Retry
           </button>
+          <button
+            onClick={openAIStatusPage}
+            className="mt-3 text-xs underline mx-auto block"
+            style={{ color: 'var(--text-tertiary)' }}
+          >
+            Check and download AI models
+          </button>
         </div>
       </div>
     )
   }
 
-  // Show content warning if needed
-  if (showContentWarning && pendingContent) {
+  if (showTabPicker) {
     return (
       <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
-        <ContentWarning
-          contentLength={pendingContent.content?.length || 0}
-          estimatedTokens={estimateTokens(pendingContent.content || '')}
-          pageTitle={pendingContent.title || 'Unknown Page'}
-          onProceed={handleContentWarningProceed}
-          onCancel={handleContentWarningCancel}
+        <TabPicker
+          onStart={handleStartMultiTabChat}
+          onCancel={() => setShowTabPicker(false)}
+        />
+      </div>
+    )
+  }
+
+  if (showHistory) {
+    return (
+      <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+        <ChatHistory
+          sessions={Object.values(sessions)}
+          currentKey={currentSession?.key ?? null}
+          currentDomain={isMultiTab ? undefined : currentSession?.domain}
+          onSelect={handleSelectSession}
+          onRename={renameSession}
+          onTogglePin={togglePinSession}
+          onDelete={handleDeleteSession}
+          onExport={handleExportSession}
+          onClose={() => setShowHistory(false)}
         />
       </div>
     )
@@ -412,12 +507,13 @@ const SidePanel: FC = () => {
 
   if (!currentSession) {
     // Check if we're on a restricted page
-    const isRestrictedUrl = /^(chrome:\/\/|chrome-extension:\/\/|about:|data:|file:\/\/|view-source:)/.test(currentUrl)
+    const isRestricted = isRestrictedUrl(currentUrl)
+    const needsFileAccess = isLocalFileUrl(currentUrl) && isPdfUrl(currentUrl) && !fileAccessAllowed
     
     return (
       <div className="flex flex-col h-screen items-center justify-center p-6 transition-all duration-300 ease-out" style={{ backgroundColor: 'var(--bg)' }}>
         <div className="text-center max-w-md animate-in fade-in slide-in-from-bottom-4 duration-500">
-          {isRestrictedUrl ? (
+          {isRestricted || needsFileAccess ? (
             <>
               <div
                 className="w-12 h-12 mx-auto mb-4 rounded-full flex items-center justify-center transition-all duration-300"
@@ -426,14 +522,18 @@ const SidePanel: FC = () => {
                 <AlertCircle className="w-6 h-6 transition-colors duration-200" style={{ color: 'var(--text-tertiary)' }} />
               </div>
               <h2 className="text-lg font-medium mb-2 transition-colors duration-200" style={{ color: 'var(--text-primary)' }}>
-                Restricted Page
+                {needsFileAccess ? 'Local PDF' : 'Restricted Page'}
               </h2>
               <p className="text-sm mb-4 transition-colors duration-200" style={{ color: 'var(--text-secondary)' }}>
-                Chrome doesn't allow extensions to access this type of page for security reasons.
-              </p>
-              <p className="text-xs transition-colors duration-200" style={{ color: 'var(--text-tertiary)' }}>
-                Please navigate to a regular webpage (like a news article, blog post, or documentation) to use the chat feature.
+                {needsFileAccess
+                  ? FILE_ACCESS_ERROR
+                  : "Chrome doesn't allow extensions to access this type of page for security reasons."}
               </p>
+              {!needsFileAccess && (
+                <p className="text-xs transition-colors duration-200" style={{ color: 'var(--text-tertiary)' }}>
+                  Please navigate to a regular webpage (like a news article, blog post, or documentation) to use the chat feature.
+                </p>
+              )}
             </>
           ) : (
             <>
@@ -452,6 +552,15 @@ const SidePanel: FC = () => {
               </button>
             </>
           )}
+          {Object.keys(sessions).length > 0 && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="mt-4 text-xs underline transition-colors duration-200"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              Open chat history
+            </button>
+          )}
         </div>
       </div>
     )
@@ -460,32 +569,40 @@ const SidePanel: FC = () => {
   return (
     <div className="flex flex-col h-screen transition-all ease-out animate-in fade-in slide-in-from-right-4 duration-500" style={{ backgroundColor: 'var(--bg)' }}>
       <SessionHeader
-        title={currentSession.title}
-        domain={currentSession.domain}
+        title={getSessionTitle(currentSession)}
+        domain={isMultiTab
+          ? (currentSession.sources || []).map(source => getDomainFromUrl(source.url)).join(', ')
+          : currentSession.domain}
         onRefresh={handleRefresh}
         onClear={handleClearSession}
+        onOpenTabPicker={handleToggleMultiTab}
+        onOpenHistory={() => setShowHistory(true)}
+        isMultiTab={isMultiTab}
       />
 
       <ChatMessages
         messages={currentSession.messages}
         isLoading={isLoadingMessage}
+        streamingText={streamingText}
+        onCitationClick={highlightCitation}
       />
 
+      {currentSession.selection && (
+        <SelectionChip
+          selection={currentSession.selection}
+          onRemove={removeSelection}
+        />
+      )}
+
       <ChatInput
         onSendMessage={handleSendMessage}
         disabled={isLoadingMessage}
-        placeholder="Ask about this article..."
+        isStreaming={isLoadingMessage}
+        onStop={handleStopStreaming}
+        placeholder={isMultiTab
+          ? "Ask across the selected tabs..."
+          : currentSession.selection ? "Ask about the selected text..." : "Ask about this article..."}
       />
-
-      {shouldShowNewChatButton && (
-        <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
-          <FloatingNewChatButton
-            pageTitle={pendingPageTitle}
-            onStartNewChat={handleStartNewChat}
-            onDismiss={handleDismissNewChat}
-          />
-        </div>
-      )}
     </div>
   )
 }
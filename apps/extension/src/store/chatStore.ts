@@ -1,208 +1,416 @@
 // apps/extension/src/store/chatStore.ts
 // ** import types
 import type { PageContent } from '@/utils/contentExtractor'
+import type { SelectionContext } from '@/utils/selection'
 
 // ** import core packages
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
 
+// ** import utils
+import { getDomainFromUrl, normalizeUrl } from '@/utils/url'
+import { saveChatContent, getChatContent, deleteChatContent, clearChatContent } from '@/utils/chat-content'
+
+// A page passage or quote the answer cites, e.g. [Passage 3]
+export interface Citation {
+  label: string
+  text: string
+  // Page the text was found on, used to highlight it in the tab
+  url?: string
+  // Page of a PDF, which is opened at it instead of highlighted
+  page?: number
+  // Seconds into a video, which is seeked to instead of highlighted
+  time?: number
+}
+
 export interface Message {
   id: string
   text: string
   isUser: boolean
   timestamp: Date
   isError?: boolean
+  // Set when the user stopped the answer before it finished streaming
+  isStopped?: boolean
+  citations?: Citation[]
 }
 
 export interface ChatSession {
+  // Normalized canonical URL of the page, or a multi-tab key from createMultiTabKey
+  key: string
   domain: string
   url: string
   title: string
   messages: Message[]
+  // Kept in IndexedDB, see utils/chat-content.ts; null until the session is opened
   pageContent: PageContent | null
+  // Set for multi-tab chats, one entry per selected tab. Their text is in
+  // IndexedDB too, only the title and URL are stored with the session.
+  sources?: PageContent[]
+  // Text picked with "Chat with Page" on a selection, sent along with each question
+  selection?: SelectionContext
+  // Name given in the history view, shown instead of the page title
+  customTitle?: string
+  pinned?: boolean
   createdAt: Date
   lastActiveAt: Date
 }
 
+// Multi-tab chats aren't tied to a page, so each gets a key of its own.
+// Chats from before that all used the bare prefix.
+export const MULTI_TAB_SESSION_KEY = 'multi-tab'
+
+const createMultiTabKey = (): string => `${MULTI_TAB_SESSION_KEY}-${Date.now()}`
+
+export const isMultiTabKey = (key: string | null): boolean =>
+  !!key && (key === MULTI_TAB_SESSION_KEY || key.startsWith(`${MULTI_TAB_SESSION_KEY}-`))
+
+export const isMultiTabSession = (session: ChatSession | null): boolean =>
+  !!session && isMultiTabKey(session.key)
+
+export const getSessionTitle = (session: ChatSession): string =>
+  session.customTitle || session.title || 'Untitled Page'
+
+// Past this, the least recently used unpinned chats are dropped
+const MAX_SESSIONS = 50
+
+/**
+ * Drop the least recently used sessions past MAX_SESSIONS, with their URL
+ * aliases. Pinned chats and the open one are never dropped.
+ */
+const evictSessions = (
+  sessions: Record<string, ChatSession>,
+  urlAliases: Record<string, string>,
+  currentKey: string | null
+): { sessions: Record<string, ChatSession>; urlAliases: Record<string, string>; evicted: string[] } => {
+  const excess = Object.keys(sessions).length - MAX_SESSIONS
+  if (excess <= 0) return { sessions, urlAliases, evicted: [] }
+
+  const evicted = Object.values(sessions)
+    .filter(session => !session.pinned && session.key !== currentKey)
+    .sort((a, b) => a.lastActiveAt.getTime() - b.lastActiveAt.getTime())
+    .slice(0, excess)
+    .map(session => session.key)
+  if (evicted.length === 0) return { sessions, urlAliases, evicted }
+
+  const dropped = new Set(evicted)
+  return {
+    sessions: Object.fromEntries(Object.entries(sessions).filter(([key]) => !dropped.has(key))),
+    urlAliases: Object.fromEntries(Object.entries(urlAliases).filter(([, key]) => !dropped.has(key))),
+    evicted
+  }
+}
+
+const deleteContent = (keys: string[]): void => {
+  if (keys.length === 0) return
+  deleteChatContent(keys).catch(error => console.error('❌ Failed to delete chat content:', error))
+}
+
+// What localStorage keeps of a session: the conversation, not the pages
+const withoutContent = (session: ChatSession): ChatSession => ({
+  ...session,
+  pageContent: null,
+  sources: session.sources?.map(source => ({ title: source.title, url: source.url, content: '' }))
+})
+
+const hasContent = (session: ChatSession): boolean =>
+  session.sources ? session.sources.some(source => !!source.content) : !!session.pageContent
+
+const storeContent = async (session: ChatSession): Promise<void> => {
+  try {
+    await saveChatContent({ key: session.key, pageContent: session.pageContent, sources: session.sources })
+  } catch (error) {
+    console.error('❌ Failed to store chat content:', error)
+  }
+}
+
+const createWelcomeMessage = (text: string): Message => ({
+  id: `welcome-${Date.now()}`,
+  text,
+  isUser: false,
+  timestamp: new Date()
+})
+
 interface ChatStore {
   // Current active session
-  currentDomain: string | null
+  currentKey: string | null
   currentSession: ChatSession | null
-  
-  // All sessions by domain
+
+  // All sessions by normalized page URL
   sessions: Record<string, ChatSession>
-  
+
+  // Tab URLs we've seen mapped to the session key of their canonical URL
+  urlAliases: Record<string, string>
+
   // UI state
   isLoadingContent: boolean
   isLoadingMessage: boolean
-  showNewChatButton: boolean
-  showContentWarning: boolean
-  pendingContent: PageContent | null
-  
+
   // Actions
-  setCurrentDomain: (domain: string | null) => void
-  createSession: (domain: string, url: string, title: string, pageContent: PageContent) => void
-  updateSession: (domain: string, updates: Partial<ChatSession>) => void
-  addMessage: (domain: string, message: Message) => void
-  loadSession: (domain: string) => void
-  clearSession: (domain: string) => void
+  createSession: (key: string, pageContent: PageContent) => void
+  createMultiTabSession: (sources: PageContent[]) => void
+  updateSession: (key: string, updates: Partial<ChatSession>) => void
+  addMessage: (key: string, message: Message) => void
+  // Resolves once the session's page text is back from IndexedDB
+  loadSession: (key: string) => Promise<void>
+  clearSession: (key: string) => void
   clearCurrentSession: () => void
   clearAllSessions: () => void
+  renameSession: (key: string, title: string) => void
+  togglePinSession: (key: string) => void
+  addUrlAlias: (url: string, key: string) => void
+  resolveSessionKey: (url: string) => string
   setLoadingContent: (loading: boolean) => void
   setLoadingMessage: (loading: boolean) => void
-  setShowNewChatButton: (show: boolean) => void
-  setShowContentWarning: (show: boolean) => void
-  setPendingContent: (content: PageContent | null) => void
-  getSessionByDomain: (domain: string) => ChatSession | null
-  hasSessionForDomain: (domain: string) => boolean
+  getSessionsByDomain: (domain: string) => ChatSession[]
+  hasSession: (key: string) => boolean
 }
 
 export const useChatStore = create<ChatStore>()(
   persist(
-    (set, get) => ({
-      // Initial state
-      currentDomain: null,
-      currentSession: null,
-      sessions: {},
-      isLoadingContent: false,
-      isLoadingMessage: false,
-      showNewChatButton: false,
-      showContentWarning: false,
-      pendingContent: null,
-      
-      // Actions
-      setCurrentDomain: (domain) => set({ 
-        currentDomain: domain,
-        currentSession: domain ? get().sessions[domain] || null : null
-      }),
-      
-      createSession: (domain, url, title, pageContent) => {
-        const newSession: ChatSession = {
-          domain,
-          url,
-          title,
-          messages: [
-            {
-              id: `welcome-${Date.now()}`,
-              text: `I'm ready to help you with "${title}". What would you like to know about this article?`,
-              isUser: false,
-              timestamp: new Date()
-            }
-          ],
-          pageContent,
-          createdAt: new Date(),
-          lastActiveAt: new Date()
+    (set, get) => {
+      // Make a new session the open one, making room for it first
+      const addNewSession = (newSession: ChatSession) => {
+        const state = get()
+        const { sessions, urlAliases, evicted } = evictSessions(
+          { ...state.sessions, [newSession.key]: newSession },
+          state.urlAliases,
+          newSession.key
+        )
+        if (evicted.length > 0) {
+          console.log('🗑️ Dropping least recently used chats:', evicted)
         }
-        
-        set((state) => ({
-          sessions: {
-            ...state.sessions,
-            [domain]: newSession
-          },
-          currentDomain: domain,
-          currentSession: newSession,
-          showNewChatButton: false
-        }))
-      },
-      
-      updateSession: (domain, updates) => {
-        set((state) => {
-          const existingSession = state.sessions[domain]
-          if (!existingSession) return state
-          
-          const updatedSession = {
-            ...existingSession,
-            ...updates,
+
+        set({
+          sessions,
+          urlAliases,
+          currentKey: newSession.key,
+          currentSession: newSession
+        })
+        storeContent(newSession)
+        deleteContent(evicted)
+      }
+
+      return {
+        // Initial state
+        currentKey: null,
+        currentSession: null,
+        sessions: {},
+        urlAliases: {},
+        isLoadingContent: false,
+        isLoadingMessage: false,
+
+        // Actions
+        createSession: (key, pageContent) => {
+          const newSession: ChatSession = {
+            key,
+            domain: getDomainFromUrl(pageContent.url),
+            url: pageContent.url,
+            title: pageContent.title,
+            messages: [
+              createWelcomeMessage(`I'm ready to help you with "${pageContent.title}". What would you like to know about this article?`)
+            ],
+            pageContent,
+            createdAt: new Date(),
             lastActiveAt: new Date()
           }
-          
-          return {
-            sessions: {
-              ...state.sessions,
-              [domain]: updatedSession
-            },
-            currentSession: state.currentDomain === domain ? updatedSession : state.currentSession
-          }
-        })
-      },
-      
-      addMessage: (domain, message) => {
-        set((state) => {
-          const session = state.sessions[domain]
-          if (!session) return state
-          
-          const updatedSession = {
-            ...session,
-            messages: [...session.messages, message],
+
+          addNewSession(newSession)
+        },
+
+        createMultiTabSession: (sources) => {
+          const key = createMultiTabKey()
+          const newSession: ChatSession = {
+            key,
+            domain: MULTI_TAB_SESSION_KEY,
+            url: '',
+            title: `${sources.length} ${sources.length === 1 ? 'tab' : 'tabs'}`,
+            messages: [
+              createWelcomeMessage(`I'm ready to help you compare ${sources.map((source, i) => `**Tab ${i + 1}:** ${source.title}`).join(', ')}. What would you like to know?`)
+            ],
+            pageContent: null,
+            sources,
+            createdAt: new Date(),
             lastActiveAt: new Date()
           }
-          
-          return {
-            sessions: {
-              ...state.sessions,
-              [domain]: updatedSession
-            },
-            currentSession: state.currentDomain === domain ? updatedSession : state.currentSession,
-            // Don't change showNewChatButton when adding messages
-            showNewChatButton: state.showNewChatButton
+
+          addNewSession(newSession)
+        },
+
+        updateSession: (key, updates) => {
+          set((state) => {
+            const existingSession = state.sessions[key]
+            if (!existingSession) return state
+
+            const updatedSession = {
+              ...existingSession,
+              ...updates,
+              lastActiveAt: new Date()
+            }
+
+            return {
+              sessions: {
+                ...state.sessions,
+                [key]: updatedSession
+              },
+              currentSession: state.currentKey === key ? updatedSession : state.currentSession
+            }
+          })
+
+          const updatedSession = get().sessions[key]
+          if (updatedSession && ('pageContent' in updates || 'sources' in updates)) {
+            storeContent(updatedSession)
           }
-        })
-      },
-      
-      loadSession: (domain) => {
-        const session = get().sessions[domain]
-        if (session) {
+        },
+
+        addMessage: (key, message) => {
+          set((state) => {
+            const session = state.sessions[key]
+            if (!session) return state
+
+            const updatedSession = {
+              ...session,
+              messages: [...session.messages, message],
+              lastActiveAt: new Date()
+            }
+
+            return {
+              sessions: {
+                ...state.sessions,
+                [key]: updatedSession
+              },
+              currentSession: state.currentKey === key ? updatedSession : state.currentSession
+            }
+          })
+        },
+
+        loadSession: async (key) => {
+          const session = get().sessions[key]
+          if (!session) return
+
           set({
-            currentDomain: domain,
+            currentKey: key,
             currentSession: session
           })
-        }
-      },
-      
-      clearSession: (domain) => {
-        set((state) => {
-          const { [domain]: removed, ...remainingSessions } = state.sessions
-          const isCurrentSession = state.currentDomain === domain
-          
-          return {
-            sessions: remainingSessions,
-            currentDomain: isCurrentSession ? null : state.currentDomain,
-            currentSession: isCurrentSession ? null : state.currentSession,
-            showNewChatButton: false
+          if (hasContent(session)) return
+
+          try {
+            const stored = await getChatContent(key)
+            if (!stored) return
+
+            set((state) => {
+              const latest = state.sessions[key]
+              // The tab may have sent fresher content in the meantime
+              if (!latest || hasContent(latest)) return state
+
+              const restoredSession = {
+                ...latest,
+                pageContent: stored.pageContent,
+                sources: stored.sources ?? latest.sources
+              }
+              return {
+                sessions: {
+                  ...state.sessions,
+                  [key]: restoredSession
+                },
+                currentSession: state.currentKey === key ? restoredSession : state.currentSession
+              }
+            })
+          } catch (error) {
+            console.error('❌ Failed to restore chat content:', error)
           }
-        })
-      },
-      
-      clearCurrentSession: () => set({
-        currentDomain: null,
-        currentSession: null,
-        showNewChatButton: false
-      }),
-      
-      clearAllSessions: () => set({
-        sessions: {},
-        currentDomain: null,
-        currentSession: null,
-        showNewChatButton: false
-      }),
-      
-      setLoadingContent: (loading) => set({ isLoadingContent: loading }),
-      setLoadingMessage: (loading) => set({ isLoadingMessage: loading }),
-      setShowContentWarning: (show) => set({ showContentWarning: show }),
-      setPendingContent: (content) => set({ pendingContent: content }),
-      setShowNewChatButton: (show) => set((state) => {
-        // Only update if the value actually changes
-        if (state.showNewChatButton !== show) {
-          return { showNewChatButton: show }
-        }
-        return state
-      }),
-      
-      getSessionByDomain: (domain) => get().sessions[domain] || null,
-      hasSessionForDomain: (domain) => !!get().sessions[domain]
-    }),
+        },
+
+        clearSession: (key) => {
+          set((state) => {
+            const { [key]: removed, ...remainingSessions } = state.sessions
+            const isCurrentSession = state.currentKey === key
+
+            return {
+              sessions: remainingSessions,
+              currentKey: isCurrentSession ? null : state.currentKey,
+              currentSession: isCurrentSession ? null : state.currentSession
+            }
+          })
+          deleteContent([key])
+        },
+
+        clearCurrentSession: () => set({
+          currentKey: null,
+          currentSession: null
+        }),
+
+        clearAllSessions: () => {
+          set({
+            sessions: {},
+            urlAliases: {},
+            currentKey: null,
+            currentSession: null
+          })
+          clearChatContent().catch(error => console.error('❌ Failed to clear chat content:', error))
+        },
+
+        // Renaming and pinning aren't activity, so they leave lastActiveAt alone
+        renameSession: (key, title) => {
+          set((state) => {
+            const session = state.sessions[key]
+            if (!session) return state
+
+            const updatedSession = { ...session, customTitle: title.trim() || undefined }
+            return {
+              sessions: {
+                ...state.sessions,
+                [key]: updatedSession
+              },
+              currentSession: state.currentKey === key ? updatedSession : state.currentSession
+            }
+          })
+        },
+
+        togglePinSession: (key) => {
+          set((state) => {
+            const session = state.sessions[key]
+            if (!session) return state
+
+            const updatedSession = { ...session, pinned: !session.pinned }
+            return {
+              sessions: {
+                ...state.sessions,
+                [key]: updatedSession
+              },
+              currentSession: state.currentKey === key ? updatedSession : state.currentSession
+            }
+          })
+        },
+
+        addUrlAlias: (url, key) => {
+          const normalized = normalizeUrl(url)
+          if (normalized === key || get().urlAliases[normalized] === key) return
+
+          set((state) => ({
+            urlAliases: {
+              ...state.urlAliases,
+              [normalized]: key
+            }
+          }))
+        },
+
+        resolveSessionKey: (url) => {
+          const normalized = normalizeUrl(url)
+          return get().urlAliases[normalized] || normalized
+        },
+
+        setLoadingContent: (loading) => set({ isLoadingContent: loading }),
+        setLoadingMessage: (loading) => set({ isLoadingMessage: loading }),
+
+        getSessionsByDomain: (domain) => Object.values(get().sessions)
+          .filter(session => session.domain === domain)
+          .sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime()),
+        hasSession: (key) => !!get().sessions[key]
+      }
+    },
     {
       name: 'talktomytabs-chat-storage',
+      version: 2,
       storage: createJSONStorage(() => ({
         getItem: (name) => {
           const str = localStorage.getItem(name)
@@ -227,10 +435,42 @@ export const useChatStore = create<ChatStore>()(
           localStorage.removeItem(name)
         }
       })),
+      migrate: async (persistedState: any, version) => {
+        // v0 keyed sessions by domain, re-key them by their page URL
+        if (version === 0 && persistedState?.sessions) {
+          const sessions: Record<string, ChatSession> = {}
+          Object.entries(persistedState.sessions).forEach(([domain, session]: [string, any]) => {
+            const key = domain === MULTI_TAB_SESSION_KEY
+              ? MULTI_TAB_SESSION_KEY
+              : normalizeUrl(session.pageContent?.canonicalUrl || session.url)
+            sessions[key] = { ...session, key }
+          })
+
+          persistedState = {
+            sessions,
+            urlAliases: {},
+            currentKey: null
+          }
+        }
+
+        // v1 kept the page text in localStorage too, move it to IndexedDB
+        if (version < 2 && persistedState?.sessions) {
+          const sessions = Object.values(persistedState.sessions) as ChatSession[]
+          await Promise.all(sessions.map(storeContent))
+          persistedState = {
+            ...persistedState,
+            sessions: Object.fromEntries(sessions.map(session => [session.key, withoutContent(session)]))
+          }
+        }
+        return persistedState
+      },
       partialize: (state) => ({
-        sessions: state.sessions,
-        currentDomain: state.currentDomain
+        sessions: Object.fromEntries(
+          Object.entries(state.sessions).map(([key, session]) => [key, withoutContent(session)])
+        ),
+        urlAliases: state.urlAliases,
+        currentKey: state.currentKey
       })
     }
   )
-)
\ No newline at end of file
+)
@@ -0,0 +1,57 @@
+// apps/extension/src/tabs/ai-status.tsx
+// ** import types
+import type { FC } from "react"
+
+// ** import core packages
+import React, { useEffect } from "react"
+
+// ** import utils
+import { getSetupInstructions } from "@/utils/chrome-ai-check"
+
+// ** import components
+import AIReadiness from "@/components/settings/AIReadiness"
+import AIJobList from "@/components/ui/AIJobList"
+
+// ** import styles
+import "@/styles/style.css"
+
+const AIStatusPage: FC = () => {
+  useEffect(() => {
+    const savedTheme = localStorage.getItem("theme") || "light"
+    document.documentElement.setAttribute("data-theme", savedTheme)
+    document.title = "TalkToMyTabs – AI status"
+  }, [])
+
+  return (
+    <div className="min-h-screen flex justify-center p-8" style={{ backgroundColor: 'var(--bg)' }}>
+      <div className="w-full max-w-md space-y-4">
+        <div>
+          <h1 className="text-lg font-medium" style={{ color: 'var(--text-primary)' }}>
+            AI status
+          </h1>
+          <p className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+            TalkToMyTabs runs on the AI models built into Chrome. Each one downloads once and then works offline.
+          </p>
+        </div>
+
+        <AIReadiness />
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+            AI jobs
+          </div>
+          <AIJobList />
+        </div>
+
+        <div className="text-xs space-y-1" style={{ color: 'var(--text-tertiary)' }}>
+          <div>If a model shows as not supported:</div>
+          {getSetupInstructions().map((instruction, i) => (
+            <div key={i}>{instruction}</div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AIStatusPage
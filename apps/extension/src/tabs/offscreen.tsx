@@ -0,0 +1,177 @@
+/**
+ * Offscreen Document for Chrome AI Operations
+ *
+ * Runs AI operations in isolated context for better stability
+ * Based on: https://developer.chrome.com/docs/extensions/reference/api/offscreen
+ *
+ * Opened and closed by utils/offscreen-helper.ts. Only answers messages
+ * addressed to it, and reports progress and chat chunks back by messageId.
+ */
+
+// ** import types
+import type {
+  OffscreenRequest,
+  OffscreenRequestData,
+  OffscreenResponse,
+  OffscreenEvent
+} from '@/utils/offscreen-helper'
+
+// ** import utils
+import { sessionManager } from '@/utils/session-manager'
+import { OFFSCREEN_TARGET } from '@/utils/offscreen-helper'
+import { extractPdfText } from '@/utils/pdf-text'
+
+// ** import apis
+import { simplifyArticleStreaming, generateArticleFromContent } from '@/api/chrome-ai/articles'
+import { createChatCompletionStreaming, resetConversation } from '@/api/chrome-ai/chat'
+import { runSelectionAction } from '@/api/chrome-ai/selection'
+import { runWritingAction } from '@/api/chrome-ai/writing'
+
+console.log('🔧 Offscreen document loaded')
+
+// Running requests, so a cancel message can stop them
+const controllers = new Map<string, AbortController>()
+
+// Handle requests from the background
+chrome.runtime.onMessage.addListener((message: OffscreenRequest, sender, sendResponse) => {
+  // Everything else is for the background or the pages
+  if (message?.target !== OFFSCREEN_TARGET) return false
+
+  console.log('📨 Offscreen received message:', message.action)
+  const { messageId } = message
+
+  handleAIOperation(message)
+    .then(result => {
+      sendResponse({ messageId, success: true, data: result } satisfies OffscreenResponse)
+    })
+    .catch(error => {
+      console.error('❌ Offscreen AI error:', error)
+      sendResponse({
+        messageId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      } satisfies OffscreenResponse)
+    })
+
+  return true // Keep channel open for async response
+})
+
+async function handleAIOperation(message: OffscreenRequest): Promise<any> {
+  const { action, data, messageId } = message
+
+  if (action === 'cancel') {
+    const { messageId: cancelId } = data as OffscreenRequestData['cancel']
+    controllers.get(cancelId)?.abort()
+    return controllers.has(cancelId)
+  }
+
+  const controller = new AbortController()
+  controllers.set(messageId, controller)
+
+  try {
+    switch (action) {
+      case 'simplify':
+        return await handleSimplify(data as OffscreenRequestData['simplify'], messageId, controller.signal)
+
+      case 'chat':
+        return await handleChat(data as OffscreenRequestData['chat'], messageId, controller.signal)
+
+      case 'generate':
+        return await handleGenerate(data as OffscreenRequestData['generate'])
+
+      case 'reset-conversation':
+        resetConversation((data as OffscreenRequestData['reset-conversation']).conversationId)
+        return
+
+      case 'selection-action': {
+        const { action: selectionAction, text, paragraph } = data as OffscreenRequestData['selection-action']
+        return await runSelectionAction(selectionAction, text, paragraph)
+      }
+
+      case 'writing-action': {
+        const { action: writingAction, input } = data as OffscreenRequestData['writing-action']
+        return await runWritingAction(writingAction, input)
+      }
+
+      case 'extract-pdf':
+        return await extractPdfText(
+          (data as OffscreenRequestData['extract-pdf']).url,
+          progress => emit({ messageId, progress })
+        )
+
+      default:
+        throw new Error(`Unknown action: ${action}`)
+    }
+  } finally {
+    controllers.delete(messageId)
+  }
+}
+
+// Progress and chunks go to whoever is waiting on this request
+function emit(event: Omit<OffscreenEvent, 'action'>): void {
+  chrome.runtime.sendMessage({ action: 'offscreenEvent', ...event } satisfies OffscreenEvent)
+    .catch(() => undefined)
+}
+
+/**
+ * Handle simplification in offscreen, streaming each section back as it's written
+ */
+async function handleSimplify(
+  data: OffscreenRequestData['simplify'],
+  messageId: string,
+  signal: AbortSignal
+): Promise<void> {
+  const { sections, level, mode, context } = data
+
+  await simplifyArticleStreaming(
+    sections,
+    level,
+    mode,
+    context,
+    (section, chunk) => emit({ messageId, section, chunk }),
+    (section, text) => emit({ messageId, section, text, progress: (section + 1) / sections.length }),
+    signal
+  )
+}
+
+/**
+ * Handle chat in offscreen, streaming the answer back as it's written
+ */
+async function handleChat(
+  data: OffscreenRequestData['chat'],
+  messageId: string,
+  signal: AbortSignal
+): Promise<string> {
+  const { messages, temperature, conversationId, context } = data
+
+  let answer = ''
+  await createChatCompletionStreaming(messages, (chunk) => {
+    answer += chunk
+    emit({ messageId, chunk })
+  }, {
+    temperature,
+    signal,
+    conversationId,
+    context
+  })
+
+  return answer
+}
+
+/**
+ * Handle article generation in offscreen
+ */
+async function handleGenerate(data: OffscreenRequestData['generate']): Promise<string> {
+  return generateArticleFromContent(data.pageContent)
+}
+
+// Cleanup on unload
+window.addEventListener('unload', async () => {
+  console.log('🧹 Offscreen cleanup')
+  await sessionManager.destroyAll()
+})
+
+// Plasmo builds tab pages from a component; this document has no UI
+const OffscreenPage = () => null
+
+export default OffscreenPage
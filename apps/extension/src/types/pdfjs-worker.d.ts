@@ -0,0 +1,3 @@
+// apps/extension/src/types/pdfjs-worker.d.ts
+// pdfjs-dist ships no types for its worker build, utils/pdf-text.ts only hands it to pdf.js
+declare module 'pdfjs-dist/build/pdf.worker.mjs'
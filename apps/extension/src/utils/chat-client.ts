@@ -0,0 +1,91 @@
+// apps/extension/src/utils/chat-client.ts
+// ** import types
+import type { ChatMessage } from '@/api/chrome-ai/types'
+
+export const CHAT_PORT_NAME = 'ai-chat'
+
+// Sent by the page to start an answer; disconnecting stops it
+export interface ChatStreamRequest {
+  type: 'start'
+  label: string
+  messages: ChatMessage[]
+  temperature?: number
+  conversationId?: string
+  // Extra material for this question only, e.g. retrieved page passages
+  context?: string
+}
+
+// Sent back by the background while the answer is written
+export type ChatStreamMessage =
+  | { type: 'chunk'; chunk: string }
+  | { type: 'done' }
+  | { type: 'cancelled' }
+  | { type: 'error'; error: string }
+
+interface StreamChatOptions extends Omit<ChatStreamRequest, 'type'> {
+  signal?: AbortSignal
+}
+
+/**
+ * Stream a chat answer from the offscreen document, through the background
+ * job queue. Resolves once the answer is complete, or stopped - by the signal
+ * or by cancelling the job from the queue.
+ */
+export const streamChatCompletion = (
+  options: StreamChatOptions,
+  onChunk: (chunk: string) => void
+): Promise<{ stopped: boolean }> => {
+  const { signal, ...request } = options
+  const port = chrome.runtime.connect({ name: CHAT_PORT_NAME })
+
+  return new Promise((resolve, reject) => {
+    let isSettled = false
+
+    const finish = (error: Error | null, stopped = false) => {
+      if (isSettled) return
+      isSettled = true
+      signal?.removeEventListener('abort', handleAbort)
+      port.disconnect()
+      if (error) reject(error)
+      else resolve({ stopped })
+    }
+
+    const handleAbort = () => finish(null, true)
+    signal?.addEventListener('abort', handleAbort)
+
+    port.onMessage.addListener((message: ChatStreamMessage) => {
+      switch (message.type) {
+        case 'chunk':
+          onChunk(message.chunk)
+          break
+        case 'done':
+          finish(null)
+          break
+        case 'cancelled':
+          finish(null, true)
+          break
+        case 'error':
+          finish(new Error(message.error))
+          break
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      finish(new Error('Lost connection to the background'))
+    })
+
+    if (signal?.aborted) {
+      finish(null, true)
+      return
+    }
+    port.postMessage({ type: 'start', ...request } satisfies ChatStreamRequest)
+  })
+}
+
+/**
+ * Forget what the model remembers of a conversation
+ */
+export const resetChatConversation = (conversationId: string): void => {
+  chrome.runtime.sendMessage({ action: 'resetConversation', data: { conversationId } })
+    .catch(error => console.warn('⚠️ Failed to reset conversation:', error))
+}
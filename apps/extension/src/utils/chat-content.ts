@@ -0,0 +1,70 @@
+// apps/extension/src/utils/chat-content.ts
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+
+// The page text each chat was started from, kept in the extension's IndexedDB
+// rather than with the conversations in localStorage: a few long pages are
+// enough to fill localStorage's quota, after which no chat is saved at all.
+
+export interface StoredChatContent {
+  // Session key
+  key: string
+  pageContent: PageContent | null
+  sources?: PageContent[]
+}
+
+const DB_NAME = 'talktomytabs-chat'
+const DB_VERSION = 1
+const STORE_NAME = 'contents'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// Run one transaction and resolve with what `run` produced once it commits
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const saveChatContent = async (content: StoredChatContent): Promise<void> => {
+  await withStore('readwrite', store => store.put(content))
+}
+
+export const getChatContent = async (key: string): Promise<StoredChatContent | null> =>
+  (await withStore<StoredChatContent>('readonly', store => store.get(key))) ?? null
+
+export const deleteChatContent = async (keys: string[]): Promise<void> => {
+  await withStore('readwrite', store => {
+    keys.forEach(key => store.delete(key))
+  })
+}
+
+export const clearChatContent = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear())
+}
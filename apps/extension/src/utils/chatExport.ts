@@ -0,0 +1,80 @@
+// apps/extension/src/utils/chatExport.ts
+// ** import types
+import type { ChatSession } from '@/store/chatStore'
+
+// ** import utils
+import { getSessionTitle } from '@/store/chatStore'
+
+export type ChatExportFormat = 'markdown' | 'json'
+
+// Welcome messages are generated by the extension, not part of the conversation
+const getConversationMessages = (session: ChatSession) =>
+  session.messages.filter(message => !message.id.startsWith('welcome'))
+
+export const exportSessionToMarkdown = (session: ChatSession): string => {
+  const lines: string[] = [`# ${getSessionTitle(session)}`, '']
+
+  if (session.sources && session.sources.length > 0) {
+    session.sources.forEach((source, i) => {
+      lines.push(`- Tab ${i + 1}: [${source.title}](${source.url})`)
+    })
+  } else {
+    lines.push(`- URL: ${session.url}`)
+  }
+  lines.push(`- Started: ${session.createdAt.toLocaleString()}`)
+  lines.push(`- Last active: ${session.lastActiveAt.toLocaleString()}`)
+
+  getConversationMessages(session).forEach(message => {
+    const author = message.isUser ? 'You' : 'Assistant'
+    const note = message.isError ? ' (error)' : message.isStopped ? ' (stopped)' : ''
+    lines.push('', '---', '', `**${author}**${note} · ${message.timestamp.toLocaleString()}`, '', message.text)
+  })
+
+  return lines.join('\n') + '\n'
+}
+
+export const exportSessionToJson = (session: ChatSession): string => {
+  return JSON.stringify({
+    title: getSessionTitle(session),
+    url: session.url,
+    domain: session.domain,
+    sources: session.sources?.map(source => ({ title: source.title, url: source.url })),
+    createdAt: session.createdAt.toISOString(),
+    lastActiveAt: session.lastActiveAt.toISOString(),
+    messages: getConversationMessages(session).map(message => ({
+      role: message.isUser ? 'user' : 'assistant',
+      text: message.text,
+      timestamp: message.timestamp.toISOString(),
+      ...(message.isError && { isError: true }),
+      ...(message.isStopped && { isStopped: true })
+    }))
+  }, null, 2)
+}
+
+const toFileName = (title: string): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return slug || 'conversation'
+}
+
+/**
+ * Save a conversation as a .md or .json file through the browser's download
+ */
+export const downloadSession = (session: ChatSession, format: ChatExportFormat): void => {
+  const isMarkdown = format === 'markdown'
+  const blob = new Blob(
+    [isMarkdown ? exportSessionToMarkdown(session) : exportSessionToJson(session)],
+    { type: isMarkdown ? 'text/markdown' : 'application/json' }
+  )
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${toFileName(getSessionTitle(session))}.${isMarkdown ? 'md' : 'json'}`
+  link.click()
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
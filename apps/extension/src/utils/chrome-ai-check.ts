@@ -1,21 +1,26 @@
-import { checkPromptApiAvailability } from '@/api/chrome-ai/availability'
+import { checkAllApisAvailability, type AIApiAvailability } from '@/api/chrome-ai/availability'
 import type { AIAvailability } from '@/api/chrome-ai/types'
 
 export interface ChromeAIStatus {
   available: boolean
+  // The Prompt API, which chat and article generation depend on
   availability: AIAvailability
   message: string
+  // Every built-in AI API, for the readiness page
+  apis?: AIApiAvailability
 }
 
 export const checkChromeAI = async (): Promise<ChromeAIStatus> => {
   try {
-    const availability = await checkPromptApiAvailability()
+    const apis = await checkAllApisAvailability()
+    const availability = apis.languageModel
 
     switch (availability) {
       case 'available':
         return {
           available: true,
           availability,
+          apis,
           message: 'Chrome AI is ready'
         }
 
@@ -23,13 +28,15 @@ export const checkChromeAI = async (): Promise<ChromeAIStatus> => {
         return {
           available: false,
           availability,
-          message: 'Chrome AI model needs to be downloaded. Please interact with the page to start download.'
+          apis,
+          message: 'Chrome AI model needs to be downloaded. Start the download from the AI status page.'
         }
 
       case 'downloading':
         return {
           available: false,
           availability,
+          apis,
           message: 'Chrome AI model is downloading. Please wait...'
         }
 
@@ -38,6 +45,7 @@ export const checkChromeAI = async (): Promise<ChromeAIStatus> => {
         return {
           available: false,
           availability: 'unavailable',
+          apis,
           message: 'Chrome AI is not available. Please use Chrome Canary 138+ with Built-in AI flags enabled.'
         }
     }
@@ -61,3 +69,8 @@ export const getSetupInstructions = (): string[] => {
     '4. Restart Chrome and try again'
   ]
 }
+
+// Per-model availability and downloads live on their own extension page
+export const openAIStatusPage = () => {
+  chrome.tabs.create({ url: chrome.runtime.getURL('tabs/ai-status.html') })
+}
@@ -0,0 +1,39 @@
+// apps/extension/src/utils/common-words.ts
+
+// Everyday English words, in base form. Words outside this list count as rare
+// when measuring how hard a text is to read.
+export const COMMON_WORDS = new Set(`
+a able about above across act actually add after again against age ago agree air all allow almost alone along already also
+although always am among amount an and animal another answer any anyone anything appear area arm around arrive art as ask
+at away baby back bad bag ball bank base be beautiful because become bed before begin behind believe best better between
+big bill bit black blood blue board boat body book born both box boy break bring brother build building business busy but
+buy by call can car card care carry case cat catch cause center certain chair chance change charge check child choose
+church city class clear close cold college color come common company complete computer control cost could country course
+cover create cup cut dark data daughter day dead deal dear death decide deep develop did die difference different difficult
+dinner direction do doctor dog door down draw dream dress drink drive drop during each early earth east easy eat edge effect
+eight either else end energy enough enter even evening event ever every everyone everything example experience explain eye
+face fact fail fall family far farm fast father fear feel few field fight figure fill final find fine finish fire first fish
+five floor fly follow food foot for force forget form forward four free friend from front full fun future game garden
+general get girl give glass go god good government great green ground group grow guess gun hair half hand happen happy hard
+has hat have he head health hear heart heat heavy help her here high hill him his history hit hold hole home hope horse hot
+hotel hour house how however huge human hundred husband i idea if important in include increase indeed information inside
+instead interest into is issue it its job join just keep key kid kill kind king kitchen know land language large last late
+later laugh law lay lead learn least leave left leg less let letter level lie life light like line list listen little live
+local long look lose lot love low machine main major make man many market matter may maybe me mean measure meet member
+message method middle might mile milk mind minute miss moment money month more morning most mother mountain mouth move movie
+much music must my name nation natural near need never new news next nice night nine no none nor north not note nothing
+notice now number of off offer office often oh oil ok old on once one only open or order other our out outside over own page
+pain paper parent part party pass past pay people per perhaps person phone pick picture piece place plan plant play please
+point police poor popular position possible power present pretty price problem process produce program provide public pull
+push put question quick quickly quite race rain raise rate rather reach read ready real really reason receive record red
+remember report rest result return rich right river road rock role room rule run safe same save say school science sea
+season seat second see seem sell send sense serve set seven several shake she ship shop short should show side sign simple
+since sing sister sit six size skin sleep slow small smile snow so some someone something sometimes son song soon sorry
+sound south space speak special spend sport spring stand star start state stay step still stop store story street strong
+student study stuff such summer sun support sure table take talk tax teach teacher team tell ten test than thank that the
+their them then there these they thing think third this those though thought thousand three through throw time to today
+together too top total touch toward town tree trip trouble true try turn two type under understand until up upon us use
+usually very view visit voice wait walk wall want war warm was watch water way we wear weather week well west what when
+where whether which while white who whole why wide wife will win window winter wish with within without woman wonder word
+work world worry would write wrong yard yeah year yes yet you young your
+`.trim().split(/\s+/))
@@ -1,78 +1,261 @@
 // apps/extension/src/utils/contentExtractor.ts
+// ** import types
+import type { PageHeading } from '@/utils/readability'
+
+// ** import utils
+import { extractReadableContent } from '@/utils/readability'
+
+// The one extractor for chat, saving and simplifying. It runs in the
+// content-extractor content script, which the background injects into tabs
+// that were open before the extension was installed. Sites with their own
+// layout are read by an adapter from utils/site-adapters first.
+
 export interface PageContent {
     title: string
     url: string
+    // From <link rel="canonical">, used to key chat sessions
+    canonicalUrl?: string
+    // The article as Markdown, with headings, lists, tables and code kept
     content: string
     description?: string
     imageUrl?: string
     author?: string
     publishedDate?: string
+    // Outline of the article's headings
+    headings?: PageHeading[]
+    wordCount?: number
+    // From <html lang>, e.g. "en" or "pt-br"
+    language?: string
+    // CSS path of the element the article was found in
+    mainElementPath?: string
+    // PDFs are read with pdf.js instead, see utils/pdf.ts. Videos are read
+    // from their transcript, with "[m:ss]" timestamped lines.
+    sourceType?: 'webpage' | 'pdf' | 'video'
+    pageCount?: number
+    // Length of the video in seconds
+    duration?: number
+    // Name of the site adapter that read the page, e.g. "github"
+    siteAdapter?: string
   }
-  
+
   export const extractPageContent = (): PageContent => {
     // Extract title
     const title = document.title || 'Untitled Page'
-    
+
     // Extract URL
     const url = window.location.href
-    
+    const canonicalUrl = getCanonicalUrl()
+
     // Extract meta description
-    const description = document.querySelector('meta[name="description"]')?.getAttribute('content') || 
-                       document.querySelector('meta[property="og:description"]')?.getAttribute('content') || ''
-    
+    const description = getDescription()
+
     // Extract main image
-    const imageUrl = document.querySelector('meta[property="og:image"]')?.getAttribute('content') || 
-                     document.querySelector('meta[name="twitter:image"]')?.getAttribute('content') || ''
-    
+    const imageUrl = findSuitableBannerImage()
+
     // Extract author
-    const author = document.querySelector('meta[name="author"]')?.getAttribute('content') || ''
-    
+    const author = getAuthor()
+
     // Extract published date
-    const publishedDate = document.querySelector('meta[property="article:published_time"]')?.getAttribute('content') || ''
-    
-    // Extract main content
-    let content = ''
-    
-    // Try to find main content areas
-    const contentSelectors = [
-      'main',
-      'article',
-      '[role="main"]',
-      '.main-content',
-      '#main-content',
-      '.post-content',
-      '.entry-content',
-      '.content',
-      '#content'
-    ]
-    
-    for (const selector of contentSelectors) {
-      const element = document.querySelector(selector)
-      if (element) {
-        content = cleanTextContent(element.textContent || '')
-        if (content.length > 500) break // Found substantial content
-      }
-    }
-    
-    // Fallback to body content if no main content found
-    if (!content || content.length < 500) {
+    const publishedDate = getPublishedDate()
+
+    // Extract main content, keeping its structure
+    const readable = extractReadableContent(document)
+    let content = readable.markdown
+
+    // Fallback to body text if the page has no readable blocks
+    if (!content) {
       content = cleanTextContent(document.body.innerText || document.body.textContent || '')
     }
-    
+
     return {
       title,
       url,
+      canonicalUrl,
       content,
       description,
       imageUrl,
       author,
-      publishedDate
+      publishedDate,
+      headings: readable.headings,
+      wordCount: countWords(content),
+      language: getPageLanguage(),
+      mainElementPath: getElementPath(readable.element)
+    }
+  }
+
+  /**
+   * Fill in what a site adapter left out from the page itself
+   */
+  export const completePageContent = (
+    site: Partial<PageContent> & Pick<PageContent, 'content'>,
+    siteAdapter: string
+  ): PageContent => ({
+    title: document.title || 'Untitled Page',
+    url: window.location.href,
+    canonicalUrl: getCanonicalUrl(),
+    description: getDescription(),
+    imageUrl: site.imageUrl ?? findSuitableBannerImage(),
+    author: getAuthor(),
+    publishedDate: getPublishedDate(),
+    language: getPageLanguage(),
+    ...site,
+    wordCount: countWords(site.content),
+    siteAdapter
+  })
+
+  const getDescription = (): string =>
+    document.querySelector('meta[name="description"]')?.getAttribute('content') ||
+    document.querySelector('meta[property="og:description"]')?.getAttribute('content') || ''
+
+  const getAuthor = (): string =>
+    document.querySelector('meta[name="author"]')?.getAttribute('content') ||
+    document.querySelector('meta[property="article:author"]')?.getAttribute('content') ||
+    document.querySelector('[rel="author"]')?.textContent?.trim() || ''
+
+  const getPublishedDate = (): string =>
+    document.querySelector('meta[property="article:published_time"]')?.getAttribute('content') ||
+    document.querySelector('time[datetime]')?.getAttribute('datetime') || ''
+
+  const countWords = (content: string): number =>
+    content.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length
+
+  const getPageLanguage = (): string => {
+    const language = document.documentElement.lang ||
+                    document.querySelector('meta[http-equiv="content-language"]')?.getAttribute('content') || ''
+    return language.trim().toLowerCase()
+  }
+
+  // e.g. "body > div#app > main > article.post"
+  const getElementPath = (element: Element): string => {
+    const parts: string[] = []
+
+    for (let current: Element | null = element; current && current !== document.documentElement; current = current.parentElement) {
+      let part = current.tagName.toLowerCase()
+      if (current.id) {
+        parts.unshift(`${part}#${CSS.escape(current.id)}`)
+        break
+      }
+
+      const className = current.classList[0]
+      if (className) part += `.${CSS.escape(className)}`
+      parts.unshift(part)
+    }
+
+    return parts.join(' > ')
+  }
+
+  const getCanonicalUrl = (): string => {
+    const link = document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null
+    if (!link?.href || !/^https?:\/\//.test(link.href)) return ''
+
+    // Some sites point every page's canonical at the homepage, ignore those
+    try {
+      const canonical = new URL(link.href)
+      if (canonical.pathname === '/' && window.location.pathname !== '/') return ''
+    } catch {
+      return ''
+    }
+
+    return link.href
+  }
+
+  const findSuitableBannerImage = (): string => {
+    // First try OG and Twitter images
+    const ogImage = document.querySelector('meta[property="og:image"]')?.getAttribute('content') || ''
+    if (ogImage) return ogImage
+
+    const twitterImage = document.querySelector('meta[name="twitter:image"]')?.getAttribute('content') || ''
+    if (twitterImage) return twitterImage
+
+    // Find all images in the content area first
+    const contentSelectors = [
+      'main article img',
+      'article img',
+      'main img',
+      '[role="main"] img',
+      '.post-content img',
+      '.entry-content img',
+      '.article-content img',
+      '.content-body img',
+      '.story-body img',
+      '.main-content img',
+      '#main-content img',
+      '.content img',
+      '#content img'
+    ]
+
+    for (const selector of contentSelectors) {
+      for (const img of Array.from(document.querySelectorAll<HTMLImageElement>(selector))) {
+        if (isImageSuitable(img)) {
+          return getImageUrl(img)
+        }
+      }
+    }
+
+    // If no suitable content images, check all images on page
+    for (const img of Array.from(document.querySelectorAll('img'))) {
+      if (isImageSuitable(img)) {
+        return getImageUrl(img)
+      }
+    }
+
+    return ''
+  }
+
+  const isImageSuitable = (img: HTMLImageElement): boolean => {
+    // Skip if no src
+    if (!img.src && !img.dataset.src && !img.dataset.lazySrc) return false
+
+    // Skip tracking pixels and tiny images
+    const width = img.naturalWidth || img.width || parseInt(img.getAttribute('width') || '0')
+    const height = img.naturalHeight || img.height || parseInt(img.getAttribute('height') || '0')
+
+    // Minimum dimensions for a banner image
+    if (width < 400 || height < 200) return false
+
+    // Skip images with aspect ratio too extreme (too tall or too wide)
+    const aspectRatio = width / height
+    if (aspectRatio < 0.5 || aspectRatio > 4) return false
+
+    // Skip common non-content images
+    const src = img.src || img.dataset.src || ''
+    const bannedPatterns = [
+      /avatar/i,
+      /profile/i,
+      /logo/i,
+      /icon/i,
+      /button/i,
+      /pixel/i,
+      /tracking/i,
+      /analytics/i,
+      /advertisement/i,
+      /sponsor/i,
+      /badge/i,
+      /emoji/i,
+      /gif$/i
+    ]
+
+    return !bannedPatterns.some(pattern =>
+      pattern.test(src) || pattern.test(img.className) || pattern.test(img.alt || '')
+    )
+  }
+
+  const getImageUrl = (img: HTMLImageElement): string => {
+    // Try different image attributes
+    const url = img.src || img.dataset.src || img.dataset.lazySrc || img.dataset.original || ''
+    if (!url) return ''
+
+    // Resolve relative URLs, and drop anything that isn't a valid URL
+    try {
+      return new URL(url, window.location.href).href
+    } catch {
+      return ''
     }
   }
-  
+
   const cleanTextContent = (text: string): string => {
     return text
       .replace(/\s+/g, ' ') // Replace multiple spaces with single space
       .replace(/\n{3,}/g, '\n\n') // Replace multiple newlines with double newline
       .trim()
-  }
\ No newline at end of file
+  }
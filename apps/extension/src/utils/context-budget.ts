@@ -0,0 +1,98 @@
+// apps/extension/src/utils/context-budget.ts
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+
+// ** import utils
+import { splitIntoChunks, estimateTokens } from '@/utils/text-chunker'
+
+// Gemini Nano has a small context window, keep page content well under it
+// so the system prompt, history and answer still fit
+export const MAX_CONTEXT_TOKENS = 4000
+
+const CHARS_PER_TOKEN = 4
+const BUDGET_CHUNK_SIZE = 1000
+
+export interface LabelledSource {
+  label: string
+  title: string
+  url: string
+  content: string
+  truncated: boolean
+}
+
+/**
+ * Split a token budget across sources. Sources smaller than their share give
+ * the unused part back so longer sources can use it.
+ */
+export const allocateBudgets = (sizes: number[], totalBudget: number): number[] => {
+  const budgets = new Array<number>(sizes.length).fill(0)
+  let remaining = totalBudget
+  let pending = sizes.map((_, index) => index)
+
+  while (pending.length > 0 && remaining > 0) {
+    const share = Math.floor(remaining / pending.length)
+    const fitting = pending.filter(index => sizes[index] <= share)
+
+    if (fitting.length === 0) {
+      pending.forEach(index => { budgets[index] = share })
+      break
+    }
+
+    fitting.forEach(index => {
+      budgets[index] = sizes[index]
+      remaining -= sizes[index]
+    })
+    pending = pending.filter(index => sizes[index] > share)
+  }
+
+  return budgets
+}
+
+/**
+ * Keep whole chunks from the start of the text until the budget is used up
+ */
+export const fitToTokenBudget = (text: string, maxTokens: number): { text: string; truncated: boolean } => {
+  if (estimateTokens(text) <= maxTokens) {
+    return { text, truncated: false }
+  }
+
+  if (maxTokens <= 0) {
+    return { text: '', truncated: true }
+  }
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  const chunks = splitIntoChunks(text, { maxChunkSize: Math.min(BUDGET_CHUNK_SIZE, maxChars), overlap: 0 })
+
+  // Cut the text itself after the last chunk that fits, rather than joining
+  // the chunks, so the line breaks its Markdown depends on stay as they were
+  let end = 0
+  for (const chunk of chunks) {
+    const chunkEnd = text.indexOf(chunk, end) + chunk.length
+    if (chunkEnd > maxChars) break
+    end = chunkEnd
+  }
+
+  return { text: text.slice(0, end).trim(), truncated: true }
+}
+
+/**
+ * Label each tab's content and trim it so all tabs together fit the budget
+ */
+export const buildLabelledSources = (
+  sources: PageContent[],
+  maxTokens: number = MAX_CONTEXT_TOKENS
+): LabelledSource[] => {
+  const sizes = sources.map(source => estimateTokens(source.content || ''))
+  const budgets = allocateBudgets(sizes, maxTokens)
+
+  return sources.map((source, index) => {
+    const { text, truncated } = fitToTokenBudget(source.content || '', budgets[index])
+    return {
+      label: `Tab ${index + 1}`,
+      title: source.title,
+      url: source.url,
+      content: text,
+      truncated
+    }
+  })
+}
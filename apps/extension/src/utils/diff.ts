@@ -0,0 +1,65 @@
+// apps/extension/src/utils/diff.ts
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Above this many token pairs the LCS table gets too big to build in the page
+const MAX_DIFF_CELLS = 4_000_000
+
+// Words and the whitespace between them, so the diff can be rendered back verbatim
+const tokenizeForDiff = (text: string): string[] => text.split(/(\s+)/).filter(Boolean)
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1]
+  if (last?.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+/**
+ * Word-level diff between two texts, for previewing an AI edit before it's applied
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenizeForDiff(before)
+  const b = tokenizeForDiff(after)
+  const parts: DiffPart[] = []
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    if (before) parts.push({ type: 'removed', text: before })
+    if (after) parts.push({ type: 'added', text: after })
+    return parts
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..], stored row by row
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+
+  return parts
+}
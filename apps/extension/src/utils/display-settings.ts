@@ -0,0 +1,130 @@
+// apps/extension/src/utils/display-settings.ts
+
+export type PageTheme = 'default' | 'cream' | 'dark' | 'sepia'
+
+export interface DisplaySettings {
+  enabled: boolean
+  useOpenDyslexic: boolean
+  lineSpacing: number
+  letterSpacing: number
+  wordSpacing: number
+  pageTheme: PageTheme
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  enabled: false,
+  useOpenDyslexic: false,
+  lineSpacing: 1.4,
+  letterSpacing: 1,
+  wordSpacing: 0,
+  pageTheme: 'default'
+}
+
+// Page colours for each theme; the default theme leaves the page alone
+const THEME_COLORS: Record<PageTheme, { backgroundColor: string; textColor: string }> = {
+  default: { backgroundColor: '', textColor: '' },
+  cream: { backgroundColor: '#FDF6E3', textColor: '#5B4636' },
+  dark: { backgroundColor: '#1a1a1b', textColor: '#E0E0E0' },
+  sepia: { backgroundColor: '#F4ECD8', textColor: '#5B4636' }
+}
+
+const THEME_STYLE_ID = 'theme-style'
+const FONT_FACE_STYLE_ID = 'opendyslexic-font-face'
+const FONT_STYLE_ID = 'opendyslexic-font-style'
+const SPACING_STYLE_ID = 'spacing-adjustments-style'
+
+// Create, update or (with null) remove one of our style elements
+const setPageStyle = (id: string, css: string | null): void => {
+  let style = document.getElementById(id)
+  if (css === null) {
+    style?.remove()
+    return
+  }
+  if (!style) {
+    style = document.createElement('style')
+    style.id = id
+    document.head.appendChild(style)
+  }
+  style.textContent = css
+}
+
+const getThemeCSS = (theme: PageTheme): string | null => {
+  const { backgroundColor, textColor } = THEME_COLORS[theme] ?? THEME_COLORS.default
+  if (!backgroundColor) return null
+
+  return `
+    html, body {
+      background-color: ${backgroundColor} !important;
+      color: ${textColor} !important;
+    }
+    body * {
+      background-color: ${backgroundColor} !important;
+      color: ${textColor} !important;
+    }
+  `
+}
+
+const getFontFaceCSS = (): string => `
+  @font-face {
+    font-family: 'OpenDyslexic';
+    src: url('${chrome.runtime.getURL('assets/fonts/OpenDyslexic-Regular.otf')}') format('opentype');
+    font-weight: normal;
+    font-style: normal;
+    font-display: swap;
+  }
+`
+
+const FONT_CSS = `
+  body, body * {
+    font-family: 'OpenDyslexic', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif !important;
+  }
+`
+
+const getSpacingCSS = ({ lineSpacing, letterSpacing, wordSpacing }: DisplaySettings): string | null => {
+  if (
+    lineSpacing === DEFAULT_DISPLAY_SETTINGS.lineSpacing &&
+    letterSpacing === DEFAULT_DISPLAY_SETTINGS.letterSpacing &&
+    wordSpacing === DEFAULT_DISPLAY_SETTINGS.wordSpacing
+  ) {
+    return null
+  }
+
+  return `
+    body, body * {
+      line-height: ${lineSpacing} !important;
+      letter-spacing: ${letterSpacing}px !important;
+      word-spacing: ${wordSpacing}px !important;
+    }
+  `
+}
+
+/**
+ * Style the page with the reader's theme, font and spacing. Disabled settings,
+ * or settings left at their defaults, put the page back as it was.
+ *
+ * Runs in content scripts only, since it styles the current document.
+ */
+export const applyDisplaySettings = (partial: Partial<DisplaySettings>): void => {
+  const settings = { ...DEFAULT_DISPLAY_SETTINGS, ...partial }
+
+  if (!settings.enabled) {
+    removeDisplaySettings()
+    return
+  }
+
+  setPageStyle(THEME_STYLE_ID, getThemeCSS(settings.pageTheme))
+  setPageStyle(FONT_FACE_STYLE_ID, settings.useOpenDyslexic ? getFontFaceCSS() : null)
+  setPageStyle(FONT_STYLE_ID, settings.useOpenDyslexic ? FONT_CSS : null)
+  setPageStyle(SPACING_STYLE_ID, getSpacingCSS(settings))
+}
+
+export const removeDisplaySettings = (): void => {
+  for (const id of [THEME_STYLE_ID, FONT_FACE_STYLE_ID, FONT_STYLE_ID, SPACING_STYLE_ID]) {
+    setPageStyle(id, null)
+  }
+}
+
+export const loadDisplaySettings = async (): Promise<DisplaySettings> => {
+  const result = await chrome.storage.local.get(['displaySettings'])
+  return { ...DEFAULT_DISPLAY_SETTINGS, ...result.displaySettings }
+}
@@ -0,0 +1,42 @@
+// apps/extension/src/utils/editable.ts
+
+export type TextField = HTMLInputElement | HTMLTextAreaElement
+
+// Where a piece of editable text lives, so generated text can be put back in its place
+export type EditableTarget =
+  | { kind: 'field'; element: TextField; start: number; end: number }
+  | { kind: 'contenteditable'; element: HTMLElement; range: Range }
+
+/**
+ * Replace the target's text the way typing would, so the page's editor and
+ * undo history keep up with the change
+ */
+export const replaceEditableText = (target: EditableTarget, text: string) => {
+  target.element.focus()
+
+  if (target.kind === 'field') {
+    target.element.setRangeText(text, target.start, target.end, 'select')
+    // Let frameworks that listen for input events pick up the new value
+    target.element.dispatchEvent(new Event('input', { bubbles: true }))
+    return
+  }
+
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(target.range)
+
+  // insertText keeps the editor's undo history; fall back to editing the range directly
+  if (!document.execCommand('insertText', false, text)) {
+    target.range.deleteContents()
+    target.range.insertNode(document.createTextNode(text))
+  }
+}
+
+/**
+ * Whether an event came from one of the extension's own overlays, which
+ * shouldn't open or dismiss the others
+ */
+export const isInsideExtensionUi = (target: EventTarget | null): boolean => {
+  const element = target instanceof Element ? target : target instanceof Node ? target.parentElement : null
+  return !!element?.closest('#talktomytabs-root, [data-talktomytabs-ui]')
+}
@@ -0,0 +1,41 @@
+// apps/extension/src/utils/image-placeholders.ts
+
+// Images in text sent to the model stand in as [[IMG_1]], [[IMG_2]], ...
+const PLACEHOLDER_PATTERN = /\[\[IMG_\d+\]\]/g
+
+export const findImagePlaceholders = (text: string): string[] =>
+  text.match(PLACEHOLDER_PATTERN) ?? []
+
+/**
+ * Make model output carry exactly the image placeholders of its source:
+ * invented and repeated ones are dropped, and missing ones are put back at
+ * the paragraph break closest to where they sat in the source.
+ */
+export const restoreImagePlaceholders = (source: string, output: string): string => {
+  const expected = findImagePlaceholders(source)
+  const seen = new Set<string>()
+
+  const cleaned = output.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+    if (!expected.includes(placeholder) || seen.has(placeholder)) return ''
+    seen.add(placeholder)
+    return placeholder
+  })
+
+  const missing = expected.filter(placeholder => !seen.has(placeholder))
+  if (missing.length === 0) return cleaned
+
+  const paragraphs = cleaned.split(/\n\n+/)
+  const count = paragraphs.length
+  const targets = missing.map(placeholder => ({
+    placeholder,
+    index: Math.round((source.indexOf(placeholder) / Math.max(source.length, 1)) * count)
+  }))
+
+  // Insert from the end so earlier indexes stay valid, keeping source order on ties
+  for (const { placeholder, index } of targets.reverse()) {
+    paragraphs.splice(index, 0, placeholder)
+  }
+
+  console.log(`🖼️ Restored ${missing.length} image placeholder(s) the model dropped`)
+  return paragraphs.join('\n\n')
+}
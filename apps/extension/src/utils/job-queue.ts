@@ -0,0 +1,208 @@
+/**
+ * AI Job Queue
+ *
+ * Lives in the service worker. Every piece of AI work - simplification,
+ * article generation, quick actions and chat - runs as a job here, one at a
+ * time, so the model is never asked to do several things at once. Interactive
+ * work jumps ahead of background saves.
+ *
+ * Extension pages follow the queue over a `chrome.runtime` port named
+ * JOB_PORT_NAME; see hooks/useAIJobs.ts.
+ */
+
+export const JOB_PORT_NAME = 'ai-jobs'
+
+export type JobPriority = 'interactive' | 'normal' | 'background'
+
+export type JobStatus = 'queued' | 'running'
+
+export interface JobSummary {
+  id: string
+  kind: string
+  label: string
+  priority: JobPriority
+  status: JobStatus
+  // 0..1, when the job reports it
+  progress?: number
+  createdAt: number
+  startedAt?: number
+}
+
+export interface JobOptions {
+  kind: string
+  label: string
+  priority?: JobPriority
+}
+
+export interface JobContext {
+  signal: AbortSignal
+  reportProgress: (progress: number) => void
+}
+
+// Messages extension pages send over the port
+export type JobClientMessage = { type: 'cancel'; id: string }
+
+// Messages the queue sends back
+export type JobQueueMessage =
+  | { type: 'jobs'; jobs: JobSummary[] }
+  | { type: 'cancelled'; id: string }
+
+interface Job extends JobSummary {
+  run: (context: JobContext) => Promise<any>
+  controller: AbortController
+  resolve: (value: any) => void
+  reject: (error: Error) => void
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2
+}
+
+class AIJobQueue {
+  private jobs: Job[] = []
+  private ports: Set<chrome.runtime.Port> = new Set()
+  private nextId = 1
+  private readonly MAX_CONCURRENT = 1 // One model call at a time
+
+  /**
+   * Add a job. The promise settles with the job's result, or rejects when it
+   * fails or is cancelled.
+   */
+  enqueue<T>(options: JobOptions, run: (context: JobContext) => Promise<T>): { id: string; promise: Promise<T> } {
+    const id = `job-${Date.now()}-${this.nextId++}`
+
+    const promise = new Promise<T>((resolve, reject) => {
+      this.jobs.push({
+        id,
+        kind: options.kind,
+        label: options.label,
+        priority: options.priority ?? 'normal',
+        status: 'queued',
+        createdAt: Date.now(),
+        run,
+        controller: new AbortController(),
+        resolve,
+        reject
+      })
+    })
+
+    console.log(`📥 Queued ${options.kind} job: ${options.label}`)
+    this.schedule()
+    return { id, promise }
+  }
+
+  /**
+   * Cancel a queued or running job. A running job is aborted, but keeps its
+   * slot until the model call underneath actually returns.
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.find(job => job.id === id)
+    if (!job) return false
+
+    console.log(`🛑 Cancelling job: ${job.label}`)
+    job.controller.abort()
+    job.reject(new Error('Job cancelled'))
+
+    if (job.status === 'queued') {
+      this.remove(job)
+    }
+
+    this.broadcast({ type: 'cancelled', id })
+    return true
+  }
+
+  getJobs(): JobSummary[] {
+    return this.jobs.map(({ run, controller, resolve, reject, ...summary }) => summary)
+  }
+
+  /**
+   * Follow the queue from an extension page, and let it cancel jobs
+   */
+  attachPort(port: chrome.runtime.Port): void {
+    this.ports.add(port)
+
+    port.onMessage.addListener((message: JobClientMessage) => {
+      if (message.type === 'cancel') {
+        this.cancel(message.id)
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      this.ports.delete(port)
+    })
+
+    port.postMessage({ type: 'jobs', jobs: this.getJobs() } satisfies JobQueueMessage)
+  }
+
+  private setProgress(id: string, progress: number): void {
+    const job = this.jobs.find(job => job.id === id)
+    if (!job) return
+
+    job.progress = Math.max(0, Math.min(1, progress))
+    this.broadcastJobs()
+  }
+
+  private schedule(): void {
+    const running = this.jobs.filter(job => job.status === 'running').length
+    if (running >= this.MAX_CONCURRENT) {
+      this.broadcastJobs()
+      return
+    }
+
+    const next = this.jobs
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.createdAt - b.createdAt)[0]
+
+    if (next) {
+      this.start(next)
+    } else {
+      this.broadcastJobs()
+    }
+  }
+
+  private start(job: Job): void {
+    job.status = 'running'
+    job.startedAt = Date.now()
+    console.log(`▶️ Running ${job.kind} job: ${job.label}`)
+
+    job.run({
+      signal: job.controller.signal,
+      reportProgress: (progress) => this.setProgress(job.id, progress)
+    })
+      .then(result => job.resolve(result))
+      .catch(error => job.reject(error instanceof Error ? error : new Error(String(error))))
+      .finally(() => {
+        this.remove(job)
+        this.schedule()
+      })
+
+    this.schedule()
+  }
+
+  private remove(job: Job): void {
+    const index = this.jobs.indexOf(job)
+    if (index !== -1) {
+      this.jobs.splice(index, 1)
+    }
+    this.broadcastJobs()
+  }
+
+  private broadcastJobs(): void {
+    this.broadcast({ type: 'jobs', jobs: this.getJobs() })
+  }
+
+  private broadcast(message: JobQueueMessage): void {
+    for (const port of this.ports) {
+      try {
+        port.postMessage(message)
+      } catch {
+        this.ports.delete(port)
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new AIJobQueue()
@@ -0,0 +1,47 @@
+// apps/extension/src/utils/markdown-text.ts
+
+// Page content is Markdown (see utils/readability.ts), so passages and the
+// quotes the model takes from them carry syntax the page's own text doesn't
+// have. This turns them back into text that can be found in the DOM.
+
+const FENCE_LINE = /^\s*(```|~~~)/
+const TABLE_SEPARATOR_LINE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/
+const RULE_LINE = /^\s*(-{3,}|\*{3,}|_{3,})\s*$/
+// A link target, which may hold one level of parentheses, as Wikipedia URLs do
+const TARGET = String.raw`\((?:[^()\s]|\([^()\s]*\))*\)`
+const IMAGE = new RegExp(String.raw`!\[[^\]]*\]` + TARGET, 'g')
+const LINK = new RegExp(String.raw`\[([^\]]*)\]` + TARGET, 'g')
+
+const stripLine = (line: string): string => {
+  let text = line
+    // Block markers: blockquotes, headings, list items
+    .replace(/^\s*(>\s?)+/, '')
+    .replace(/^\s*#{1,6}\s+/, '')
+    .replace(/^\s*([-*+]|\d+\.)\s+/, '')
+
+  // Table rows: cells become words separated by spaces
+  if (/^\s*\|.*\|\s*$/.test(text)) {
+    text = text.trim().slice(1, -1).split(/(?<!\\)\|/).map(cell => cell.trim()).join(' ')
+  }
+
+  return text
+    // Images only have alt text, which isn't part of the page text
+    .replace(IMAGE, '')
+    .replace(/\[Image: [^\]]*\]/g, '')
+    .replace(LINK, '$1')
+    .replace(/(`+)(.+?)\1/g, '$2')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    // Only underscores around words, so snake_case names stay as they are
+    .replace(/(^|[^\w])_(\S(?:.*?\S)?)_(?![\w])/g, '$1$2')
+    .replace(/\\([|*_`#[\]])/g, '$1')
+}
+
+/**
+ * Remove Markdown syntax from text, keeping its words and line breaks
+ */
+export const stripMarkdown = (markdown: string): string =>
+  markdown
+    .split('\n')
+    .filter(line => !FENCE_LINE.test(line) && !TABLE_SEPARATOR_LINE.test(line) && !RULE_LINE.test(line))
+    .map(stripLine)
+    .join('\n')
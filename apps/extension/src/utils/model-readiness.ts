@@ -0,0 +1,171 @@
+// apps/extension/src/utils/model-readiness.ts
+// ** import types
+import type { AISessionType } from '@/utils/session-manager'
+
+// ** import apis
+import { checkApiAvailability } from '@/api/chrome-ai/availability'
+
+// The queue is kept in chrome.storage.session and retried from an alarm,
+// because Chrome suspends the service worker while a model downloads. Work
+// that can be redone from what was stored, like saving an article, is
+// resumed after that by its handler; the rest only runs in the worker that
+// queued it.
+
+// Work waiting for a model download to finish, as shown on the readiness page
+export interface QueuedAIWork {
+  id: string
+  type: AISessionType
+  label: string
+  queuedAt: number
+}
+
+// Enough to redo the work in a new service worker, see registerResumableWork
+export interface ResumableWork {
+  kind: string
+  data: unknown
+}
+
+interface StoredQueueEntry extends QueuedAIWork {
+  resume?: ResumableWork
+}
+
+const QUEUE_STORAGE_KEY = 'queuedAIWork'
+export const RETRY_ALARM_NAME = 'retry-queued-ai-work'
+// Chrome doesn't fire alarms more often than every 30 seconds
+const RETRY_PERIOD_MINUTES = 0.5
+
+// Queued work of this service worker, by entry id
+const tasks = new Map<string, () => Promise<void>>()
+const resumeHandlers = new Map<string, (data: unknown) => Promise<unknown>>()
+let isRetrying = false
+
+const API_NAMES: Record<AISessionType, string> = {
+  languageModel: 'Prompt API',
+  summarizer: 'Summarizer API',
+  writer: 'Writer API',
+  rewriter: 'Rewriter API'
+}
+
+const readQueue = async (): Promise<StoredQueueEntry[]> => {
+  const result = await chrome.storage.session.get(QUEUE_STORAGE_KEY)
+  return result[QUEUE_STORAGE_KEY] ?? []
+}
+
+// Updates run one after another, so adding and removing entries can't overwrite each other
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+const updateQueue = (update: (queue: StoredQueueEntry[]) => StoredQueueEntry[]): Promise<StoredQueueEntry[]> => {
+  const next = pendingUpdate.then(async () => {
+    const queue = update(await readQueue())
+    await chrome.storage.session.set({ [QUEUE_STORAGE_KEY]: queue })
+    return queue
+  })
+  pendingUpdate = next.catch(() => undefined)
+  return next
+}
+
+// The work's own closure, or its resume handler if the worker was restarted since
+const getRunner = (entry: StoredQueueEntry): (() => Promise<unknown>) | null => {
+  const task = tasks.get(entry.id)
+  if (task) return task
+
+  const handler = entry.resume && resumeHandlers.get(entry.resume.kind)
+  return handler ? () => handler(entry.resume!.data) : null
+}
+
+/**
+ * Say how to redo a kind of work from its stored data, for work queued by a
+ * service worker that has since been suspended
+ */
+export const registerResumableWork = (kind: string, handler: (data: unknown) => Promise<unknown>): void => {
+  resumeHandlers.set(kind, handler)
+}
+
+/**
+ * Run everything in the queue whose model has become available. Called from
+ * the retry alarm while work is waiting, and by the readiness page when a
+ * download ends.
+ */
+export const retryQueuedWork = async (): Promise<void> => {
+  if (isRetrying) return
+  isRetrying = true
+
+  try {
+    const queue = await readQueue()
+    const types = Array.from(new Set(queue.map(entry => entry.type)))
+    for (const type of types) {
+      if (await checkApiAvailability(type) !== 'available') continue
+
+      const ready = queue.filter(entry => entry.type === type)
+      for (const entry of ready) {
+        await updateQueue(current => current.filter(other => other.id !== entry.id))
+        const run = getRunner(entry)
+        tasks.delete(entry.id)
+
+        if (!run) {
+          console.warn(`⚠️ Dropping queued work that can't be resumed: ${entry.label}`)
+          continue
+        }
+        console.log(`▶️ Running queued work: ${entry.label}`)
+        // Failures are reported by the entry itself
+        await run().catch(() => undefined)
+      }
+    }
+  } finally {
+    isRetrying = false
+    if ((await readQueue()).length === 0) {
+      await chrome.alarms.clear(RETRY_ALARM_NAME)
+    }
+  }
+}
+
+/**
+ * Run AI work now if its model is ready, otherwise hold it until the model
+ * has downloaded. The returned promise settles when the work finally runs,
+ * if this service worker is still around by then; pass `resume` to have the
+ * work redone by a later one.
+ */
+export const runWhenModelReady = async <T>(
+  type: AISessionType,
+  label: string,
+  task: () => Promise<T>,
+  resume?: ResumableWork
+): Promise<T> => {
+  const availability = await checkApiAvailability(type)
+
+  if (availability === 'available') {
+    return task()
+  }
+  if (availability === 'unavailable') {
+    throw new Error(`${API_NAMES[type]} is not available on this device`)
+  }
+
+  console.log(`⏳ Queued "${label}" until the ${API_NAMES[type]} model is ready (${availability})`)
+  const entry: StoredQueueEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    label,
+    queuedAt: Date.now(),
+    resume
+  }
+
+  const result = new Promise<T>((resolve, reject) => {
+    tasks.set(entry.id, () => task().then(resolve, (error) => {
+      reject(error)
+      throw error
+    }))
+  })
+
+  await updateQueue(queue => [...queue, entry])
+  if (!(await chrome.alarms.get(RETRY_ALARM_NAME))) {
+    await chrome.alarms.create(RETRY_ALARM_NAME, { periodInMinutes: RETRY_PERIOD_MINUTES })
+  }
+
+  return result
+}
+
+// Only the work that can still run, not what a suspended worker left behind
+export const getQueuedWork = async (): Promise<QueuedAIWork[]> =>
+  (await readQueue())
+    .filter(entry => getRunner(entry))
+    .map(({ id, type, label, queuedAt }) => ({ id, type, label, queuedAt }))
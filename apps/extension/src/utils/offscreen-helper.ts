@@ -1,24 +1,150 @@
 /**
  * Offscreen Document Helper
- * 
+ *
  * Manages offscreen document for AI operations
- * Provides better stability by isolating heavy AI work
+ * Provides better stability by isolating heavy AI work: the service worker
+ * can be suspended mid-job, the offscreen document can't.
+ *
+ * Requests carry a `messageId` the document echoes back, and it sends
+ * progress and streamed chunks for that id while the request runs.
  */
 
-const OFFSCREEN_DOCUMENT_PATH = '/offscreen.html'
+// ** import types
+import type { ChatMessage } from '@/api/chrome-ai/types'
+import type { PageContent } from '@/utils/contentExtractor'
+import type { SimplificationLevel, OptimizationMode } from '@/api/chrome-ai/articles'
+import type { SelectionAction } from '@/api/chrome-ai/selection'
+import type { WritingAction, WritingActionInput } from '@/api/chrome-ai/writing'
+import type { PdfText } from '@/utils/pdf'
+
+const OFFSCREEN_DOCUMENT_PATH = '/tabs/offscreen.html'
+
+// Only the offscreen document answers messages with this target
+export const OFFSCREEN_TARGET = 'offscreen'
+
+export interface OffscreenRequestData {
+  // Streamed back section by section
+  simplify: { sections: string[]; level: SimplificationLevel; mode: OptimizationMode; context?: string }
+  generate: { pageContent: PageContent }
+  chat: { messages: ChatMessage[]; temperature?: number; conversationId?: string; context?: string }
+  'reset-conversation': { conversationId: string }
+  'selection-action': { action: SelectionAction; text: string; paragraph?: string }
+  'writing-action': { action: WritingAction; input: WritingActionInput }
+  // Read with pdf.js, which needs a document to run in
+  'extract-pdf': { url: string }
+  cancel: { messageId: string }
+}
+
+export interface OffscreenResultData {
+  simplify: void
+  generate: string
+  // The whole answer, after it has been streamed as chunks
+  chat: string
+  'reset-conversation': void
+  'selection-action': string
+  'writing-action': string
+  'extract-pdf': PdfText
+  cancel: boolean
+}
+
+export type OffscreenAction = keyof OffscreenRequestData
+
+export interface OffscreenRequest<A extends OffscreenAction = OffscreenAction> {
+  target: typeof OFFSCREEN_TARGET
+  action: A
+  data: OffscreenRequestData[A]
+  messageId: string
+}
+
+export interface OffscreenResponse {
+  messageId: string
+  success: boolean
+  data?: any
+  error?: string
+}
+
+// Sent by the offscreen document while a request is running
+export interface OffscreenEvent {
+  action: 'offscreenEvent'
+  messageId: string
+  chunk?: string
+  progress?: number
+  // Which section of a simplification the chunk belongs to, or has finished
+  section?: number
+  // Final text of a finished section
+  text?: string
+}
+
+interface RunOffscreenOptions {
+  // Aborting asks the document to stop; the request still settles with its answer
+  signal?: AbortSignal
+  onChunk?: (chunk: string, section?: number) => void
+  onSectionDone?: (section: number, text: string) => void
+  onProgress?: (progress: number) => void
+}
+
+interface PendingRequest {
+  options: RunOffscreenOptions
+  resetTimeout: () => void
+  // Set once the document has reported anything, so we don't run it twice
+  hasEvents: boolean
+}
+
+// How long a request may go without an answer or any progress
+const REQUEST_TIMEOUTS: Record<OffscreenAction, number> = {
+  simplify: 2 * 60 * 1000,
+  generate: 3 * 60 * 1000,
+  chat: 2 * 60 * 1000,
+  'reset-conversation': 10 * 1000,
+  'selection-action': 60 * 1000,
+  'writing-action': 60 * 1000,
+  'extract-pdf': 60 * 1000,
+  cancel: 10 * 1000
+}
+const IDLE_TIMEOUT = 2 * 60 * 1000 // Close the document after this long with nothing to do
+const MAX_ATTEMPTS = 2
+
 let creating: Promise<void> | null = null
+let nextMessageId = 1
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+let activeRequests = 0
+const pending = new Map<string, PendingRequest>()
+
+// Progress and chunks from the offscreen document
+chrome.runtime.onMessage.addListener((message: OffscreenEvent) => {
+  if (message?.action !== 'offscreenEvent') return
+
+  const request = pending.get(message.messageId)
+  if (!request) return
+
+  request.hasEvents = true
+  request.resetTimeout()
+  if (message.chunk !== undefined) {
+    request.options.onChunk?.(message.chunk, message.section)
+  } else if (message.section !== undefined) {
+    request.options.onSectionDone?.(message.section, message.text ?? '')
+  }
+  if (message.progress !== undefined) request.options.onProgress?.(message.progress)
+})
 
 /**
- * Ensure offscreen document exists
+ * Check whether the offscreen document is open
  */
-async function setupOffscreenDocument(): Promise<void> {
-  // Check if document already exists
+export async function hasOffscreenDocument(): Promise<boolean> {
   const existingContexts = await chrome.runtime.getContexts({
     contextTypes: ['OFFSCREEN_DOCUMENT' as chrome.runtime.ContextType],
     documentUrls: [chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)]
   })
 
-  if (existingContexts.length > 0) {
+  return existingContexts.length > 0
+}
+
+/**
+ * Ensure offscreen document exists
+ */
+async function setupOffscreenDocument(): Promise<void> {
+  // Check if document already exists
+  if (await hasOffscreenDocument()) {
     return
   }
 
@@ -35,45 +161,147 @@ async function setupOffscreenDocument(): Promise<void> {
     justification: 'Run AI operations in isolated context for better stability'
   })
 
-  await creating
-  creating = null
+  try {
+    await creating
+  } finally {
+    creating = null
+  }
+}
+
+// The document went away (closed, crashed or still loading) before answering
+function isDocumentGone(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.includes('Receiving end does not exist') || message.includes('message port closed')
+}
+
+function markBusy(): void {
+  activeRequests++
+  if (idleTimer !== null) {
+    clearTimeout(idleTimer)
+    idleTimer = null
+  }
+}
+
+function markIdle(): void {
+  activeRequests--
+  if (activeRequests > 0 || idleTimer !== null) return
+
+  // Best effort: if the service worker is suspended first, the document stays
+  // open until the next request lets this run again
+  idleTimer = setTimeout(() => {
+    idleTimer = null
+    if (activeRequests > 0) return
+    closeOffscreenDocument().catch(error => console.warn('⚠️ Failed to close offscreen document:', error))
+  }, IDLE_TIMEOUT)
+}
+
+function sendCancel(messageId: string): void {
+  const request: OffscreenRequest<'cancel'> = {
+    target: OFFSCREEN_TARGET,
+    action: 'cancel',
+    data: { messageId },
+    messageId: `cancel-${Date.now()}-${nextMessageId++}`
+  }
+  chrome.runtime.sendMessage(request).catch(() => undefined)
 }
 
 /**
- * Send AI operation to offscreen document
+ * Send one request to the document, rejecting if it goes quiet for too long
  */
-export async function runOffscreenAI<T>(
-  action: 'simplify' | 'chat' | 'generate',
-  data: any
-): Promise<T> {
-  // Ensure offscreen document exists
-  await setupOffscreenDocument()
-
-  // Send message to offscreen
-  const messageId = `${action}-${Date.now()}`
-  const response = await chrome.runtime.sendMessage({
-    action,
-    data,
-    messageId
+function sendRequest<A extends OffscreenAction>(
+  action: A,
+  data: OffscreenRequestData[A],
+  options: RunOffscreenOptions
+): { messageId: string; state: PendingRequest; promise: Promise<OffscreenResponse> } {
+  const messageId = `${action}-${Date.now()}-${nextMessageId++}`
+  const request: OffscreenRequest<A> = { target: OFFSCREEN_TARGET, action, data, messageId }
+  const state: PendingRequest = { options, resetTimeout: () => undefined, hasEvents: false }
+
+  const promise = new Promise<OffscreenResponse>((resolve, reject) => {
+    let timeout: ReturnType<typeof setTimeout>
+    state.resetTimeout = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => {
+        pending.delete(messageId)
+        sendCancel(messageId)
+        reject(new Error(`Offscreen ${action} timed out`))
+      }, REQUEST_TIMEOUTS[action])
+    }
+
+    pending.set(messageId, state)
+    state.resetTimeout()
+
+    chrome.runtime.sendMessage(request)
+      .then((response: OffscreenResponse | undefined) => {
+        if (!response || response.messageId !== messageId) {
+          throw new Error('Offscreen document sent an unexpected response')
+        }
+        resolve(response)
+      })
+      .catch(reject)
+      .finally(() => {
+        clearTimeout(timeout)
+        pending.delete(messageId)
+      })
   })
 
-  if (!response.success) {
-    throw new Error(response.error || 'Offscreen operation failed')
+  return { messageId, state, promise }
+}
+
+/**
+ * Send AI operation to offscreen document
+ */
+export async function runOffscreenAI<A extends Exclude<OffscreenAction, 'cancel'>>(
+  action: A,
+  data: OffscreenRequestData[A],
+  options: RunOffscreenOptions = {}
+): Promise<OffscreenResultData[A]> {
+  const { signal } = options
+  if (signal?.aborted) {
+    throw new Error('Operation cancelled')
   }
 
-  return response.data
+  markBusy()
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      // Ensure offscreen document exists
+      await setupOffscreenDocument()
+
+      const { messageId, state, promise } = sendRequest(action, data, options)
+      const handleAbort = () => sendCancel(messageId)
+      signal?.addEventListener('abort', handleAbort)
+
+      try {
+        const response = await promise
+
+        if (!response.success) {
+          throw new Error(response.error || 'Offscreen operation failed')
+        }
+
+        return response.data
+      } catch (error) {
+        // Start over in a fresh document, unless part of the answer already arrived
+        if (attempt < MAX_ATTEMPTS && isDocumentGone(error) && !state.hasEvents && !signal?.aborted) {
+          console.warn(`⚠️ Offscreen document did not answer ${action}, recreating it`)
+          continue
+        }
+        throw error
+      } finally {
+        signal?.removeEventListener('abort', handleAbort)
+      }
+    }
+  } finally {
+    markIdle()
+  }
 }
 
 /**
  * Close offscreen document (call when not needed)
  */
 export async function closeOffscreenDocument(): Promise<void> {
-  const existingContexts = await chrome.runtime.getContexts({
-    contextTypes: ['OFFSCREEN_DOCUMENT' as chrome.runtime.ContextType],
-    documentUrls: [chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)]
-  })
-
-  if (existingContexts.length > 0) {
+  if (await hasOffscreenDocument()) {
+    console.log('🧹 Closing idle offscreen document')
     await chrome.offscreen.closeDocument()
   }
 }
@@ -0,0 +1,74 @@
+// apps/extension/src/utils/page-client.ts
+// ** import types
+import type { SimplificationLevel, OptimizationMode } from '@/api/chrome-ai/articles'
+import type { PageReadingMetrics, ReadingLevelChoice } from '@/utils/reading-metrics'
+import type { DisplaySettings } from '@/utils/display-settings'
+
+// How a simplified page is shown: the simplified text, both side by side, or the original
+export type ReaderViewMode = 'simplified' | 'split' | 'original'
+
+// Messages the reader content script (contents/reader.ts) answers
+export type PageRequest =
+  | { action: 'simplify'; level: ReadingLevelChoice; mode: OptimizationMode }
+  | { action: 'reset' }
+  | { action: 'applyDisplay'; displaySettings: DisplaySettings }
+  | { action: 'getState' }
+
+export interface PageSimplifyResult {
+  sections: number
+  // The intensity used, once "Auto" is resolved
+  level: SimplificationLevel
+  // Put back from the saved copy instead of simplified again
+  fromCache: boolean
+}
+
+export interface PageState {
+  isSimplified: boolean
+  // Sections are still streaming in
+  isSimplifying: boolean
+  level: SimplificationLevel | null
+  mode: OptimizationMode | null
+  viewMode: ReaderViewMode
+  sections: number
+  finishedSections: number
+  readingMetrics: PageReadingMetrics | null
+  displaySettings: DisplaySettings
+}
+
+// What the page answers each request with
+export interface PageResults {
+  simplify: PageSimplifyResult
+  reset: void
+  applyDisplay: void
+  getState: PageState
+}
+
+export type PageResponse<T> = { success: true; data: T } | { success: false; error: string }
+
+export const UNREACHABLE_PAGE_ERROR = 'Could not reach this page. Reload it and try again.'
+
+/**
+ * Send a request to the reader content script in a tab and return its answer
+ */
+export const sendPageRequest = async <A extends PageRequest['action']>(
+  tabId: number,
+  request: Extract<PageRequest, { action: A }>
+): Promise<PageResults[A]> => {
+  let response: PageResponse<PageResults[A]> | undefined
+
+  try {
+    response = await chrome.tabs.sendMessage(tabId, request)
+  } catch (error) {
+    // Tabs opened before the extension was installed or updated have no content script
+    console.error(`Error sending "${request.action}" to the page:`, error)
+    throw new Error(UNREACHABLE_PAGE_ERROR)
+  }
+
+  if (!response) {
+    throw new Error('The page did not respond')
+  }
+  if (!response.success) {
+    throw new Error(response.error)
+  }
+  return response.data
+}
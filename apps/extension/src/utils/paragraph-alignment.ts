@@ -0,0 +1,83 @@
+// apps/extension/src/utils/paragraph-alignment.ts
+
+// One row of a side-by-side view: source paragraphs and what they became
+export interface AlignedRow {
+  source: number[]
+  output: number[]
+}
+
+// Image placeholders count as words, so images line up with their source
+const TOKEN_PATTERN = /\[\[img_\d+\]\]|[\p{L}\p{N}']{3,}/gu
+
+const toWordSet = (text: string): Set<string> =>
+  new Set(text.toLowerCase().match(TOKEN_PATTERN) ?? [])
+
+// Share of the output paragraph's words found in the source paragraph
+const similarity = (output: Set<string>, source: Set<string>): number => {
+  if (output.size === 0 || source.size === 0) return 0
+  let shared = 0
+  for (const word of output) {
+    if (source.has(word)) shared++
+  }
+  return shared / output.size
+}
+
+/**
+ * Match each output paragraph to the source paragraph it most likely came
+ * from, keeping the order of both, then group them into rows. Source
+ * paragraphs nothing was matched to join the row before them.
+ */
+export const alignParagraphs = (source: string[], output: string[]): AlignedRow[] => {
+  if (source.length === 0 || output.length === 0) {
+    return source.length || output.length
+      ? [{ source: source.map((_, i) => i), output: output.map((_, j) => j) }]
+      : []
+  }
+
+  const sourceWords = source.map(toWordSet)
+  const outputWords = output.map(toWordSet)
+
+  // best[j][i]: best total similarity with output j matched to source i,
+  // and every earlier output matched to source i or before
+  const best: number[][] = []
+  const from: number[][] = []
+
+  for (let j = 0; j < output.length; j++) {
+    best.push([])
+    from.push([])
+
+    let prefixBest = -Infinity
+    let prefixIndex = 0
+    for (let i = 0; i < source.length; i++) {
+      if (j > 0 && best[j - 1][i] > prefixBest) {
+        prefixBest = best[j - 1][i]
+        prefixIndex = i
+      }
+      best[j][i] = similarity(outputWords[j], sourceWords[i]) + (j > 0 ? prefixBest : 0)
+      from[j][i] = prefixIndex
+    }
+  }
+
+  // Walk back from the best match of the last output paragraph
+  const matches = new Array<number>(output.length)
+  const last = best[output.length - 1]
+  matches[output.length - 1] = last.indexOf(Math.max(...last))
+  for (let j = output.length - 1; j > 0; j--) {
+    matches[j - 1] = from[j][matches[j]]
+  }
+
+  const rows: AlignedRow[] = []
+  for (let i = 0; i < source.length; i++) {
+    const outputs = matches.flatMap((match, j) => (match === i ? [j] : []))
+    const previous = rows[rows.length - 1]
+
+    if (!previous || (outputs.length > 0 && previous.output.length > 0)) {
+      rows.push({ source: [i], output: outputs })
+    } else {
+      previous.source.push(i)
+      previous.output.push(...outputs)
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,87 @@
+// apps/extension/src/utils/pdf-text.ts
+// ** import types
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { TextItem } from 'pdfjs-dist/types/src/display/api'
+import type { PageHeading } from '@/utils/readability'
+import type { PdfText } from '@/utils/pdf'
+
+// ** import core packages
+import { getDocument } from 'pdfjs-dist'
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs'
+
+// Only imported by the offscreen document. pdf.js runs its worker code in the
+// page when it finds it on globalThis, so no separate worker file is needed.
+;(globalThis as any).pdfjsWorker = pdfjsWorker
+
+// Deeper bookmarks are mostly noise in the outline
+const MAX_OUTLINE_DEPTH = 3
+
+/**
+ * Read the text of a PDF, page by page. pdf.js fetches http(s) URLs itself and
+ * falls back to XHR for file:// URLs, which needs file access for the extension.
+ */
+export const extractPdfText = async (
+  url: string,
+  onProgress?: (progress: number) => void
+): Promise<PdfText> => {
+  const loadingTask = getDocument({ url })
+  const pdf = await loadingTask.promise.catch(error => {
+    if (error?.name === 'PasswordException') {
+      throw new Error('This PDF is password protected')
+    }
+    throw error
+  })
+
+  try {
+    const pages: string[] = []
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number)
+      const textContent = await page.getTextContent()
+      pages.push(joinTextItems(textContent.items.filter((item): item is TextItem => 'str' in item)))
+      page.cleanup()
+      onProgress?.(number / pdf.numPages)
+    }
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }))
+    const { Title, Author } = info as { Title?: string; Author?: string }
+
+    return {
+      title: Title?.trim() || '',
+      author: Author?.trim() || '',
+      pages,
+      outline: await getOutline(pdf)
+    }
+  } finally {
+    await loadingTask.destroy()
+  }
+}
+
+// pdf.js gives runs of text, flagging the ones that end a line
+const joinTextItems = (items: TextItem[]): string => {
+  const text = items
+    .map(item => item.str + (item.hasEOL ? '\n' : ''))
+    .join('')
+
+  return text
+    .replace(/-\n(?=\p{Ll})/gu, '') // Words hyphenated across lines
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+const getOutline = async (pdf: PDFDocumentProxy): Promise<PageHeading[]> => {
+  const outline = await pdf.getOutline().catch(() => null)
+  const headings: PageHeading[] = []
+
+  const walk = (nodes: NonNullable<typeof outline>, level: number) => {
+    for (const node of nodes) {
+      const text = node.title.trim()
+      if (text) headings.push({ level, text })
+      if (level < MAX_OUTLINE_DEPTH && node.items?.length) walk(node.items, level + 1)
+    }
+  }
+  walk(outline || [], 1)
+
+  return headings
+}
@@ -0,0 +1,84 @@
+// apps/extension/src/utils/pdf.ts
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+import type { PageHeading } from '@/utils/readability'
+
+// Text of a PDF, read by pdf.js in the offscreen document (utils/pdf-text.ts)
+export interface PdfText {
+  title: string
+  author: string
+  // One entry per page, empty for pages without a text layer
+  pages: string[]
+  // Bookmarks of the document, when it has any
+  outline: PageHeading[]
+}
+
+// Long PDFs are cut after this many characters, chat retrieves passages from the rest
+const MAX_PDF_CONTENT_LENGTH = 200000
+
+// Each page's text starts with this line in PageContent.content
+const PAGE_MARKER_PATTERN = /^\[Page (\d+)\]$/gm
+
+export const isPdfUrl = (url: string): boolean => {
+  try {
+    return /\.pdf$/i.test(new URL(url).pathname)
+  } catch {
+    return false
+  }
+}
+
+export const FILE_ACCESS_ERROR = 'Turn on "Allow access to file URLs" for this extension in chrome://extensions to read local PDFs.'
+
+export const isLocalFileUrl = (url: string): boolean => /^file:\/\//i.test(url)
+
+// "report%202024.pdf" for file:///home/me/report%202024.pdf
+const getFileName = (url: string): string => {
+  try {
+    const name = new URL(url).pathname.split('/').pop() || ''
+    return decodeURIComponent(name)
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Turn the text of a PDF into page content, marking where each page starts
+ * so chat can say which page an answer came from
+ */
+export const buildPdfPageContent = (url: string, pdf: PdfText): PageContent | null => {
+  let content = ''
+  for (const [index, text] of pdf.pages.entries()) {
+    if (!text.trim()) continue
+    if (content.length > MAX_PDF_CONTENT_LENGTH) break
+    content += `${content ? '\n\n' : ''}[Page ${index + 1}]\n${text.trim()}`
+  }
+
+  // Scanned PDFs have no text layer to read
+  if (!content) return null
+
+  return {
+    title: pdf.title || getFileName(url) || 'Untitled PDF',
+    url,
+    content,
+    author: pdf.author,
+    headings: pdf.outline,
+    wordCount: content.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length,
+    sourceType: 'pdf',
+    pageCount: pdf.pages.length
+  }
+}
+
+/**
+ * Split page content back into its pages. Returns null for content without
+ * page markers.
+ */
+export const splitIntoPages = (content: string): Array<{ page: number; text: string }> | null => {
+  const markers = Array.from(content.matchAll(PAGE_MARKER_PATTERN))
+  if (markers.length === 0) return null
+
+  return markers.map((marker, index) => {
+    const start = marker.index! + marker[0].length
+    const end = markers[index + 1]?.index ?? content.length
+    return { page: Number(marker[1]), text: content.slice(start, end).trim() }
+  })
+}
@@ -0,0 +1,414 @@
+// apps/extension/src/utils/readability.ts
+
+// Readability-style extraction: score the page's blocks to find the article,
+// then write it out as Markdown so headings, lists, tables and code survive
+// on their way to the model. Runs in content scripts, on the live page.
+
+export interface PageHeading {
+  level: number
+  text: string
+}
+
+export interface ReadableContent {
+  // The element the article was found in; the body when nothing stood out
+  element: Element
+  // The article element and any siblings that continue it, in page order
+  elements: Element[]
+  markdown: string
+  headings: PageHeading[]
+}
+
+// Never part of the article, wherever they appear
+const SKIPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'OBJECT', 'EMBED', 'SVG', 'CANVAS',
+  'FORM', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'NAV', 'ASIDE', 'FOOTER', 'DIALOG', 'MENU'
+])
+const SKIPPED_ROLES = new Set(['navigation', 'complementary', 'contentinfo', 'banner', 'dialog', 'alert', 'search'])
+
+// Class and id words of navigation, ads, comments and other page furniture
+const UNLIKELY_PATTERN = /\b(?:ad|ads|adv|advert\w*|banner|breadcrumbs?|comments?|community|cookies?|disqus|footer|gdpr|menu|modal|newsletter|outbrain|pagination|popup|promo\w*|related|replies|share|sharing|sidebar|social|sponsor\w*|subscribe|taboola|toolbar|widget)\b/i
+const POSITIVE_PATTERN = /\b(?:article|body|content|entry|main|page|post|story|text|blog|prose)\b/i
+const NEGATIVE_PATTERN = /\b(?:hidden|meta|footnote|masthead|byline|author|shopping|tags|tool|widget|comments?|footer|related|share)\b/i
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DETAILS', 'DIV', 'DL', 'DD', 'DT', 'FIELDSET', 'FIGCAPTION',
+  'FIGURE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE',
+  'SECTION', 'SUMMARY', 'TABLE', 'UL'
+])
+
+// Paragraphs shorter than this don't count towards a container's score
+const MIN_PARAGRAPH_CHARS = 25
+// A best candidate with less text than this isn't an article
+const MIN_ARTICLE_CHARS = 250
+
+const normalizeText = (text: string | null): string => (text || '').replace(/\s+/g, ' ').trim()
+
+// Class and id, with underscores as word breaks so "ad_slot" reads as "ad slot"
+const getClassAndId = (element: Element): string =>
+  `${element.getAttribute('class') || ''} ${element.id}`.replace(/_/g, ' ')
+
+const isHidden = (element: Element): boolean => {
+  if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') return true
+  const style = (element as HTMLElement).style
+  return style?.display === 'none' || style?.visibility === 'hidden'
+}
+
+/**
+ * Whether an element is page furniture rather than article content
+ */
+export const isPageFurniture = (element: Element): boolean => {
+  if (SKIPPED_TAGS.has(element.tagName) || isHidden(element)) return true
+  if (SKIPPED_ROLES.has(element.getAttribute('role') || '')) return true
+  // The site header, but not an article's own header with its title
+  if (element.tagName === 'HEADER' && !element.closest('article')) return true
+  if (element.tagName === 'BODY' || element.tagName === 'MAIN' || element.tagName === 'ARTICLE') return false
+
+  const classAndId = getClassAndId(element)
+  return UNLIKELY_PATTERN.test(classAndId) && !POSITIVE_PATTERN.test(classAndId)
+}
+
+export const isInsidePageFurniture = (element: Element, root: Element): boolean => {
+  for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+    if (isPageFurniture(current)) return true
+  }
+  return false
+}
+
+const getLinkDensity = (element: Element): number => {
+  const textLength = normalizeText(element.textContent).length
+  if (textLength === 0) return 0
+
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((sum, link) => sum + normalizeText(link.textContent).length, 0)
+  return linkLength / textLength
+}
+
+const getInitialScore = (element: Element): number => {
+  let score = 0
+  switch (element.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      score += 10
+      break
+    case 'DIV':
+    case 'SECTION':
+      score += 5
+      break
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      score += 3
+      break
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'FORM':
+      score -= 3
+      break
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': case 'TH':
+      score -= 5
+      break
+  }
+
+  const classAndId = getClassAndId(element)
+  if (POSITIVE_PATTERN.test(classAndId)) score += 25
+  if (NEGATIVE_PATTERN.test(classAndId)) score -= 25
+  return score
+}
+
+// Blocks that hold running text: paragraphs, and divs used as paragraphs
+const findParagraphs = (root: Element): Element[] =>
+  Array.from(root.querySelectorAll('p, pre, td, blockquote, div')).filter(element =>
+    element.tagName !== 'DIV' || !Array.from(element.children).some(child => BLOCK_TAGS.has(child.tagName))
+  )
+
+/**
+ * Score containers by the paragraphs inside them: each paragraph adds to its
+ * parent, and less to its grandparent and great-grandparent. Link-heavy
+ * containers (menus, link lists) are scored down.
+ */
+const scoreCandidates = (root: Element): Map<Element, number> => {
+  const scores = new Map<Element, number>()
+
+  for (const paragraph of findParagraphs(root)) {
+    if (isInsidePageFurniture(paragraph, root)) continue
+
+    const text = normalizeText(paragraph.textContent)
+    if (text.length < MIN_PARAGRAPH_CHARS) continue
+
+    const score = 1 + text.split(',').length - 1 + Math.min(Math.floor(text.length / 100), 3)
+
+    let ancestor = paragraph.parentElement
+    for (let level = 0; level < 3 && ancestor && root.contains(ancestor); level++) {
+      if (!scores.has(ancestor)) scores.set(ancestor, getInitialScore(ancestor))
+      scores.set(ancestor, scores.get(ancestor)! + score / (level + 1))
+      ancestor = ancestor.parentElement
+    }
+  }
+
+  for (const [element, score] of scores) {
+    scores.set(element, score * (1 - getLinkDensity(element)))
+  }
+  return scores
+}
+
+/**
+ * The article element, plus siblings that look like more of it (some sites
+ * split an article over several containers)
+ */
+const findArticleElements = (body: Element): { main: Element; elements: Element[] } => {
+  const scores = scoreCandidates(body)
+
+  let top: Element | null = null
+  let topScore = -Infinity
+  for (const [element, score] of scores) {
+    if (score > topScore) {
+      top = element
+      topScore = score
+    }
+  }
+
+  if (!top || normalizeText(top.textContent).length < MIN_ARTICLE_CHARS) {
+    return { main: body, elements: [body] }
+  }
+
+  const parent = top.parentElement
+  if (!parent || top === body) {
+    return { main: top, elements: [top] }
+  }
+
+  const threshold = Math.max(10, topScore * 0.2)
+  const elements = Array.from(parent.children).filter(sibling => {
+    if (sibling === top) return true
+    if (isPageFurniture(sibling)) return false
+    if ((scores.get(sibling) ?? -Infinity) >= threshold) return true
+
+    // Loose paragraphs next to the article
+    const text = normalizeText(sibling.textContent)
+    return sibling.tagName === 'P' && text.length > 80 && getLinkDensity(sibling) < 0.25
+  })
+
+  return { main: top, elements }
+}
+
+// Wrap inline text in a marker, keeping the spaces around it outside
+const wrapInline = (text: string, marker: string): string => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text
+}
+
+const toInlineCode = (text: string): string => {
+  const fence = text.includes('`') ? '``' : '`'
+  return `${fence}${text}${fence}`
+}
+
+const renderInlineChildren = (element: Element): string =>
+  Array.from(element.childNodes).map(renderInline).join('')
+
+const renderInline = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ')
+  }
+  if (!(node instanceof Element) || isPageFurniture(node)) return ''
+
+  switch (node.tagName) {
+    case 'BR':
+      return '\n'
+    case 'A': {
+      const text = renderInlineChildren(node)
+      const href = node.getAttribute('href') || ''
+      const url = (node as HTMLAnchorElement).href
+      if (!text.trim() || !url || href.startsWith('#') || /^javascript:/i.test(href)) return text
+      return `[${text.trim()}](${url})`
+    }
+    case 'IMG': {
+      const alt = normalizeText(node.getAttribute('alt'))
+      if (!alt) return ''
+      const src = (node as HTMLImageElement).currentSrc || (node as HTMLImageElement).src
+      return /^https?:/.test(src) ? `![${alt}](${src})` : `[Image: ${alt}]`
+    }
+    case 'CODE':
+    case 'KBD':
+    case 'SAMP':
+      return toInlineCode(node.textContent || '')
+    case 'STRONG':
+    case 'B':
+      return wrapInline(renderInlineChildren(node), '**')
+    case 'EM':
+    case 'I':
+      return wrapInline(renderInlineChildren(node), '_')
+    default:
+      return renderInlineChildren(node)
+  }
+}
+
+// Tidy inline text: single spaces, line breaks only where the page had <br>
+const cleanInline = (text: string): string =>
+  text.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{2,}/g, '\n').trim()
+
+/**
+ * Markdown for each block inside an element, with loose inline content
+ * between blocks gathered into paragraphs
+ */
+const renderBlocks = (parent: Element): string[] => {
+  const blocks: string[] = []
+  let inline = ''
+
+  const flushInline = () => {
+    const text = cleanInline(inline)
+    if (text) blocks.push(text)
+    inline = ''
+  }
+
+  for (const child of Array.from(parent.childNodes)) {
+    if (child instanceof Element && BLOCK_TAGS.has(child.tagName)) {
+      flushInline()
+      if (!isPageFurniture(child)) {
+        const block = renderBlock(child)
+        if (block) blocks.push(block)
+      }
+    } else {
+      inline += renderInline(child)
+    }
+  }
+  flushInline()
+
+  return blocks
+}
+
+const renderList = (list: Element): string => {
+  const isOrdered = list.tagName === 'OL'
+  let number = Number(list.getAttribute('start')) || 1
+
+  return Array.from(list.children)
+    .filter(item => item.tagName === 'LI' && !isPageFurniture(item))
+    .map(item => {
+      const marker = isOrdered ? `${number++}.` : '-'
+      const content = renderBlocks(item).join('\n')
+      if (!content) return ''
+
+      // Nested lists and later paragraphs line up under the item's text
+      const indent = ' '.repeat(marker.length + 1)
+      return `${marker} ${content.replace(/\n/g, `\n${indent}`)}`
+    })
+    .filter(Boolean)
+    .join('\n')
+}
+
+const renderCodeBlock = (pre: Element): string => {
+  const code = pre.querySelector('code')
+  const classes = `${pre.getAttribute('class') || ''} ${code?.getAttribute('class') || ''}`
+  // "language-js", or "brush: js" on MDN
+  const match = classes.match(/(?:language|lang)-([\w+#-]+)|brush:?\s*([\w+#-]+)/)
+  const language = match?.[1] || match?.[2] || ''
+
+  const text = (pre.textContent || '').replace(/\n+$/, '')
+  if (!text.trim()) return ''
+
+  const fence = text.includes('```') ? '~~~' : '```'
+  return `${fence}${language}\n${text}\n${fence}`
+}
+
+const renderTable = (table: Element): string => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row => Array.from(row.children).filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH'))
+    .filter(cells => cells.length > 0)
+
+  const columns = Math.max(0, ...rows.map(cells => cells.length))
+
+  // Tables used for layout hold blocks, not data
+  if (columns <= 1 || table.getAttribute('role') === 'presentation') {
+    return rows.flat().flatMap(cell => renderBlocks(cell)).join('\n\n')
+  }
+
+  const toRow = (cells: Element[]) => {
+    const values = cells.map(cell => cleanInline(renderInlineChildren(cell)).replace(/\n/g, ' ').replace(/\|/g, '\\|'))
+    while (values.length < columns) values.push('')
+    return `| ${values.join(' | ')} |`
+  }
+
+  const [header, ...body] = rows
+  return [
+    toRow(header),
+    `| ${new Array(columns).fill('---').join(' | ')} |`,
+    ...body.map(toRow)
+  ].join('\n')
+}
+
+const renderBlock = (element: Element): string => {
+  const tagName = element.tagName
+
+  if (/^H[1-6]$/.test(tagName)) {
+    const text = cleanInline(renderInlineChildren(element)).replace(/\n/g, ' ')
+    return text ? `${'#'.repeat(Number(tagName[1]))} ${text}` : ''
+  }
+
+  switch (tagName) {
+    case 'P':
+    case 'SUMMARY':
+      return cleanInline(renderInlineChildren(element))
+    case 'PRE':
+      return renderCodeBlock(element)
+    case 'UL':
+    case 'OL':
+      return renderList(element)
+    case 'TABLE':
+      return renderTable(element)
+    case 'HR':
+      return '---'
+    case 'BLOCKQUOTE': {
+      const text = renderBlocks(element).join('\n\n')
+      return text ? text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n') : ''
+    }
+    case 'FIGCAPTION': {
+      const text = cleanInline(renderInlineChildren(element))
+      return text ? wrapInline(text, '_') : ''
+    }
+    case 'DT': {
+      const text = cleanInline(renderInlineChildren(element))
+      return text ? wrapInline(text, '**') : ''
+    }
+    default:
+      return renderBlocks(element).join('\n\n')
+  }
+}
+
+/**
+ * Find the article on the page and return it as Markdown: headings, lists,
+ * tables, code blocks, links and image alt text are kept, while navigation,
+ * ads, comments and other page furniture are left out.
+ */
+export const extractReadableContent = (doc: Document = document): ReadableContent => {
+  const body = doc.body
+  if (!body) {
+    return { element: doc.documentElement, elements: [], markdown: '', headings: [] }
+  }
+
+  const { main, elements } = findArticleElements(body)
+  const markdown = elements
+    .map(element => renderBlock(element))
+    .filter(Boolean)
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return { element: main, elements, markdown, headings: findHeadings(elements, body) }
+}
+
+/**
+ * Render an element as Markdown, for site adapters that already know where
+ * the content is
+ */
+export const renderMarkdown = (element: Element): string =>
+  renderBlock(element).replace(/\n{3,}/g, '\n\n').trim()
+
+/**
+ * Headings in and of the elements, leaving out those in page furniture below root
+ */
+export const findHeadings = (elements: Element[], root: Element): PageHeading[] =>
+  elements
+    .flatMap(element => [element, ...Array.from(element.querySelectorAll('h1, h2, h3, h4, h5, h6'))])
+    .filter(element => /^H[1-6]$/.test(element.tagName) && !isInsidePageFurniture(element, root))
+    .map(heading => ({ level: Number(heading.tagName[1]), text: normalizeText(heading.textContent) }))
+    .filter(heading => heading.text)
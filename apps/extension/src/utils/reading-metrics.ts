@@ -0,0 +1,114 @@
+// apps/extension/src/utils/reading-metrics.ts
+// ** import types
+import type { SimplificationLevel } from '@/api/chrome-ai/articles'
+
+// ** import utils
+import { COMMON_WORDS } from '@/utils/common-words'
+
+export interface ReadingMetrics {
+  // Flesch-Kincaid grade level
+  gradeLevel: number
+  // Words per sentence
+  averageSentenceLength: number
+  // Share of words outside the everyday word list, 0..1
+  rareWordRatio: number
+  wordCount: number
+}
+
+export interface ReadingSettings {
+  // Grade level the "Auto" intensity aims for
+  targetGrade: number
+}
+
+export const READING_SETTINGS_KEY = 'readingSettings'
+
+export const DEFAULT_READING_SETTINGS: ReadingSettings = {
+  targetGrade: 8
+}
+
+// Rough syllable count: vowel groups, minus a silent final "e"
+const countSyllables = (word: string): number => {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (cleaned.length <= 3) return 1
+
+  const trimmed = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  const groups = trimmed.match(/[aeiouy]{1,2}/g)
+  return Math.max(1, groups?.length ?? 1)
+}
+
+// Strip common endings so "walked" and "cities" match their base forms
+const toBaseForms = (word: string): string[] => {
+  const forms = [word]
+  if (word.endsWith('ies')) forms.push(word.slice(0, -3) + 'y')
+  if (word.endsWith('es')) forms.push(word.slice(0, -2))
+  if (word.endsWith('s')) forms.push(word.slice(0, -1))
+  if (word.endsWith('ed')) forms.push(word.slice(0, -2), word.slice(0, -1))
+  if (word.endsWith('ing')) forms.push(word.slice(0, -3), word.slice(0, -3) + 'e')
+  if (word.endsWith('ly')) forms.push(word.slice(0, -2))
+  if (word.endsWith("'s")) forms.push(word.slice(0, -2))
+  return forms
+}
+
+const isRareWord = (word: string): boolean =>
+  !/\d/.test(word) && !toBaseForms(word).some(form => COMMON_WORDS.has(form))
+
+/**
+ * Readability of plain text, worked out locally. Image placeholders and
+ * markdown markers are ignored.
+ */
+export const computeReadingMetrics = (text: string): ReadingMetrics => {
+  const cleaned = text
+    .replace(/\[\[IMG_\d+\]\]/g, ' ')
+    .replace(/^\s*(?:#+|[-*]|\d+\.|>)\s+/gm, '')
+
+  const words = cleaned.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? []
+  if (words.length === 0) {
+    return { gradeLevel: 0, averageSentenceLength: 0, rareWordRatio: 0, wordCount: 0 }
+  }
+
+  // List items and headings end without punctuation, so line breaks count too
+  const sentences = cleaned
+    .split(/[.!?]+(?=\s|$)|\n+/)
+    .filter(sentence => /[a-z0-9]/i.test(sentence))
+    .length || 1
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0)
+  const averageSentenceLength = words.length / sentences
+  const gradeLevel = 0.39 * averageSentenceLength + 11.8 * (syllables / words.length) - 15.59
+
+  return {
+    gradeLevel: Math.max(0, Math.round(gradeLevel * 10) / 10),
+    averageSentenceLength: Math.round(averageSentenceLength * 10) / 10,
+    rareWordRatio: words.filter(isRareWord).length / words.length,
+    wordCount: words.length
+  }
+}
+
+/**
+ * The intensity that should bring a text at `currentGrade` down to
+ * `targetGrade`: small gaps only need light edits, big ones need High.
+ */
+export const pickLevelForGrade = (currentGrade: number, targetGrade: number): SimplificationLevel => {
+  const gap = currentGrade - targetGrade
+  if (gap <= 2) return 'Low'
+  if (gap <= 5) return 'Mid'
+  return 'High'
+}
+
+// Intensity as picked in the popup; "Auto" is resolved by the page
+export type ReadingLevelChoice = SimplificationLevel | 'Auto'
+
+// What the page reports after simplifying, for the simplified sections only
+export interface PageReadingMetrics {
+  original: ReadingMetrics
+  simplified: ReadingMetrics
+  level: SimplificationLevel
+  isAuto: boolean
+  // False while sections are still being written
+  isComplete: boolean
+}
+
+export const loadReadingSettings = async (): Promise<ReadingSettings> => {
+  const result = await chrome.storage.local.get([READING_SETTINGS_KEY])
+  return { ...DEFAULT_READING_SETTINGS, ...result[READING_SETTINGS_KEY] }
+}
@@ -0,0 +1,128 @@
+// apps/extension/src/utils/retrieval.ts
+// ** import utils
+import { splitIntoChunks, estimateTokens } from '@/utils/text-chunker'
+import { splitIntoPages } from '@/utils/pdf'
+
+// Small chunks keep each passage on one topic and cheap to include
+export const RETRIEVAL_CHUNK_SIZE = 800
+const RETRIEVAL_CHUNK_OVERLAP = 100
+export const DEFAULT_TOP_K = 4
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on',
+  'or', 'so', 'that', 'the', 'their', 'them', 'there', 'these', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+  'about', 'article', 'page', 'tell', 'explain', 'please'
+])
+
+export interface RetrievedChunk {
+  // Position of the chunk in the page, also used for the citation label
+  index: number
+  label: string
+  text: string
+  score: number
+  // Page of a PDF the chunk comes from
+  page?: number
+}
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+
+export const getPassageLabel = (index: number): string => `Passage ${index + 1}`
+
+/**
+ * Score every chunk against the query with BM25
+ */
+export const rankChunks = (chunks: string[], query: string): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  if (queryTerms.length === 0) {
+    return chunks.map(() => 0)
+  }
+
+  const chunkTerms = chunks.map(tokenize)
+  const averageLength = chunkTerms.reduce((sum, terms) => sum + terms.length, 0) / chunks.length || 1
+
+  const documentFrequency = new Map<string, number>()
+  for (const terms of chunkTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  return chunkTerms.map(terms => {
+    const termFrequency = new Map<string, number>()
+    terms.forEach(term => termFrequency.set(term, (termFrequency.get(term) || 0) + 1))
+
+    return queryTerms.reduce((score, term) => {
+      const frequency = termFrequency.get(term) || 0
+      if (frequency === 0) return score
+
+      const df = documentFrequency.get(term) || 0
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5))
+      const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * terms.length / averageLength)
+      return score + idf * (frequency * (BM25_K1 + 1)) / norm
+    }, 0)
+  })
+}
+
+// PDFs are chunked page by page, so every passage knows its page
+const splitIntoPassages = (text: string): Array<{ text: string; page?: number }> => {
+  const options = { maxChunkSize: RETRIEVAL_CHUNK_SIZE, overlap: RETRIEVAL_CHUNK_OVERLAP }
+  const pages = splitIntoPages(text)
+  if (!pages) {
+    return splitIntoChunks(text, options).map(chunk => ({ text: chunk }))
+  }
+
+  return pages.flatMap(({ page, text }) =>
+    splitIntoChunks(text, options).map(chunk => ({ text: chunk, page }))
+  )
+}
+
+/**
+ * Split a page into passages and keep the top-k that best match the question,
+ * in page order so the model reads them the way the author wrote them
+ */
+export const retrieveRelevantChunks = (
+  text: string,
+  query: string,
+  options?: { topK?: number; maxTokens?: number }
+): RetrievedChunk[] => {
+  const topK = options?.topK ?? DEFAULT_TOP_K
+  const passages = splitIntoPassages(text)
+  const chunks = passages.map(passage => passage.text)
+  const scores = rankChunks(chunks, query)
+
+  // Questions like "summarize this" match nothing, fall back to the opening passages
+  const hasMatches = scores.some(score => score > 0)
+  const ranked = hasMatches
+    ? chunks.map((_, index) => index).sort((a, b) => scores[b] - scores[a])
+    : chunks.map((_, index) => index)
+
+  const selected: number[] = []
+  let usedTokens = 0
+  for (const index of ranked) {
+    if (selected.length >= topK) break
+    if (hasMatches && scores[index] === 0) break
+
+    const tokens = estimateTokens(chunks[index])
+    if (options?.maxTokens && usedTokens + tokens > options.maxTokens) continue
+    selected.push(index)
+    usedTokens += tokens
+  }
+
+  return selected
+    .sort((a, b) => a - b)
+    .map(index => ({
+      index,
+      label: getPassageLabel(index),
+      text: chunks[index],
+      score: scores[index],
+      page: passages[index].page
+    }))
+}
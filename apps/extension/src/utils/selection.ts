@@ -0,0 +1,70 @@
+// apps/extension/src/utils/selection.ts
+
+// Text the user selected on a page, handed from the context menu to the side panel
+export interface SelectionContext {
+  text: string
+  // The paragraph around the selection, so short selections still make sense
+  paragraph: string
+  url: string
+  title: string
+  createdAt: number
+}
+
+// chrome.storage.session key the background leaves the selection under
+export const PENDING_SELECTION_KEY = 'pendingSelection'
+
+const MAX_PARAGRAPH_LENGTH = 1500
+// Ignore selections left behind from an earlier session
+const PENDING_SELECTION_TTL = 60 * 1000
+
+/**
+ * Read the selection and the block of text around it from the page
+ */
+export const getSelectionContext = async (
+  tab: chrome.tabs.Tab,
+  selectionText: string,
+  frameId?: number
+): Promise<SelectionContext> => {
+  let paragraph = ''
+
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: frameId ? { tabId: tab.id!, frameIds: [frameId] } : { tabId: tab.id! },
+      func: (maxLength: number) => {
+        const selection = window.getSelection()
+        if (!selection || selection.rangeCount === 0) return ''
+
+        let node: Node | null = selection.getRangeAt(0).commonAncestorContainer
+        if (node.nodeType === Node.TEXT_NODE) node = node.parentElement
+
+        const block = (node as Element | null)?.closest('p, li, blockquote, dd, td, pre, h1, h2, h3, h4, h5, h6, section, article, div')
+        return (block?.textContent || '').replace(/\s+/g, ' ').trim().slice(0, maxLength)
+      },
+      args: [MAX_PARAGRAPH_LENGTH]
+    })
+    paragraph = result?.result || ''
+  } catch (error) {
+    // The selection on its own is still useful
+    console.warn('⚠️ Could not read the paragraph around the selection:', error)
+  }
+
+  return {
+    text: selectionText.trim(),
+    paragraph,
+    url: tab.url || '',
+    title: tab.title || '',
+    createdAt: Date.now()
+  }
+}
+
+/**
+ * Take the selection the background left for the side panel, if it's recent
+ */
+export const takePendingSelection = async (): Promise<SelectionContext | null> => {
+  const result = await chrome.storage.session.get(PENDING_SELECTION_KEY)
+  const selection = result[PENDING_SELECTION_KEY] as SelectionContext | undefined
+  if (!selection) return null
+
+  await chrome.storage.session.remove(PENDING_SELECTION_KEY)
+  return Date.now() - selection.createdAt < PENDING_SELECTION_TTL ? selection : null
+}
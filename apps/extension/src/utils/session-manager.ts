@@ -11,63 +11,140 @@
  * 4. Support AbortController for user cancellation
  */
 
-interface SessionConfig {
-  type: 'summarizer' | 'languageModel'
+// ** import types
+import type { AIAvailability } from '@/api/chrome-ai/types'
+
+export type AISessionType = 'summarizer' | 'languageModel' | 'writer' | 'rewriter'
+
+interface AISessionMap {
+  summarizer: SummarizerSession
+  languageModel: LanguageModelSession
+  writer: WriterSession
+  rewriter: RewriterSession
+}
+
+type AISession = AISessionMap[AISessionType]
+
+export interface SessionConfig<T extends AISessionType = AISessionType> {
+  type: T
   options?: any
+  // Create the session even if the model still has to be downloaded first
+  allowDownload?: boolean
 }
 
 interface ManagedSession {
-  session: SummarizerSession | LanguageModelSession
+  session: AISession
   type: string
   createdAt: number
   lastUsedAt: number
   useCount: number
+  // Callers holding the session, see releaseSession; only idle sessions are evicted
+  inUse: number
+}
+
+// The global each session type is created from
+interface AISessionFactory {
+  name: string
+  isSupported: () => boolean
+  availability: () => Promise<AIAvailability>
+  create: (options: any) => Promise<AISession>
+  defaultOptions: Record<string, unknown>
+}
+
+const SESSION_FACTORIES: Record<AISessionType, AISessionFactory> = {
+  summarizer: {
+    name: 'Summarizer',
+    isSupported: () => 'Summarizer' in self,
+    availability: () => Summarizer.availability(),
+    create: (options) => Summarizer.create(options),
+    defaultOptions: { type: 'key-points', format: 'markdown', length: 'medium' }
+  },
+  languageModel: {
+    name: 'LanguageModel',
+    isSupported: () => 'LanguageModel' in self,
+    availability: () => LanguageModel.availability(),
+    create: (options) => LanguageModel.create(options),
+    defaultOptions: { temperature: 0.7, topK: 3 }
+  },
+  writer: {
+    name: 'Writer',
+    isSupported: () => 'Writer' in self,
+    availability: () => Writer.availability(),
+    create: (options) => Writer.create(options),
+    defaultOptions: { tone: 'neutral', format: 'markdown', length: 'medium' }
+  },
+  rewriter: {
+    name: 'Rewriter',
+    isSupported: () => 'Rewriter' in self,
+    availability: () => Rewriter.availability(),
+    create: (options) => Rewriter.create(options),
+    defaultOptions: { tone: 'as-is', format: 'as-is', length: 'as-is' }
+  }
 }
 
 class AISessionManager {
   private sessions: Map<string, ManagedSession> = new Map()
+  // Sessions handed out outside the pool, by cloneSession and
+  // createUnpooledSession, until they're released
+  private unpooled: Set<AISession> = new Set()
   private creationQueue: Promise<any> = Promise.resolve()
+  // Called when a session is released, to wake creations waiting for room
+  private idleWaiters: Array<() => void> = []
   private lastCreationTime: number = 0
   private readonly MIN_CREATION_INTERVAL = 1000 // 1 second between session creations
   private readonly MAX_SESSIONS = 3 // Maximum concurrent sessions
   private readonly SESSION_TIMEOUT = 5 * 60 * 1000 // 5 minutes
+  private readonly IDLE_WAIT_TIMEOUT = 30 * 1000 // How long a creation waits for a session to be released
+
+  // Functions in the options (like a download monitor) are left out of the key
+  private getSessionKey(config: SessionConfig): string {
+    return `${config.type}-${JSON.stringify(config.options || {})}`
+  }
 
   /**
-   * Get or create a session with proper rate limiting
+   * Get or create a session with proper rate limiting. The session counts as
+   * in use, and can't be evicted, until it's handed back with releaseSession.
    */
-  async getSession(config: SessionConfig): Promise<SummarizerSession | LanguageModelSession> {
-    const sessionKey = `${config.type}-${JSON.stringify(config.options || {})}`
+  async getSession<T extends AISessionType>(config: SessionConfig<T>): Promise<AISessionMap[T]> {
+    const sessionKey = this.getSessionKey(config)
 
     // Check if we have an existing session
+    const existing = this.reuseSession(sessionKey)
+    if (existing) return existing as AISessionMap[T]
+
+    // Create sessions one at a time, so parallel callers can't get around the rate limit
+    const creation = this.creationQueue.then(() => this.createManagedSession(config, sessionKey))
+    this.creationQueue = creation.catch(() => undefined)
+    return await creation as AISessionMap[T]
+  }
+
+  private reuseSession(sessionKey: string): AISession | null {
     const existing = this.sessions.get(sessionKey)
-    if (existing) {
-      existing.lastUsedAt = Date.now()
-      existing.useCount++
-      console.log(`✅ Reusing ${config.type} session (used ${existing.useCount} times)`)
-      return existing.session
-    }
+    if (!existing) return null
+
+    existing.lastUsedAt = Date.now()
+    existing.useCount++
+    existing.inUse++
+    console.log(`✅ Reusing ${existing.type} session (used ${existing.useCount} times)`)
+    return existing.session
+  }
+
+  private async createManagedSession(config: SessionConfig, sessionKey: string): Promise<AISession> {
+    // A caller ahead in the queue may have just created the same session
+    const existing = this.reuseSession(sessionKey)
+    if (existing) return existing
 
     // Clean up old sessions before creating new one
     await this.cleanup()
 
     // Enforce maximum session limit
-    if (this.sessions.size >= this.MAX_SESSIONS) {
-      console.warn('⚠️ Maximum sessions reached, cleaning up oldest session')
-      await this.destroyOldestSession()
-    }
-
-    // Rate limit session creation (CRITICAL for preventing crashes)
-    const timeSinceLastCreation = Date.now() - this.lastCreationTime
-    if (timeSinceLastCreation < this.MIN_CREATION_INTERVAL) {
-      const waitTime = this.MIN_CREATION_INTERVAL - timeSinceLastCreation
-      console.log(`⏳ Rate limiting: waiting ${waitTime}ms before creating session`)
-      await new Promise(resolve => setTimeout(resolve, waitTime))
-    }
+    await this.makeRoom()
+    await this.waitForCreationSlot()
 
     // Create session with proper error handling
     try {
       console.log(`🔄 Creating new ${config.type} session...`)
-      const session = await this.createSessionInternal(config)
+      const session = await this.createWithRetry(SESSION_FACTORIES[config.type], config.options, config.allowDownload)
       this.lastCreationTime = Date.now()
 
       // Store session
@@ -76,7 +153,8 @@ class AISessionManager {
         type: config.type,
         createdAt: Date.now(),
         lastUsedAt: Date.now(),
-        useCount: 1
+        useCount: 1,
+        inUse: 1
       })
 
       console.log(`✅ Created ${config.type} session successfully`)
@@ -87,90 +165,103 @@ class AISessionManager {
     }
   }
 
-  /**
-   * Create a session internally based on type
-   */
-  private async createSessionInternal(config: SessionConfig): Promise<any> {
-    switch (config.type) {
-      case 'summarizer':
-        return await this.createSummarizerWithRetry(config.options)
-      case 'languageModel':
-        return await this.createLanguageModelWithRetry(config.options)
-      default:
-        throw new Error(`Unknown session type: ${config.type}`)
+  // Free a slot for one more session by evicting an idle one. When every
+  // session is in use, wait for one to be released rather than destroy it.
+  private async makeRoom(): Promise<void> {
+    const deadline = Date.now() + this.IDLE_WAIT_TIMEOUT
+
+    while (this.sessions.size + this.unpooled.size >= this.MAX_SESSIONS) {
+      if (await this.destroyOldestSession()) continue
+
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        throw new Error('All AI sessions are in use, please try again in a moment')
+      }
+
+      console.warn('⏳ Maximum sessions reached and all in use, waiting for one to be released')
+      await new Promise<void>(resolve => {
+        const timeout = setTimeout(resolve, remaining)
+        this.idleWaiters.push(() => {
+          clearTimeout(timeout)
+          resolve()
+        })
+      })
+    }
+  }
+
+  // Rate limit session creation (CRITICAL for preventing crashes)
+  private async waitForCreationSlot(): Promise<void> {
+    const timeSinceLastCreation = Date.now() - this.lastCreationTime
+    if (timeSinceLastCreation < this.MIN_CREATION_INTERVAL) {
+      const waitTime = this.MIN_CREATION_INTERVAL - timeSinceLastCreation
+      console.log(`⏳ Rate limiting: waiting ${waitTime}ms before creating session`)
+      await new Promise(resolve => setTimeout(resolve, waitTime))
     }
   }
 
   /**
-   * Create summarizer with timeout and retry logic
+   * Clone a language model session, for a prompt that shouldn't add to the
+   * original's context. Clones count towards the session limit and wait
+   * their turn like new sessions. They're in use until freed with
+   * releaseSession, which destroys them.
    */
-  private async createSummarizerWithRetry(options: any, retries = 2): Promise<SummarizerSession> {
-    for (let i = 0; i <= retries; i++) {
-      try {
-        // Check availability first
-        if (!('Summarizer' in self)) {
-          throw new Error('Summarizer API not available')
-        }
-
-        const availability = await Promise.race([
-          Summarizer.availability(),
-          new Promise<never>((_, reject) => 
-            setTimeout(() => reject(new Error('Availability check timeout')), 5000)
-          )
-        ])
-
-        if (availability !== 'available') {
-          throw new Error(`Summarizer not available: ${availability}`)
-        }
+  async cloneSession(session: LanguageModelSession): Promise<LanguageModelSession> {
+    return this.addUnpooledSession(() => session.clone())
+  }
 
-        // Create session with timeout
-        const session = await Promise.race([
-          Summarizer.create(options || {
-            type: 'key-points',
-            format: 'markdown',
-            length: 'medium'
-          }),
-          new Promise<never>((_, reject) => 
-            setTimeout(() => reject(new Error('Session creation timeout')), 15000)
-          )
-        ])
+  /**
+   * Create a session of its own, that no other caller is handed, e.g. one
+   * only made to start a model download. The options are added to the
+   * type's defaults. Like clones, it counts towards the session limit and is
+   * destroyed by releaseSession.
+   */
+  async createUnpooledSession<T extends AISessionType>(config: SessionConfig<T>): Promise<AISessionMap[T]> {
+    const factory = SESSION_FACTORIES[config.type]
+    console.log(`🔄 Creating new unpooled ${config.type} session...`)
+    return await this.addUnpooledSession(() =>
+      this.createWithRetry(factory, { ...factory.defaultOptions, ...config.options }, config.allowDownload)
+    ) as AISessionMap[T]
+  }
 
-        return session
-      } catch (error) {
-        if (i === retries) throw error
-        console.warn(`Retry ${i + 1}/${retries} after error:`, error)
-        await new Promise(resolve => setTimeout(resolve, 2000))
-      }
-    }
-    throw new Error('Failed to create summarizer after retries')
+  private async addUnpooledSession<S extends AISession>(create: () => Promise<S>): Promise<S> {
+    const creation = this.creationQueue.then(async () => {
+      await this.makeRoom()
+      await this.waitForCreationSlot()
+      const session = await create()
+      this.lastCreationTime = Date.now()
+      this.unpooled.add(session)
+      return session
+    })
+    this.creationQueue = creation.catch(() => undefined)
+    return await creation
   }
 
   /**
-   * Create language model with timeout and retry logic
+   * Create a session with timeout and retry logic
    */
-  private async createLanguageModelWithRetry(options: any, retries = 2): Promise<LanguageModelSession> {
+  private async createWithRetry(factory: AISessionFactory, options: any, allowDownload = false, retries = 2): Promise<AISession> {
     for (let i = 0; i <= retries; i++) {
       try {
-        if (!('LanguageModel' in self)) {
-          throw new Error('LanguageModel API not available')
+        // Check availability first
+        if (!factory.isSupported()) {
+          throw new Error(`${factory.name} API not available`)
         }
 
         const availability = await Promise.race([
-          LanguageModel.availability(),
+          factory.availability(),
           new Promise<never>((_, reject) => 
             setTimeout(() => reject(new Error('Availability check timeout')), 5000)
           )
         ])
 
-        if (availability !== 'available') {
-          throw new Error(`LanguageModel not available: ${availability}`)
+        if (availability === 'unavailable' || (availability !== 'available' && !allowDownload)) {
+          throw new Error(`${factory.name} not available: ${availability}`)
         }
 
-        const session = await Promise.race([
-          LanguageModel.create(options || {
-            temperature: 0.7,
-            topK: 3
-          }),
+        // Create session with timeout (a model download can take minutes, so it gets none)
+        const creation = factory.create(options || factory.defaultOptions)
+        const session = availability !== 'available' ? await creation : await Promise.race([
+          creation,
           new Promise<never>((_, reject) => 
             setTimeout(() => reject(new Error('Session creation timeout')), 15000)
           )
@@ -183,14 +274,22 @@ class AISessionManager {
         await new Promise(resolve => setTimeout(resolve, 2000))
       }
     }
-    throw new Error('Failed to create language model after retries')
+    throw new Error(`Failed to create ${factory.name} after retries`)
+  }
+
+  /**
+   * Check whether a session is still alive (not evicted or expired)
+   */
+  hasSession(config: SessionConfig): boolean {
+    const sessionKey = this.getSessionKey(config)
+    return this.sessions.has(sessionKey)
   }
 
   /**
    * Destroy a specific session
    */
   async destroySession(config: SessionConfig): Promise<void> {
-    const sessionKey = `${config.type}-${JSON.stringify(config.options || {})}`
+    const sessionKey = this.getSessionKey(config)
     const managed = this.sessions.get(sessionKey)
 
     if (managed) {
@@ -209,14 +308,44 @@ class AISessionManager {
   }
 
   /**
-   * Destroy the oldest session to free up resources
+   * Hand back a session from getSession, cloneSession or
+   * createUnpooledSession once done with it. Pooled sessions stay in the
+   * pool for the next caller, and become evictable when nobody holds them;
+   * the others, and sessions no longer pooled, are destroyed.
+   */
+  async releaseSession(session: AISession): Promise<void> {
+    try {
+      for (const managed of this.sessions.values()) {
+        if (managed.session !== session) continue
+
+        managed.inUse = Math.max(0, managed.inUse - 1)
+        managed.lastUsedAt = Date.now()
+        return
+      }
+
+      this.unpooled.delete(session)
+      await new Promise(resolve => setTimeout(resolve, 200))
+      try {
+        session.destroy()
+        console.log('🗑️ Released session')
+      } catch (error) {
+        console.error(`⚠️ Error destroying session:`, error)
+      }
+    } finally {
+      this.idleWaiters.splice(0).forEach(wake => wake())
+    }
+  }
+
+  /**
+   * Destroy the least recently used idle session to free up resources.
+   * Returns false when every session is in use.
    */
-  private async destroyOldestSession(): Promise<void> {
+  private async destroyOldestSession(): Promise<boolean> {
     let oldestKey: string | null = null
     let oldestTime = Infinity
 
     for (const [key, session] of this.sessions) {
-      if (session.lastUsedAt < oldestTime) {
+      if (session.inUse === 0 && session.lastUsedAt < oldestTime) {
         oldestTime = session.lastUsedAt
         oldestKey = key
       }
@@ -234,6 +363,8 @@ class AISessionManager {
         this.sessions.delete(oldestKey)
       }
     }
+
+    return oldestKey !== null
   }
 
   /**
@@ -244,7 +375,7 @@ class AISessionManager {
     const toDestroy: string[] = []
 
     for (const [key, session] of this.sessions) {
-      if (now - session.lastUsedAt > this.SESSION_TIMEOUT) {
+      if (session.inUse === 0 && now - session.lastUsedAt > this.SESSION_TIMEOUT) {
         toDestroy.push(key)
       }
     }
@@ -281,7 +412,16 @@ class AISessionManager {
       }
     }
 
+    for (const session of this.unpooled) {
+      try {
+        session.destroy()
+      } catch (error) {
+        console.error('Error destroying session:', error)
+      }
+    }
+
     this.sessions.clear()
+    this.unpooled.clear()
     console.log('✅ All sessions destroyed')
   }
 
@@ -302,7 +442,8 @@ class AISessionManager {
         type: session.type,
         age: Math.floor((Date.now() - session.createdAt) / 1000),
         lastUsed: Math.floor((Date.now() - session.lastUsedAt) / 1000),
-        useCount: session.useCount
+        useCount: session.useCount,
+        inUse: session.inUse
       })
     }
     return stats
@@ -0,0 +1,245 @@
+// apps/extension/src/utils/simplification-cache.ts
+// ** import types
+import type { SimplificationLevel, OptimizationMode } from '@/api/chrome-ai/articles'
+
+// Simplified pages kept in the extension's IndexedDB, so a revisit doesn't cost
+// another AI pass. Only the background and extension pages open the database:
+// a content script would get the web page's IndexedDB instead. Content scripts
+// check the index of reapplied URLs in chrome.storage.local first, so pages
+// with nothing saved don't wake the background at all.
+
+export interface CachedSimplification {
+  // url|level|mode
+  key: string
+  url: string
+  title: string
+  level: SimplificationLevel
+  mode: OptimizationMode
+  // Hash of the page's section texts; a different hash means the page changed
+  contentHash: string
+  // Simplified text of each section, with [[IMG_n]] image placeholders
+  sections: string[]
+  // Put back automatically when the page is opened again
+  reapply: boolean
+  size: number
+  savedAt: number
+}
+
+export interface SimplificationCacheStats {
+  count: number
+  bytes: number
+}
+
+const DB_NAME = 'talktomytabs'
+const DB_VERSION = 1
+const STORE_NAME = 'simplifications'
+// Oldest entries go first once there are more than this
+const MAX_ENTRIES = 200
+// chrome.storage.local key of the normalized URLs that have a simplification to reapply
+const REAPPLIED_INDEX_KEY = 'reappliedSimplificationUrls'
+
+export const getCacheKey = (url: string, level: SimplificationLevel, mode: OptimizationMode): string =>
+  `${url}|${level}|${mode}`
+
+/**
+ * Short, stable hash of the page text (FNV-1a). crypto.subtle isn't available
+ * on plain http pages, and this only has to notice changes.
+ */
+export const hashContent = (text: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length}`
+}
+
+const getReappliedIndex = async (): Promise<string[]> => {
+  const result = await chrome.storage.local.get(REAPPLIED_INDEX_KEY)
+  return result[REAPPLIED_INDEX_KEY] ?? []
+}
+
+// Index writes run one after another, so two tabs saving at once can't
+// overwrite each other's URLs
+let pendingIndexUpdate: Promise<unknown> = Promise.resolve()
+
+const queueIndexUpdate = (update: () => Promise<void>): Promise<void> => {
+  const next = pendingIndexUpdate.then(update)
+  pendingIndexUpdate = next.catch(() => undefined)
+  return next
+}
+
+/**
+ * Whether a page has a simplification to put back, without asking the
+ * background. Safe to call from content scripts; `url` must be normalized.
+ */
+export const hasReappliedSimplification = async (url: string): Promise<boolean> =>
+  (await getReappliedIndex()).includes(url)
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        store.createIndex('url', 'url')
+        store.createIndex('savedAt', 'savedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// Run one transaction and resolve with what `run` produced once it commits
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+const getEntriesForUrl = async (url: string): Promise<CachedSimplification[]> =>
+  (await withStore<CachedSimplification[]>('readonly', store => store.index('url').getAll(url))) ?? []
+
+// Bring the index up to date for these pages. Whether a page is reapplied is
+// read from the cache when the update runs, so the index ends up matching it
+// whatever order the changes were made in.
+const updateReappliedIndex = (urls: string[]): Promise<void> =>
+  queueIndexUpdate(async () => {
+    const index = new Set(await getReappliedIndex())
+    for (const url of new Set(urls)) {
+      const isReapplied = (await getEntriesForUrl(url)).some(entry => entry.reapply)
+      if (isReapplied) index.add(url)
+      else index.delete(url)
+    }
+    await chrome.storage.local.set({ [REAPPLIED_INDEX_KEY]: Array.from(index) })
+  })
+
+/**
+ * The cached simplification for this page and settings, if the page text is
+ * unchanged. Entries for an older version of the page are dropped.
+ */
+export const getCachedSimplification = async (
+  url: string,
+  level: SimplificationLevel,
+  mode: OptimizationMode,
+  contentHash: string
+): Promise<CachedSimplification | null> => {
+  const entry = await withStore<CachedSimplification>('readonly', store => store.get(getCacheKey(url, level, mode)))
+  if (!entry) return null
+
+  if (entry.contentHash !== contentHash) {
+    await deleteSimplificationsForUrl(url)
+    return null
+  }
+  return entry
+}
+
+/**
+ * The simplification to put back when this page is opened again, if any.
+ * The page checks the content hash, since it has to read the article for it.
+ */
+export const getReappliedSimplification = async (url: string): Promise<CachedSimplification | null> => {
+  const entries = await getEntriesForUrl(url)
+  return entries.find(entry => entry.reapply) ?? null
+}
+
+/**
+ * Store a finished simplification, making it the one reapplied for its page
+ */
+export const saveSimplification = async (
+  entry: Omit<CachedSimplification, 'key' | 'reapply' | 'size' | 'savedAt'>
+): Promise<void> => {
+  const saved: CachedSimplification = {
+    ...entry,
+    key: getCacheKey(entry.url, entry.level, entry.mode),
+    reapply: true,
+    size: JSON.stringify(entry).length * 2,
+    savedAt: Date.now()
+  }
+
+  const others = await getEntriesForUrl(entry.url)
+  await withStore('readwrite', store => {
+    others
+      .filter(other => other.reapply && other.key !== saved.key)
+      .forEach(other => store.put({ ...other, reapply: false }))
+    store.put(saved)
+  })
+  await updateReappliedIndex([entry.url])
+  await pruneCache()
+}
+
+/**
+ * Choose which cached simplification of a page is reapplied on revisit;
+ * null stops reapplying, while keeping the cached text
+ */
+export const setReappliedSimplification = async (url: string, key: string | null): Promise<void> => {
+  const entries = await getEntriesForUrl(url)
+  await withStore('readwrite', store => {
+    entries
+      .filter(entry => entry.reapply !== (entry.key === key))
+      .forEach(entry => store.put({ ...entry, reapply: entry.key === key }))
+  })
+  await updateReappliedIndex([url])
+}
+
+// Everything cached for a page, e.g. once its text has changed
+export const deleteSimplificationsForUrl = async (url: string): Promise<void> => {
+  const entries = await getEntriesForUrl(url)
+  await withStore('readwrite', store => {
+    entries.forEach(entry => store.delete(entry.key))
+  })
+  await updateReappliedIndex([url])
+}
+
+const pruneCache = async (): Promise<void> => {
+  const count = (await withStore<number>('readonly', store => store.count())) ?? 0
+  if (count <= MAX_ENTRIES) return
+
+  const oldest = (await withStore<CachedSimplification[]>('readonly', store =>
+    store.index('savedAt').getAll(null, count - MAX_ENTRIES)
+  )) ?? []
+  await withStore('readwrite', store => {
+    oldest.forEach(entry => store.delete(entry.key))
+  })
+  // A page has one reapplied entry at most, so dropping it leaves nothing to reapply
+  await updateReappliedIndex(oldest.filter(entry => entry.reapply).map(entry => entry.url))
+}
+
+/**
+ * Write the index from what the cache holds, for caches from before it existed
+ */
+export const rebuildReappliedIndex = (): Promise<void> =>
+  queueIndexUpdate(async () => {
+    const entries = (await withStore<CachedSimplification[]>('readonly', store => store.getAll())) ?? []
+    const urls = entries.filter(entry => entry.reapply).map(entry => entry.url)
+    await chrome.storage.local.set({ [REAPPLIED_INDEX_KEY]: urls })
+  })
+
+export const getSimplificationCacheStats = async (): Promise<SimplificationCacheStats> => {
+  const entries = (await withStore<CachedSimplification[]>('readonly', store => store.getAll())) ?? []
+  return {
+    count: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0)
+  }
+}
+
+export const clearSimplificationCache = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear())
+  await queueIndexUpdate(() => chrome.storage.local.remove(REAPPLIED_INDEX_KEY))
+}
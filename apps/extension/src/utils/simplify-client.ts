@@ -0,0 +1,76 @@
+// apps/extension/src/utils/simplify-client.ts
+export const SIMPLIFY_PORT_NAME = 'ai-simplify'
+
+// Sent by the page to start simplifying; disconnecting cancels it
+export interface SimplifyStreamRequest {
+  type: 'start'
+  label: string
+  title: string
+  // Article text split into sections, with [[IMG_n]] image placeholders
+  sections: string[]
+  level: string
+  mode: string
+}
+
+// Sent back by the background while sections are written
+export type SimplifyStreamMessage =
+  | { type: 'chunk'; section: number; chunk: string }
+  // With the final text, which may differ from the chunks (e.g. restored images)
+  | { type: 'section-done'; section: number; text: string }
+  | { type: 'done' }
+  | { type: 'cancelled' }
+  | { type: 'error'; error: string }
+
+export interface SimplifyStreamHandlers {
+  onChunk: (section: number, chunk: string) => void
+  onSectionDone: (section: number, text: string) => void
+  // Called once: with no error when every section is done, or when stopped
+  onFinish: (error: Error | null, stopped: boolean) => void
+}
+
+/**
+ * Stream a page simplification from the offscreen document, through the
+ * background job queue. Returns a function that cancels it.
+ */
+export const streamSimplification = (
+  request: Omit<SimplifyStreamRequest, 'type'>,
+  handlers: SimplifyStreamHandlers
+): (() => void) => {
+  const port = chrome.runtime.connect({ name: SIMPLIFY_PORT_NAME })
+  let isSettled = false
+
+  const finish = (error: Error | null, stopped = false) => {
+    if (isSettled) return
+    isSettled = true
+    port.disconnect()
+    handlers.onFinish(error, stopped)
+  }
+
+  port.onMessage.addListener((message: SimplifyStreamMessage) => {
+    switch (message.type) {
+      case 'chunk':
+        handlers.onChunk(message.section, message.chunk)
+        break
+      case 'section-done':
+        handlers.onSectionDone(message.section, message.text)
+        break
+      case 'done':
+        finish(null)
+        break
+      case 'cancelled':
+        finish(null, true)
+        break
+      case 'error':
+        finish(new Error(message.error))
+        break
+    }
+  })
+
+  port.onDisconnect.addListener(() => {
+    finish(new Error('Lost connection to the background'))
+  })
+
+  port.postMessage({ type: 'start', ...request } satisfies SimplifyStreamRequest)
+
+  return () => finish(null, true)
+}
@@ -0,0 +1,77 @@
+// apps/extension/src/utils/site-adapters/github.ts
+// ** import types
+import type { SiteAdapter, SiteContent } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { renderMarkdown, findHeadings } from '@/utils/readability'
+import { normalizeText } from '@/utils/site-adapters/thread'
+
+// GitHub has shipped both the classic and the React issue page, so both sets of selectors are tried
+const TITLE_SELECTOR = '[data-testid="issue-title"], .js-issue-title, bdi.markdown-title'
+const STATE_SELECTOR = '[data-testid="header-state"], .gh-header-meta .State'
+const COMMENT_BODY_SELECTOR = '.timeline-comment .comment-body, [data-testid="issue-body"] [data-testid="markdown-body"], .react-issue-comment [data-testid="markdown-body"]'
+const COMMENT_SELECTOR = '.timeline-comment, [data-testid="issue-body"], .react-issue-comment'
+const AUTHOR_SELECTOR = 'a.author, [data-testid="issue-body-header-author"], [data-testid="avatar-link"]'
+
+// /owner/repo/issues/12 or /owner/repo/pull/12
+const getThreadKind = (url: URL): 'Issue' | 'Pull request' | null => {
+  const [, , section, number] = url.pathname.split('/').filter(Boolean)
+  if (!number || !/^\d+$/.test(number)) return null
+  if (section === 'issues') return 'Issue'
+  if (section === 'pull') return 'Pull request'
+  return null
+}
+
+const readThread = (doc: Document, kind: string): SiteContent | null => {
+  const title = normalizeText(doc.querySelector(TITLE_SELECTOR)?.textContent)
+  const state = normalizeText(doc.querySelector(STATE_SELECTOR)?.textContent)
+
+  const comments = Array.from(doc.querySelectorAll(COMMENT_BODY_SELECTOR))
+    .map(body => ({
+      author: normalizeText(body.closest(COMMENT_SELECTOR)?.querySelector(AUTHOR_SELECTOR)?.textContent),
+      text: renderMarkdown(body)
+    }))
+    .filter(comment => comment.text)
+  if (!title || comments.length === 0) return null
+
+  const [opening, ...replies] = comments
+  const sections = [
+    `# ${title}`,
+    `${kind}${state ? ` (${state})` : ''} opened by @${opening.author || 'unknown'}`,
+    opening.text,
+    ...(replies.length > 0 ? ['## Comments'] : []),
+    ...replies.map(reply => `### @${reply.author || 'unknown'}\n\n${reply.text}`)
+  ]
+
+  return {
+    title,
+    content: sections.join('\n\n'),
+    author: opening.author
+  }
+}
+
+// The README on a repository's home page, or a Markdown file being viewed
+const readMarkdownFile = (doc: Document, url: URL): SiteContent | null => {
+  const article = doc.querySelector('article.markdown-body')
+  if (!article) return null
+
+  const [owner, repo] = url.pathname.split('/').filter(Boolean)
+  return {
+    title: owner && repo ? `${owner}/${repo}` : doc.title,
+    content: renderMarkdown(article),
+    headings: findHeadings([article], article)
+  }
+}
+
+/**
+ * Issues and pull requests as the opening post plus comments with their
+ * authors; READMEs and Markdown files as just the rendered file
+ */
+export const githubAdapter: SiteAdapter = {
+  name: 'github',
+  matches: url => url.hostname === 'github.com',
+  extract: (doc, url) => {
+    const kind = getThreadKind(url)
+    return kind ? readThread(doc, kind) : readMarkdownFile(doc, url)
+  }
+}
@@ -0,0 +1,59 @@
+// apps/extension/src/utils/site-adapters/hacker-news.ts
+// ** import types
+import type { SiteAdapter, ThreadComment } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { renderMarkdown } from '@/utils/readability'
+import { formatThread, normalizeText } from '@/utils/site-adapters/thread'
+
+// Older pages indent replies with a spacer image 40px wide per level
+const INDENT_WIDTH = 40
+
+const getDepth = (row: Element): number => {
+  const indent = row.querySelector('td.ind')
+  const level = indent?.getAttribute('indent')
+  if (level !== null && level !== undefined) return Number(level) || 0
+
+  const spacer = indent?.querySelector('img')
+  return Math.round(Number(spacer?.getAttribute('width') || 0) / INDENT_WIDTH)
+}
+
+/**
+ * A story as its title, link and text, then the comments as a tree with their authors
+ */
+export const hackerNewsAdapter: SiteAdapter = {
+  name: 'hacker-news',
+  matches: url => url.hostname === 'news.ycombinator.com' && url.pathname === '/item',
+  extract: doc => {
+    const titleLink = doc.querySelector<HTMLAnchorElement>('.fatitem .titleline > a')
+    const title = normalizeText(titleLink?.textContent)
+    const author = normalizeText(doc.querySelector('.fatitem .hnuser')?.textContent)
+    const points = normalizeText(doc.querySelector('.fatitem .score')?.textContent)
+    const storyText = doc.querySelector('.fatitem .toptext')
+
+    const comments: ThreadComment[] = Array.from(doc.querySelectorAll('tr.athing.comtr')).map(row => {
+      const text = row.querySelector('.commtext')
+      return {
+        author: normalizeText(row.querySelector('.hnuser')?.textContent),
+        depth: getDepth(row),
+        text: text ? renderMarkdown(text) : ''
+      }
+    })
+    if (!title && comments.length === 0) return null
+
+    // Links to the site itself are Ask HN and similar text posts
+    const link = titleLink && !titleLink.href.startsWith('https://news.ycombinator.com/') ? titleLink.href : ''
+
+    return {
+      title: title || doc.title,
+      content: [
+        title && `# ${title}`,
+        [author && `Posted by ${author}`, points && `(${points})`].filter(Boolean).join(' '),
+        link && `Link: ${link}`,
+        storyText ? renderMarkdown(storyText) : '',
+        ...(comments.length > 0 ? ['## Comments', formatThread(comments)] : [])
+      ].filter(Boolean).join('\n\n'),
+      author
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// apps/extension/src/utils/site-adapters/index.ts
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+import type { SiteAdapter } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { completePageContent } from '@/utils/contentExtractor'
+import { youtubeAdapter } from '@/utils/site-adapters/youtube'
+import { githubAdapter } from '@/utils/site-adapters/github'
+import { stackExchangeAdapter } from '@/utils/site-adapters/stack-exchange'
+import { redditAdapter } from '@/utils/site-adapters/reddit'
+import { hackerNewsAdapter } from '@/utils/site-adapters/hacker-news'
+import { wikipediaAdapter } from '@/utils/site-adapters/wikipedia'
+import { mdnAdapter } from '@/utils/site-adapters/mdn'
+import { videoTrackAdapter } from '@/utils/site-adapters/video-track'
+
+export type { SiteAdapter, SiteContent, ThreadComment } from '@/utils/site-adapters/types'
+
+// Tried in order; the first that reads the page wins. The video track adapter
+// matches every page, so it comes last.
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  youtubeAdapter,
+  githubAdapter,
+  stackExchangeAdapter,
+  redditAdapter,
+  hackerNewsAdapter,
+  wikipediaAdapter,
+  mdnAdapter,
+  videoTrackAdapter
+]
+
+/**
+ * Read the page with the adapter for its site. Returns null when no adapter
+ * knows the page, so the generic extractor reads it.
+ */
+export const extractWithSiteAdapter = async (
+  doc: Document = document,
+  url: string = window.location.href
+): Promise<PageContent | null> => {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+
+  for (const adapter of SITE_ADAPTERS) {
+    if (!adapter.matches(parsed)) continue
+
+    try {
+      const site = await adapter.extract(doc, parsed)
+      if (site?.content.trim()) {
+        console.log(`🧩 Read page with the ${adapter.name} adapter`)
+        return completePageContent(site, adapter.name)
+      }
+    } catch (error) {
+      // Sites change their markup; fall back rather than fail the extraction
+      console.warn(`⚠️ ${adapter.name} adapter failed, trying the next one:`, error)
+    }
+  }
+
+  return null
+}
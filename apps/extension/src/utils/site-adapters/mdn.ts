@@ -0,0 +1,32 @@
+// apps/extension/src/utils/site-adapters/mdn.ts
+// ** import types
+import type { SiteAdapter } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { renderMarkdown, findHeadings } from '@/utils/readability'
+import { normalizeText } from '@/utils/site-adapters/thread'
+
+// Browser compatibility widgets, page metadata and the "copy" buttons on examples
+const REMOVED_SELECTOR = '.bc-data, .bc-table, .metadata, .prev-next, .article-actions, .copy-icon, .baseline-indicator'
+
+/**
+ * A reference page as its text, syntax and code examples with their languages
+ */
+export const mdnAdapter: SiteAdapter = {
+  name: 'mdn',
+  matches: url => url.hostname === 'developer.mozilla.org' && /\/docs\//.test(url.pathname),
+  extract: doc => {
+    const root = doc.querySelector('.main-page-content, main article')
+    if (!root) return null
+
+    // Work on a copy so the page itself stays as it is
+    const article = root.cloneNode(true) as Element
+    article.querySelectorAll(REMOVED_SELECTOR).forEach(element => element.remove())
+
+    return {
+      title: normalizeText(article.querySelector('h1')?.textContent) || doc.title,
+      content: renderMarkdown(article),
+      headings: findHeadings([article], article)
+    }
+  }
+}
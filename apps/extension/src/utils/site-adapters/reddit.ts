@@ -0,0 +1,108 @@
+// apps/extension/src/utils/site-adapters/reddit.ts
+// ** import types
+import type { SiteAdapter, SiteContent, ThreadComment } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { renderMarkdown } from '@/utils/readability'
+import { formatThread, normalizeText } from '@/utils/site-adapters/thread'
+
+interface RedditPost {
+  title: string
+  author: string
+  // e.g. "r/typescript"
+  community: string
+  score: string
+  text: string
+  // Where a link post points; empty for text posts
+  link: string
+}
+
+const formatPost = (post: RedditPost, comments: ThreadComment[]): SiteContent | null => {
+  if (!post.title) return null
+
+  const byline = [
+    post.author && `Posted by u/${post.author}`,
+    post.community && `in ${post.community}`,
+    post.score && `(${post.score} points)`
+  ].filter(Boolean).join(' ')
+
+  return {
+    title: post.title,
+    content: [
+      `# ${post.title}`,
+      byline,
+      post.link && `Link: ${post.link}`,
+      post.text,
+      ...(comments.length > 0 ? ['## Comments', formatThread(comments)] : [])
+    ].filter(Boolean).join('\n\n'),
+    author: post.author
+  }
+}
+
+// The current site, built from <shreddit-post> and <shreddit-comment> elements
+const readNewReddit = (doc: Document): SiteContent | null => {
+  const post = doc.querySelector('shreddit-post')
+  if (!post) return null
+
+  const textBody = post.querySelector('[slot="text-body"]')
+
+  const comments = Array.from(doc.querySelectorAll('shreddit-comment')).map(comment => {
+    const body = comment.querySelector(':scope > [slot="comment"]')
+    return {
+      author: comment.getAttribute('author') || '',
+      depth: Number(comment.getAttribute('depth')) || 0,
+      score: comment.getAttribute('score') ? `${comment.getAttribute('score')} points` : undefined,
+      text: body ? renderMarkdown(body) : ''
+    }
+  })
+
+  return formatPost({
+    title: post.getAttribute('post-title') || normalizeText(post.querySelector('[slot="title"]')?.textContent),
+    author: post.getAttribute('author') || '',
+    community: post.getAttribute('subreddit-prefixed-name') || '',
+    score: post.getAttribute('score') || '',
+    text: textBody ? renderMarkdown(textBody) : '',
+    link: post.getAttribute('post-type') === 'link' ? post.getAttribute('content-href') || '' : ''
+  }, comments)
+}
+
+// old.reddit.com, where every post and comment is a .thing
+const readOldReddit = (doc: Document): SiteContent | null => {
+  const post = doc.querySelector('#siteTable .thing.link')
+  if (!post) return null
+
+  const textBody = post.querySelector('.expando .usertext-body .md')
+
+  const comments = Array.from(doc.querySelectorAll('.commentarea .thing.comment:not(.deleted)')).map(comment => {
+    const body = comment.querySelector(':scope > .entry .usertext-body .md')
+    let depth = 0
+    for (let parent = comment.parentElement?.closest('.thing.comment'); parent; parent = parent.parentElement?.closest('.thing.comment')) {
+      depth++
+    }
+
+    return {
+      author: comment.getAttribute('data-author') || '',
+      depth,
+      score: normalizeText(comment.querySelector(':scope > .entry .score.unvoted')?.textContent) || undefined,
+      text: body ? renderMarkdown(body) : ''
+    }
+  })
+
+  return formatPost({
+    title: normalizeText(post.querySelector('a.title')?.textContent),
+    author: post.getAttribute('data-author') || '',
+    community: post.getAttribute('data-subreddit-prefixed') || '',
+    score: post.getAttribute('data-score') || '',
+    text: textBody ? renderMarkdown(textBody) : '',
+    link: post.classList.contains('self') ? '' : post.getAttribute('data-url') || ''
+  }, comments)
+}
+
+/**
+ * A thread as the post, then its comments as a tree with their authors and scores
+ */
+export const redditAdapter: SiteAdapter = {
+  name: 'reddit',
+  matches: url => /(^|\.)reddit\.com$/.test(url.hostname) && /\/comments\//.test(url.pathname),
+  extract: doc => readNewReddit(doc) ?? readOldReddit(doc)
+}
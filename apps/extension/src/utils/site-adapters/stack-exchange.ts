@@ -0,0 +1,87 @@
+// apps/extension/src/utils/site-adapters/stack-exchange.ts
+// ** import types
+import type { SiteAdapter } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { renderMarkdown } from '@/utils/readability'
+import { normalizeText } from '@/utils/site-adapters/thread'
+
+// Stack Exchange sites that don't live under stackexchange.com
+const STACK_EXCHANGE_HOSTS = new Set([
+  'stackoverflow.com',
+  'superuser.com',
+  'serverfault.com',
+  'askubuntu.com',
+  'mathoverflow.net',
+  'stackapps.com'
+])
+
+// The accepted answer plus the best-voted others
+const MAX_ANSWERS = 5
+
+interface Post {
+  score: number
+  author: string
+  text: string
+  isAccepted: boolean
+}
+
+const readPost = (post: Element): Post | null => {
+  const body = post.querySelector('.js-post-body, .s-prose')
+  if (!body) return null
+
+  const vote = post.querySelector('.js-vote-count')
+  // Edits sign the post too; the last signature is the one who wrote it
+  const signatures = Array.from(post.querySelectorAll('.post-signature .user-details a'))
+
+  return {
+    score: Number(vote?.getAttribute('data-value') ?? vote?.textContent) || 0,
+    author: normalizeText(signatures[signatures.length - 1]?.textContent),
+    text: renderMarkdown(body),
+    isAccepted: post.classList.contains('accepted-answer') || post.getAttribute('itemprop') === 'acceptedAnswer'
+  }
+}
+
+const formatByline = (post: Post): string =>
+  `score ${post.score}${post.author ? `, by ${post.author}` : ''}`
+
+/**
+ * A question as the question, its accepted answer and the best-voted other
+ * answers, leaving out the sidebar, related questions and comment widgets
+ */
+export const stackExchangeAdapter: SiteAdapter = {
+  name: 'stack-exchange',
+  matches: url =>
+    (STACK_EXCHANGE_HOSTS.has(url.hostname) || url.hostname.endsWith('.stackexchange.com')) &&
+    /^\/questions\/\d+/.test(url.pathname),
+  extract: doc => {
+    const title = normalizeText(doc.querySelector('#question-header h1')?.textContent)
+    const questionElement = doc.querySelector('#question, .question')
+    const question = questionElement && readPost(questionElement)
+    if (!title || !question) return null
+
+    const tags = Array.from(questionElement!.querySelectorAll('.post-tag'))
+      .map(tag => normalizeText(tag.textContent))
+    const answers = Array.from(doc.querySelectorAll('.answer'))
+      .map(readPost)
+      .filter((answer): answer is Post => !!answer)
+      .sort((a, b) => Number(b.isAccepted) - Number(a.isAccepted) || b.score - a.score)
+      .slice(0, MAX_ANSWERS)
+
+    const sections = [
+      `# ${title}`,
+      `## Question (${formatByline(question)})`,
+      ...(tags.length > 0 ? [`Tags: ${Array.from(new Set(tags)).join(', ')}`] : []),
+      question.text,
+      ...answers.map(answer =>
+        `## ${answer.isAccepted ? 'Accepted answer' : 'Answer'} (${formatByline(answer)})\n\n${answer.text}`
+      )
+    ]
+
+    return {
+      title,
+      content: sections.join('\n\n'),
+      author: question.author
+    }
+  }
+}
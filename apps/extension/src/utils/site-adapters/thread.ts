@@ -0,0 +1,24 @@
+// apps/extension/src/utils/site-adapters/thread.ts
+// ** import types
+import type { ThreadComment } from '@/utils/site-adapters/types'
+
+// Long threads are cut, the top of a thread is what's worth reading
+export const MAX_THREAD_COMMENTS = 150
+
+export const normalizeText = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim()
+
+/**
+ * Write a discussion as a nested Markdown list, so replies stay under the
+ * comment they answer
+ */
+export const formatThread = (comments: ThreadComment[]): string =>
+  comments
+    .filter(comment => comment.text)
+    .slice(0, MAX_THREAD_COMMENTS)
+    .map(comment => {
+      const indent = '  '.repeat(comment.depth)
+      const score = comment.score ? ` (${comment.score})` : ''
+      const text = comment.text.replace(/\n+/g, `\n${indent}  `)
+      return `${indent}- **${comment.author || '[deleted]'}**${score}: ${text}`
+    })
+    .join('\n')
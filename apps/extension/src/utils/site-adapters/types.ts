@@ -0,0 +1,24 @@
+// apps/extension/src/utils/site-adapters/types.ts
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+
+// What an adapter read from the page; the rest of PageContent comes from the
+// page's meta tags, see completePageContent
+export type SiteContent = Partial<PageContent> & Pick<PageContent, 'content'>
+
+export interface SiteAdapter {
+  // Kept on the page content as siteAdapter
+  name: string
+  matches: (url: URL) => boolean
+  // null when the page isn't one the adapter knows after all, e.g. a GitHub
+  // settings page, so the generic extractor reads it instead
+  extract: (doc: Document, url: URL) => SiteContent | null | Promise<SiteContent | null>
+}
+
+// One comment in a discussion, with how deeply it's nested
+export interface ThreadComment {
+  author: string
+  depth: number
+  score?: string
+  text: string
+}
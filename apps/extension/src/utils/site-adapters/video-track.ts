@@ -0,0 +1,36 @@
+// apps/extension/src/utils/site-adapters/video-track.ts
+// ** import types
+import type { SiteAdapter } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { extractPageContent } from '@/utils/contentExtractor'
+import { extractTrackTranscript, formatTranscript, markTranscriptVideo } from '@/utils/transcript'
+
+// The page around a video is cut to this, the transcript is what the chat is about
+const MAX_PAGE_TEXT_LENGTH = 4000
+
+/**
+ * Any page with a captioned <video>: its transcript, then the start of the
+ * article around it. Checked last, after the adapters for specific sites.
+ */
+export const videoTrackAdapter: SiteAdapter = {
+  name: 'video-track',
+  matches: () => true,
+  extract: async doc => {
+    const transcript = await extractTrackTranscript(doc)
+    if (!transcript) return null
+    markTranscriptVideo(transcript.video)
+
+    const page = extractPageContent()
+    const pageText = page.content.length > MAX_PAGE_TEXT_LENGTH
+      ? `${page.content.substring(0, MAX_PAGE_TEXT_LENGTH)}...`
+      : page.content
+
+    return {
+      ...page,
+      content: `## Video transcript\n\n${formatTranscript(transcript.cues)}\n\n## Page text\n\n${pageText}`,
+      sourceType: 'video',
+      duration: transcript.video.duration || undefined
+    }
+  }
+}
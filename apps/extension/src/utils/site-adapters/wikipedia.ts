@@ -0,0 +1,44 @@
+// apps/extension/src/utils/site-adapters/wikipedia.ts
+// ** import types
+import type { SiteAdapter } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { renderMarkdown, findHeadings } from '@/utils/readability'
+import { normalizeText } from '@/utils/site-adapters/thread'
+
+// Edit links, footnote markers, navigation boxes and maintenance notices
+const REMOVED_SELECTOR = [
+  '.mw-editsection', 'sup.reference', '.reference', '.reflist', '.references', '.navbox',
+  '.vertical-navbox', '.infobox', '.sidebar', '.hatnote', '.toc', '#toc', '.metadata', '.ambox',
+  '.mbox-small', '.sistersitebox', '.noprint', '.shortdescription', '.mw-empty-elt', 'style'
+].join(', ')
+
+// The article ends where its reference sections start
+const END_SECTION_PATTERN = /^#{2,} (?:See also|Notes|References|Citations|Sources|Bibliography|Further reading|External links)\s*$/m
+
+/**
+ * An article as its prose and tables, without references, navigation boxes
+ * and the infobox
+ */
+export const wikipediaAdapter: SiteAdapter = {
+  name: 'wikipedia',
+  matches: url => /(^|\.)wikipedia\.org$/.test(url.hostname) && url.pathname.startsWith('/wiki/'),
+  extract: doc => {
+    const root = doc.querySelector('#mw-content-text .mw-parser-output')
+    if (!root) return null
+
+    // Work on a copy so the page itself stays as it is
+    const article = root.cloneNode(true) as Element
+    article.querySelectorAll(REMOVED_SELECTOR).forEach(element => element.remove())
+
+    const markdown = renderMarkdown(article)
+    const end = markdown.search(END_SECTION_PATTERN)
+    const title = normalizeText(doc.querySelector('#firstHeading')?.textContent)
+
+    return {
+      title: title || doc.title,
+      content: `${title ? `# ${title}\n\n` : ''}${end === -1 ? markdown : markdown.slice(0, end).trim()}`,
+      headings: findHeadings([article], article)
+    }
+  }
+}
@@ -0,0 +1,205 @@
+// apps/extension/src/utils/site-adapters/youtube.ts
+// ** import types
+import type { TranscriptCue } from '@/utils/transcript'
+import type { SiteAdapter } from '@/utils/site-adapters/types'
+
+// ** import utils
+import { parseTimestamp, formatTranscript, markTranscriptVideo } from '@/utils/transcript'
+
+export interface YouTubeVideo {
+  videoId: string
+  title: string
+  author: string
+  description: string
+  // Seconds
+  duration: number
+  cues: TranscriptCue[]
+}
+
+interface CaptionTrack {
+  baseUrl: string
+  languageCode: string
+  // "asr" for automatic captions
+  kind?: string
+}
+
+interface PlayerResponse {
+  videoDetails?: {
+    videoId: string
+    title: string
+    author: string
+    shortDescription: string
+    lengthSeconds: string
+  }
+  captions?: {
+    playerCaptionsTracklistRenderer?: { captionTracks?: CaptionTrack[] }
+  }
+}
+
+// Timed text in YouTube's json3 format
+interface TimedText {
+  events?: Array<{ tStartMs: number; segs?: Array<{ utf8: string }> }>
+}
+
+export const getYouTubeVideoId = (url: string): string | null => {
+  try {
+    const { hostname, pathname, searchParams } = new URL(url)
+    if (!/(^|\.)youtube\.com$/.test(hostname)) return null
+    if (pathname === '/watch') return searchParams.get('v')
+
+    const match = pathname.match(/^\/(?:shorts|live)\/([\w-]+)/)
+    return match ? match[1] : null
+  } catch {
+    return null
+  }
+}
+
+// Cut `{...}` out of a page script, skipping braces inside strings
+const extractJsonObject = (source: string, marker: string): string | null => {
+  const markerIndex = source.indexOf(marker)
+  if (markerIndex === -1) return null
+  const start = source.indexOf('{', markerIndex + marker.length)
+  if (start === -1) return null
+
+  let depth = 0
+  let inString = false
+  for (let index = start; index < source.length; index++) {
+    const char = source[index]
+    if (inString) {
+      if (char === '\\') index++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}' && --depth === 0) {
+      return source.slice(start, index + 1)
+    }
+  }
+
+  return null
+}
+
+// YouTube navigates without reloading, so the scripts on the page can be for
+// an earlier video. The watch page HTML is always for the one asked for.
+const getPlayerResponse = async (videoId: string): Promise<PlayerResponse | null> => {
+  const response = await fetch(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`, {
+    credentials: 'include'
+  })
+  if (!response.ok) return null
+
+  const json = extractJsonObject(await response.text(), 'ytInitialPlayerResponse')
+  if (!json) return null
+
+  const playerResponse = JSON.parse(json) as PlayerResponse
+  return playerResponse.videoDetails?.videoId === videoId ? playerResponse : null
+}
+
+// Captions written by people over automatic ones, in the viewer's language when there are several
+const pickCaptionTrack = (tracks: CaptionTrack[]): CaptionTrack | undefined => {
+  const language = navigator.language.split('-')[0].toLowerCase()
+  const ranked = [
+    ...tracks.filter(track => track.kind !== 'asr'),
+    ...tracks.filter(track => track.kind === 'asr')
+  ]
+  return ranked.find(track => track.languageCode.toLowerCase().startsWith(language)) || ranked[0]
+}
+
+const fetchCaptionCues = async (track: CaptionTrack): Promise<TranscriptCue[]> => {
+  const url = new URL(track.baseUrl, 'https://www.youtube.com')
+  url.searchParams.set('fmt', 'json3')
+
+  const response = await fetch(url.toString(), { credentials: 'include' })
+  if (!response.ok) return []
+
+  // YouTube answers with an empty body when it won't hand out the captions
+  const body = await response.text()
+  if (!body) return []
+
+  const timedText = JSON.parse(body) as TimedText
+  return (timedText.events || [])
+    .filter(event => event.segs?.length)
+    .map(event => ({
+      start: event.tStartMs / 1000,
+      text: event.segs!.map(seg => seg.utf8).join('')
+    }))
+}
+
+// The transcript panel, when the viewer has opened it under the video
+const readTranscriptPanel = (): TranscriptCue[] =>
+  Array.from(document.querySelectorAll('ytd-transcript-segment-renderer'))
+    .map(segment => ({
+      start: parseTimestamp(segment.querySelector('.segment-timestamp')?.textContent || ''),
+      text: segment.querySelector('.segment-text')?.textContent || ''
+    }))
+    .filter((cue): cue is TranscriptCue => cue.start !== null && !!cue.text.trim())
+
+/**
+ * Read a YouTube video's details and captions. Returns null when the page
+ * isn't a video; `cues` is empty when the video has no captions.
+ */
+export const extractYouTubeVideo = async (url: string): Promise<YouTubeVideo | null> => {
+  const videoId = getYouTubeVideoId(url)
+  if (!videoId) return null
+
+  const playerResponse = await getPlayerResponse(videoId)
+  const details = playerResponse?.videoDetails
+  if (!details) return null
+
+  const tracks = playerResponse.captions?.playerCaptionsTracklistRenderer?.captionTracks || []
+  const track = pickCaptionTrack(tracks)
+
+  let cues: TranscriptCue[] = []
+  if (track) {
+    try {
+      cues = await fetchCaptionCues(track)
+    } catch (error) {
+      console.warn('⚠️ Could not load YouTube captions:', error)
+    }
+  }
+  if (cues.length === 0) {
+    cues = readTranscriptPanel()
+  }
+
+  return {
+    videoId,
+    title: details.title,
+    author: details.author,
+    description: details.shortDescription,
+    duration: Number(details.lengthSeconds) || 0,
+    cues
+  }
+}
+
+/**
+ * Watch pages are read from the video's description and captions, instead of
+ * the comments and recommendations around the player
+ */
+export const youtubeAdapter: SiteAdapter = {
+  name: 'youtube',
+  matches: url => /(^|\.)youtube\.com$/.test(url.hostname),
+  extract: async (doc, url) => {
+    const video = await extractYouTubeVideo(url.href)
+    if (!video) return null
+
+    // Thumbnails on the page can hold preview players of their own
+    const player = doc.querySelector<HTMLVideoElement>('#movie_player video, video.html5-main-video')
+    if (player) markTranscriptVideo(player)
+
+    const transcript = video.cues.length > 0
+      ? `## Transcript\n\n${formatTranscript(video.cues)}`
+      : 'This video has no captions, so only its description is available.'
+
+    return {
+      title: video.title,
+      // The canonical link is left over from the first video after in-page navigation
+      canonicalUrl: `https://www.youtube.com/watch?v=${video.videoId}`,
+      content: `${video.description ? `## Description\n\n${video.description}\n\n` : ''}${transcript}`,
+      description: video.description.split('\n')[0],
+      imageUrl: `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg`,
+      author: video.author,
+      sourceType: 'video',
+      duration: video.duration
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { sessionManager } from './session-manager'
+
 export interface AITestResult {
   success: boolean
   message: string
@@ -35,17 +37,15 @@ export const testChromeAI = async (): Promise<AITestResult> => {
     if (status === 'available') {
       console.log('✅ AI is ready!')
       
-      // Create session with timeout protection
-      session = await Promise.race([
-        LanguageModel.create({
+      // The session manager adds the timeout, retry and rate limiting
+      session = await sessionManager.getSession({
+        type: 'languageModel',
+        options: {
           systemPrompt: 'You are a helpful assistant.',
           temperature: 0.7,
           topK: 3
-        }),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Session creation timeout')), 10000)
-        )
-      ])
+        }
+      })
       
       // Send a simple prompt with timeout
       const response = await Promise.race([
@@ -84,16 +84,10 @@ export const testChromeAI = async (): Promise<AITestResult> => {
       details: error instanceof Error ? error.message : String(error)
     }
   } finally {
-    // Ensure session is destroyed even if an error occurs
+    // Hand the session back to the pool even if an error occurs
     if (session) {
-      try {
-        // Add delay before cleanup
-        await new Promise(resolve => setTimeout(resolve, 200))
-        session.destroy()
-        console.log('✅ Session cleaned up')
-      } catch (cleanupError) {
-        console.error('⚠️ Error during session cleanup:', cleanupError)
-      }
+      await sessionManager.releaseSession(session)
+      console.log('✅ Session cleaned up')
     }
   }
 }
@@ -0,0 +1,198 @@
+// apps/extension/src/utils/transcript.ts
+// Video transcripts, written as "[m:ss] text" lines so chat can point at the
+// moment something is said and the side panel can seek the video there.
+
+export interface TranscriptCue {
+  // Seconds from the start of the video
+  start: number
+  text: string
+}
+
+export interface TranscriptLine {
+  time: number
+  // As written in the transcript, e.g. "4:05" or "1:02:30"
+  label: string
+  text: string
+}
+
+// Cues are merged into lines of about this long, so the transcript reads in sentences
+const LINE_SECONDS = 20
+const MAX_LINE_LENGTH = 300
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/
+const TRANSCRIPT_LINE_PATTERN = /^\[((?:\d+:)?\d{1,2}:\d{2})\] (.+)$/gm
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const rest = String(total % 60).padStart(2, '0')
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`
+}
+
+/**
+ * Read "4:05" or "1:02:30" as seconds. Returns null for anything else.
+ */
+export const parseTimestamp = (timestamp: string): number | null => {
+  const match = timestamp.trim().match(TIMESTAMP_PATTERN)
+  if (!match) return null
+
+  const [, hours, minutes, seconds] = match
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+}
+
+/**
+ * Merge cues into timestamped lines, dropping the repeats rolling captions produce
+ */
+export const formatTranscript = (cues: TranscriptCue[]): string => {
+  const lines: string[] = []
+  let lineStart = 0
+  let lineText = ''
+  let previous = ''
+
+  const flush = () => {
+    if (lineText) lines.push(`[${formatTimestamp(lineStart)}] ${lineText}`)
+    lineText = ''
+  }
+
+  for (const cue of cues) {
+    const text = cue.text.replace(/\s+/g, ' ').trim()
+    if (!text || text === previous) continue
+    previous = text
+
+    if (lineText && (cue.start - lineStart >= LINE_SECONDS || lineText.length >= MAX_LINE_LENGTH)) {
+      flush()
+    }
+    if (!lineText) lineStart = cue.start
+    lineText += (lineText ? ' ' : '') + text
+  }
+  flush()
+
+  return lines.join('\n')
+}
+
+/**
+ * Find the timestamped lines in page content
+ */
+export const parseTranscriptLines = (content: string): TranscriptLine[] =>
+  Array.from(content.matchAll(TRANSCRIPT_LINE_PATTERN)).map(match => ({
+    time: parseTimestamp(match[1])!,
+    label: match[1],
+    text: match[2]
+  }))
+
+// "00:01:02.500" or "01:02.500"
+const parseVttTime = (time: string): number | null => {
+  const match = time.trim().match(/^(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})/)
+  if (!match) return null
+
+  const [, hours, minutes, seconds, millis] = match
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000
+}
+
+/**
+ * Parse a WebVTT file into cues, leaving out styling tags
+ */
+export const parseWebVtt = (vtt: string): TranscriptCue[] => {
+  const cues: TranscriptCue[] = []
+
+  for (const block of vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    if (timingIndex === -1) continue
+
+    const start = parseVttTime(lines[timingIndex].split('-->')[0])
+    if (start === null) continue
+
+    const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '')
+    cues.push({ start, text: decodeEntities(text) })
+  }
+
+  return cues
+}
+
+const decodeEntities = (text: string): string => {
+  const textarea = document.createElement('textarea')
+  textarea.innerHTML = text
+  return textarea.value
+}
+
+// <track> elements without a kind are subtitles
+const isTextTrack = (track: HTMLTrackElement): boolean =>
+  !track.kind || track.kind === 'subtitles' || track.kind === 'captions'
+
+// The default track, or one in the page's language, or the first one
+const pickTrack = (tracks: HTMLTrackElement[]): HTMLTrackElement | undefined => {
+  const language = (document.documentElement.lang || navigator.language).split('-')[0].toLowerCase()
+  return tracks.find(track => track.default) ||
+    tracks.find(track => track.srclang.toLowerCase().startsWith(language)) ||
+    tracks[0]
+}
+
+// Set on the video a transcript was read from, so timestamps seek that one
+// and not a preview or ad player earlier on the page
+const TRANSCRIPT_VIDEO_ATTRIBUTE = 'data-talktomytabs-transcript'
+
+export const markTranscriptVideo = (video: HTMLVideoElement): void => {
+  video.ownerDocument.querySelectorAll(`video[${TRANSCRIPT_VIDEO_ATTRIBUTE}]`)
+    .forEach(element => element.removeAttribute(TRANSCRIPT_VIDEO_ATTRIBUTE))
+  video.setAttribute(TRANSCRIPT_VIDEO_ATTRIBUTE, '')
+}
+
+const hasTextTrack = (video: HTMLVideoElement): boolean =>
+  Array.from(video.querySelectorAll('track')).some(isTextTrack)
+
+/**
+ * Read the captions of the first <video> on the page that has a text track,
+ * from the cues the browser already loaded or else from the WebVTT file
+ */
+export const extractTrackTranscript = async (
+  doc: Document = document
+): Promise<{ video: HTMLVideoElement; cues: TranscriptCue[] } | null> => {
+  for (const video of Array.from(doc.querySelectorAll('video'))) {
+    const track = pickTrack(Array.from(video.querySelectorAll('track')).filter(isTextTrack))
+    if (!track) continue
+
+    const loadedCues = Array.from(track.track?.cues || []) as VTTCue[]
+    if (loadedCues.length > 0) {
+      return {
+        video,
+        cues: loadedCues.map(cue => ({ start: cue.startTime, text: cue.text.replace(/<[^>]+>/g, '') }))
+      }
+    }
+
+    if (!track.src) continue
+    try {
+      const response = await fetch(track.src)
+      if (!response.ok) continue
+
+      const cues = parseWebVtt(await response.text())
+      if (cues.length > 0) return { video, cues }
+    } catch (error) {
+      // Tracks on other origins need CORS headers we can't count on
+      console.warn('⚠️ Could not load captions track:', error)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Jump the video the transcript came from to a time and play from there.
+ * After a reload the mark is gone, so a captioned video is the best guess.
+ */
+export const seekVideo = (time: number): boolean => {
+  const videos = Array.from(document.querySelectorAll('video'))
+  const video = videos.find(element => element.hasAttribute(TRANSCRIPT_VIDEO_ATTRIBUTE)) ||
+    videos.find(hasTextTrack) ||
+    videos[0]
+  if (!video) return false
+
+  video.currentTime = time
+  video.play().catch(() => undefined)
+  video.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  return true
+}
@@ -0,0 +1,69 @@
+// apps/extension/src/utils/url.ts
+// ** import types
+import type { PageContent } from '@/utils/contentExtractor'
+
+// ** import utils
+import { isPdfUrl } from '@/utils/pdf'
+
+// Query params that only track where the visit came from
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid)$/i
+
+// Pages Chrome does not allow extensions to script
+const RESTRICTED_URL_PATTERNS = [
+  /^chrome:\/\//,
+  /^chrome-extension:\/\//,
+  /^about:/,
+  /^data:/,
+  /^file:\/\//,
+  /^view-source:/
+]
+
+/**
+ * Whether we can't read this page. Local PDFs are the exception, they're read
+ * with pdf.js instead of a content script.
+ */
+export const isRestrictedUrl = (url: string): boolean => {
+  if (/^file:\/\//.test(url) && isPdfUrl(url)) return false
+  return RESTRICTED_URL_PATTERNS.some(pattern => pattern.test(url))
+}
+
+export const getDomainFromUrl = (url: string): string => {
+  try {
+    const urlObj = new URL(url)
+    return urlObj.hostname
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Normalize a URL so the same article always maps to the same key:
+ * drop the fragment, tracking params and trailing slash
+ */
+export const normalizeUrl = (url: string): string => {
+  try {
+    const urlObj = new URL(url)
+    urlObj.hash = ''
+
+    for (const param of Array.from(urlObj.searchParams.keys())) {
+      if (TRACKING_PARAM_PATTERN.test(param)) {
+        urlObj.searchParams.delete(param)
+      }
+    }
+
+    if (urlObj.pathname.length > 1 && urlObj.pathname.endsWith('/')) {
+      urlObj.pathname = urlObj.pathname.slice(0, -1)
+    }
+
+    return urlObj.toString()
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Key a chat session by the page's canonical URL when it has one
+ */
+export const getSessionKey = (content: Pick<PageContent, 'url' | 'canonicalUrl'>): string => {
+  return normalizeUrl(content.canonicalUrl || content.url)
+}